@@ -0,0 +1,94 @@
+/**
+ * Carrega o normalizador do painel (TypeScript, via ts-node) para os scripts
+ * de teste da API em Node (quick-api-test.js e test-api-connection.js).
+ *
+ * O normalizador importa módulos do navegador (catálogo de variações,
+ * cliente HTTP): bastam stubs mínimos de window e localStorage. Sem
+ * IndexedDB, o catálogo sincronizado fica vazio.
+ */
+
+const API_BASE_URL = 'https://mercado-api-9sw5.onrender.com/api';
+
+global.window = global.window || {
+  location: { hostname: 'node', origin: 'http://node', href: 'http://node/' },
+  addEventListener() {},
+  removeEventListener() {}
+};
+global.localStorage = global.localStorage || { getItem: () => null, setItem() {}, removeItem() {} };
+
+require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+
+// O armazenamento de pedidos tenta abrir o IndexedDB ao ser importado
+const consoleError = console.error;
+console.error = () => {};
+const { normalizeOrder, detectProfile } = require('./src/services/api/normalizer');
+const { validateBackendOrder } = require('./src/services/api/orderValidation');
+setTimeout(() => { console.error = consoleError; }, 0);
+
+async function requestJSON(path, options = {}) {
+  const response = await fetch(API_BASE_URL + path, {
+    ...options,
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' }
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  return response.json();
+}
+
+// { success, data } ou a lista direto; data pode trazer { orders }
+function unwrapOrders(body) {
+  const data = body && body.data !== undefined ? body.data : body;
+  if (Array.isArray(data)) return data;
+  return data && Array.isArray(data.orders) ? data.orders : [];
+}
+
+async function checkHealth() {
+  try {
+    await requestJSON('/health');
+    return true;
+  } catch (error) {
+    console.log(`   ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Busca os pedidos brutos (RESTful e, se falhar, o legado) e normaliza cada
+ * um como o painel faz. Pedidos que o painel mandaria para a quarentena
+ * entram em invalid.
+ */
+async function fetchNormalizedOrders() {
+  let raw;
+  let endpoint = 'GET /orders';
+  try {
+    raw = unwrapOrders(await requestJSON('/orders'));
+  } catch (error) {
+    console.log(`   Endpoint RESTful falhou (${error.message}), tentando o legado...`);
+    endpoint = 'POST /list-orders';
+    raw = unwrapOrders(await requestJSON('/list-orders', { method: 'POST', body: '{}' }));
+  }
+
+  const orders = [];
+  const invalid = [];
+  raw.forEach(order => {
+    const result = validateBackendOrder(order);
+    if (result.valid) {
+      orders.push({ profile: detectProfile(order).name, order: normalizeOrder(order) });
+    } else {
+      invalid.push({ id: order && (order._id || order.id), issues: result.issues.map(issue => issue.type) });
+    }
+  });
+
+  return { endpoint, orders, invalid };
+}
+
+function describeOrder({ profile, order }) {
+  return [
+    `   ID: ${order.id} (perfil ${profile})`,
+    `   Cliente: ${order.customer.name}`,
+    `   Status: ${order.status}`,
+    `   Total: R$ ${order.total.toFixed(2)}`,
+    `   Itens: ${order.items.length}`
+  ].join('\n');
+}
+
+module.exports = { API_BASE_URL, checkHealth, fetchNormalizedOrders, describeOrder };
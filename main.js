@@ -1,5 +1,6 @@
-const { app, BrowserWindow, ipcMain } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog } = require('electron');
 const path = require('path');
+const fs = require('fs');
 const isDev = process.env.NODE_ENV === 'development';
 const url = require('url');
 
@@ -75,6 +76,40 @@ function setupIPC() {
       mainWindow.webContents.send('resposta-do-main', 'Recebido: ' + mensagem);
     }
   });
+
+  // Escolher a pasta do backup automático
+  ipcMain.handle('backup-escolher-pasta', async () => {
+    const resultado = await dialog.showOpenDialog(mainWindow, {
+      title: 'Pasta do backup automático',
+      properties: ['openDirectory', 'createDirectory']
+    });
+    return resultado.canceled ? null : resultado.filePaths[0];
+  });
+
+  // Gravar o backup e apagar os mais antigos além do limite
+  ipcMain.handle('backup-salvar', async (event, { pasta, nome, conteudo, manter }) => {
+    const nomeSeguro = path.basename(nome);
+    if (!/^backup-painel-.*\.json$/.test(nomeSeguro)) {
+      throw new Error('Nome de arquivo de backup inválido');
+    }
+
+    const destino = path.join(pasta, nomeSeguro);
+    await fs.promises.mkdir(pasta, { recursive: true });
+    await fs.promises.writeFile(destino, conteudo, 'utf8');
+
+    // O nome leva a data ISO: ordem alfabética é ordem cronológica
+    const antigos = (await fs.promises.readdir(pasta))
+      .filter((arquivo) => /^backup-painel-.*\.json$/.test(arquivo))
+      .sort()
+      .reverse()
+      .slice(Math.max(1, manter || 0));
+
+    for (const arquivo of antigos) {
+      await fs.promises.unlink(path.join(pasta, arquivo));
+    }
+
+    return destino;
+  });
 }
 
 // Este método será chamado quando Electron terminar a inicialização
@@ -0,0 +1,463 @@
+/**
+ * Servidor local de testes para o tempo real do Painel de Pedidos
+ *
+ * Substitui o WebSocket e o SSE do backend para exercitar o cliente sem o servidor real.
+ * Também aceita as mutações de pedido (REST e legado) respeitando o cabeçalho
+ * Idempotency-Key, para testar a detecção de repetições.
+ * Não depende de nenhum pacote: só http e crypto do Node.
+ *
+ * Uso:
+ *   npm run mock-server            (porta 3001)
+ *   npm run mock-server -- --demo  (emite mudanças de status aleatórias)
+ *   npm run mock-server -- --no-ws (recusa WebSocket, como um proxy que o bloqueia)
+ *
+ * No navegador, apontar o painel para cá:
+ *   localStorage.setItem('realtimeUrl', 'ws://localhost:3001/ws')
+ *   localStorage.setItem('realtimeSseUrl', 'http://localhost:3001/events')
+ *   localStorage.setItem('idempotencyEnabled', 'true')  (força a chave; sem isso vai só se a sondagem do CORS aprovar)
+ *
+ * Enviar um evento para todos os painéis conectados:
+ *   curl -X POST http://localhost:3001/events \
+ *     -H "Content-Type: application/json" \
+ *     -d '{"type":"status_changed","orderId":"123","data":{"status":"preparing"}}'
+ *
+ * Derrubar as conexões (para testar reconexão e ressincronização):
+ *   curl -X POST http://localhost:3001/disconnect
+ *
+ * Catálogo de produtos (responde 304 quando o If-None-Match bate com a ETag):
+ *   curl -i http://localhost:3001/api/catalog
+ *
+ * Repetir uma mutação com a mesma chave (a segunda não é aplicada de novo):
+ *   curl -X POST http://localhost:3001/api/orders/123/status \
+ *     -H "Content-Type: application/json" -H "Idempotency-Key: teste-1" \
+ *     -d '{"status":"preparing"}'
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 3001;
+const PING_INTERVAL = 20 * 1000;
+const DEMO_INTERVAL = 10 * 1000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const EVENT_TYPES = ['order_created', 'order_updated', 'order_deleted', 'status_changed'];
+const DEMO_STATUSES = ['pending', 'preparing', 'delivering', 'completed'];
+
+const WS_ENABLED = !process.argv.includes('--no-ws');
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const IDEMPOTENCY_TTL = 24 * 60 * 60 * 1000;
+
+const sockets = new Set();
+const sseClients = new Set();
+
+// ==================== WEBSOCKET ====================
+
+// Monta um frame de texto (servidor não usa máscara)
+function encodeFrame(text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  let header;
+
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+// Lê só o opcode do frame do cliente: basta para responder ao close
+function readOpcode(buffer) {
+  return buffer.length > 0 ? buffer[0] & 0x0f : null;
+}
+
+function send(socket, message) {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(JSON.stringify(message)));
+  }
+}
+
+function broadcast(message) {
+  sockets.forEach(socket => send(socket, message));
+  sseClients.forEach(res => sendSse(res, message));
+  console.log(`📣 ${message.type} → ${connectionCount()} conexão(ões)`);
+}
+
+function connectionCount() {
+  return sockets.size + sseClients.size;
+}
+
+function handleUpgrade(req, socket) {
+  if (!WS_ENABLED || !req.url.startsWith('/ws')) {
+    socket.destroy();
+    return;
+  }
+
+  const key = req.headers['sec-websocket-key'];
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    ''
+  ].join('\r\n'));
+
+  sockets.add(socket);
+  console.log(`⚡ Painel conectado (${sockets.size})`);
+  send(socket, { type: 'hello', timestamp: new Date().toISOString() });
+
+  socket.on('data', buffer => {
+    if (readOpcode(buffer) === 0x8) {
+      socket.end(encodeFrame('', 0x8));
+    }
+  });
+
+  const drop = () => {
+    if (sockets.delete(socket)) {
+      console.log(`🔌 Painel desconectado (${sockets.size})`);
+    }
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+}
+
+// ==================== SSE ====================
+
+function sendSse(res, message) {
+  res.write(`data: ${JSON.stringify(message)}\n\n`);
+}
+
+function handleSse(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*'
+  });
+
+  sseClients.add(res);
+  console.log(`⚡ Painel conectado via SSE (${sseClients.size})`);
+  sendSse(res, { type: 'hello', timestamp: new Date().toISOString() });
+
+  req.on('close', () => {
+    sseClients.delete(res);
+    console.log(`🔌 Painel SSE desconectado (${sseClients.size})`);
+  });
+}
+
+// ==================== HTTP ====================
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
+function reply(res, status, data, headers = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, If-None-Match',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'Idempotent-Replayed, ETag',
+    ...headers
+  });
+  res.end(status === 304 ? undefined : JSON.stringify(data));
+}
+
+// ==================== PEDIDOS ====================
+
+const orders = new Map();
+const idempotentResponses = new Map(); // chave → { status, body, storedAt }
+const inFlightResponses = new Map(); // chave → Promise da primeira resposta, enquanto em andamento
+let duplicateCount = 0;
+
+// Pedido desconhecido é criado na hora: basta o id usado pelo painel
+function getOrder(id) {
+  if (!orders.has(id)) {
+    const now = new Date().toISOString();
+    orders.set(id, {
+      _id: id,
+      customer_name: `Cliente ${id}`,
+      items: [],
+      total: 0,
+      status: 'pending',
+      __v: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+  return orders.get(id);
+}
+
+function applyChanges(id, changes) {
+  const order = getOrder(id);
+  Object.assign(order, changes, { __v: order.__v + 1, updatedAt: new Date().toISOString() });
+  return order;
+}
+
+function pruneIdempotentResponses() {
+  const now = Date.now();
+  idempotentResponses.forEach((stored, key) => {
+    if (now - stored.storedAt > IDEMPOTENCY_TTL) idempotentResponses.delete(key);
+  });
+}
+
+/**
+ * A primeira resposta de cada Idempotency-Key fica guardada; repetições
+ * (retry, fallback REST → legado, reenvio da fila) recebem a mesma resposta
+ * sem aplicar a mudança de novo. A chave identifica a mutação, não o endpoint.
+ *
+ * A chave é reservada assim que a requisição chega: uma repetição que chega
+ * enquanto a primeira ainda está em andamento (aba líder e service worker,
+ * retry que alcança o original) espera por ela em vez de aplicar de novo.
+ */
+async function handleMutation(req, res, mutate) {
+  const key = req.headers[IDEMPOTENCY_HEADER];
+  const pending = key && (idempotentResponses.get(key) || inFlightResponses.get(key));
+  if (pending) {
+    req.resume();
+    const stored = await pending;
+    duplicateCount++;
+    console.log(`🔁 Repetição ignorada (${req.method} ${req.url}, chave ${key})`);
+    reply(res, stored.status, stored.body, { 'Idempotent-Replayed': 'true' });
+    return;
+  }
+
+  let settle = () => {};
+  if (key) {
+    inFlightResponses.set(key, new Promise(resolve => { settle = resolve; }));
+  } else {
+    console.log(`⚠️ ${req.method} ${req.url} sem Idempotency-Key`);
+  }
+
+  const respond = (status, body, stored) => {
+    if (key) {
+      inFlightResponses.delete(key);
+      if (stored) {
+        pruneIdempotentResponses();
+        idempotentResponses.set(key, { status, body, storedAt: Date.now() });
+      }
+    }
+    settle({ status, body });
+    reply(res, status, body);
+  };
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    respond(400, { error: 'JSON inválido' }, false);
+    return;
+  }
+
+  const result = mutate(body);
+  if (!result) {
+    respond(400, { error: 'Requisição sem id ou sem alterações' }, false);
+    return;
+  }
+
+  broadcast({ orderId: result.order._id, timestamp: new Date().toISOString(), ...result.event });
+  respond(200, result.order, true);
+}
+
+function changeStatus(id, status) {
+  if (!id || !status) return null;
+  const order = applyChanges(id, { status });
+  return { order, event: { type: 'status_changed', data: { status } } };
+}
+
+function changeFields(id, fields) {
+  const { id: _ignored, ...changes } = fields;
+  if (!id || Object.keys(changes).length === 0) return null;
+  const order = applyChanges(id, changes);
+  return { order, event: { type: 'order_updated', data: order } };
+}
+
+function removeOrder(id) {
+  if (!id) return null;
+  const order = getOrder(id);
+  orders.delete(id);
+  return { order, event: { type: 'order_deleted', data: {} } };
+}
+
+// Rotas de pedido sob /api, como no backend real (RESTful e legadas)
+function handleOrdersApi(req, res, pathname) {
+  const orderMatch = pathname.match(/^\/api\/orders\/([^/]+)(\/status)?$/);
+
+  if (req.method === 'GET' && pathname === '/api/orders') {
+    reply(res, 200, Array.from(orders.values()));
+    return true;
+  }
+  if (req.method === 'GET' && orderMatch && !orderMatch[2]) {
+    reply(res, 200, getOrder(orderMatch[1]));
+    return true;
+  }
+  if (req.method === 'POST' && orderMatch && orderMatch[2]) {
+    handleMutation(req, res, body => changeStatus(orderMatch[1], body.status));
+    return true;
+  }
+  if (req.method === 'PATCH' && orderMatch && !orderMatch[2]) {
+    handleMutation(req, res, body => changeFields(orderMatch[1], body));
+    return true;
+  }
+  if (req.method === 'DELETE' && orderMatch && !orderMatch[2]) {
+    handleMutation(req, res, () => removeOrder(orderMatch[1]));
+    return true;
+  }
+  if (req.method === 'POST' && pathname === '/api/update-order-status') {
+    handleMutation(req, res, body => changeStatus(body.id, body.status));
+    return true;
+  }
+  if (req.method === 'POST' && pathname === '/api/update-order') {
+    handleMutation(req, res, body => changeFields(body.id, body));
+    return true;
+  }
+  return false;
+}
+
+// ==================== CATÁLOGO ====================
+
+const catalog = {
+  version: '1',
+  products: [
+    {
+      _id: 'prod-acai',
+      name: 'Açaí',
+      price: 15,
+      flavors: [
+        { _id: '67f3a1b2c3d4e5f6a7b8c901', name: 'Chocolate' },
+        { _id: '67f3a1b2c3d4e5f6a7b8c902', name: 'Lavanda' }
+      ],
+      options: [
+        { _id: '67f3a1b2c3d4e5f6a7b8c911', name: '500ml', price: 18 },
+        { _id: '67f3a1b2c3d4e5f6a7b8c912', name: '700ml', price: 22 }
+      ]
+    }
+  ]
+};
+
+function catalogEtag() {
+  return `"${crypto.createHash('sha1').update(JSON.stringify(catalog)).digest('hex')}"`;
+}
+
+function handleCatalogApi(req, res, pathname) {
+  if (req.method !== 'GET' || (pathname !== '/api/catalog' && pathname !== '/api/products')) {
+    return false;
+  }
+
+  const etag = catalogEtag();
+  if (req.headers['if-none-match'] === etag) {
+    reply(res, 304, null, { ETag: etag });
+    return true;
+  }
+  reply(res, 200, pathname === '/api/catalog' ? catalog : catalog.products, { ETag: etag });
+  return true;
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    reply(res, 204, {});
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/health') {
+    reply(res, 200, {
+      status: 'ok',
+      websocket: sockets.size,
+      sse: sseClients.size,
+      orders: orders.size,
+      idempotencyKeys: idempotentResponses.size,
+      duplicates: duplicateCount
+    });
+    return;
+  }
+
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  if (pathname.startsWith('/api/') && (handleCatalogApi(req, res, pathname) || handleOrdersApi(req, res, pathname))) {
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/events') {
+    handleSse(req, res);
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/events') {
+    try {
+      const event = await readBody(req);
+      if (!EVENT_TYPES.includes(event.type) || !event.orderId) {
+        reply(res, 400, { error: `type deve ser um de ${EVENT_TYPES.join(', ')} e orderId é obrigatório` });
+        return;
+      }
+
+      broadcast({ data: {}, timestamp: new Date().toISOString(), ...event });
+      reply(res, 202, { delivered: connectionCount() });
+    } catch (error) {
+      reply(res, 400, { error: 'JSON inválido' });
+    }
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/disconnect') {
+    const count = connectionCount();
+    sockets.forEach(socket => socket.destroy());
+    sseClients.forEach(client => client.destroy());
+    reply(res, 200, { disconnected: count });
+    return;
+  }
+
+  reply(res, 404, { error: 'Não encontrado' });
+});
+
+server.on('upgrade', handleUpgrade);
+
+function broadcastPing() {
+  const ping = { type: 'ping', timestamp: new Date().toISOString() };
+  sockets.forEach(socket => send(socket, ping));
+  sseClients.forEach(res => sendSse(res, ping));
+}
+
+// Ping periódico: o cliente considera a conexão morta se ficar sem mensagens
+setInterval(broadcastPing, PING_INTERVAL);
+
+// Modo demonstração: status aleatórios para os ids informados em DEMO_ORDER_IDS
+if (process.argv.includes('--demo')) {
+  const orderIds = (process.env.DEMO_ORDER_IDS || 'mock-1,mock-2,mock-3').split(',');
+
+  setInterval(() => {
+    if (connectionCount() === 0) return;
+    broadcast({
+      type: 'status_changed',
+      orderId: orderIds[Math.floor(Math.random() * orderIds.length)],
+      data: { status: DEMO_STATUSES[Math.floor(Math.random() * DEMO_STATUSES.length)] },
+      timestamp: new Date().toISOString()
+    });
+  }, DEMO_INTERVAL);
+}
+
+server.listen(PORT, () => {
+  console.log(`🧪 Servidor local de tempo real em ws://localhost:${PORT}/ws e http://localhost:${PORT}/events`);
+  if (!WS_ENABLED) console.log('🚫 WebSocket desativado (--no-ws)');
+});
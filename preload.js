@@ -37,6 +37,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getImpressoras: () => {
       return ipcRenderer.invoke('get-impressoras');
     }
+  },
+
+  // Backup dos dados locais em arquivo
+  backup: {
+    escolherPasta: () => {
+      return ipcRenderer.invoke('backup-escolher-pasta');
+    },
+    salvar: (arquivo) => {
+      return ipcRenderer.invoke('backup-salvar', arquivo);
+    }
   }
 });
 
@@ -353,4 +353,288 @@ async function forceRefreshCache(url) {
   }
 }
 
+// ==================== BACKGROUND SYNC ====================
+// A fila de mutações fica no IndexedDB do app (PainelPedidosCache/syncQueue).
+// O service worker reenvia as entradas, inclusive depois que a aba fecha, e
+// avisa as abas abertas do andamento pelas mensagens de sempre (notifyClients).
+
+const SYNC_TAG = 'mercado-sync-queue';
+const SYNC_DB_NAME = 'PainelPedidosCache';
+const SYNC_DB_VERSION = 1;
+const API_BASE_URL = 'https://mercado-api-9sw5.onrender.com/api';
+const REPLAY_TIMEOUT = 30000; // O servidor pode estar acordando
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replaySyncQueue(event.lastChance));
+  }
+});
+
+function openSyncDB() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SYNC_DB_NAME, SYNC_DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+
+    // Mesmo esquema do indexedDBService, caso o service worker abra o banco primeiro
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains('cache')) {
+        const cacheStore = db.createObjectStore('cache', { keyPath: 'id' });
+        cacheStore.createIndex('url', 'url', { unique: false });
+        cacheStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('syncQueue')) {
+        const syncStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
+        syncStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
+    };
+  });
+}
+
+function syncQueueRequest(db, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(['syncQueue'], mode).objectStore('syncQueue');
+    const request = operation(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function fetchWithTimeout(url, options = {}) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REPLAY_TIMEOUT);
+
+  try {
+    return await fetch(url, { ...options, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function sendRequest(request) {
+  const response = await fetchWithTimeout(request.url, {
+    method: request.method,
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json', ...(request.headers || {}) },
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Mutação de pedido: endpoint RESTful e, se falhar, o legado (como o OrdersService).
+// As requisições prontas (e os headers das entradas avulsas) já levam a chave
+// de idempotência quando a aba detectou que o backend a aceita.
+async function sendEntry(entry) {
+  if (!entry.requests) {
+    return sendRequest({ method: entry.method, url: entry.url, body: entry.data, headers: entry.headers });
+  }
+
+  try {
+    return await sendRequest(entry.requests.rest);
+  } catch (error) {
+    console.log('[SW] Endpoint RESTful falhou, tentando o legado:', error.message);
+    return sendRequest(entry.requests.legacy);
+  }
+}
+
+// Mesmos envelopes do extractBackendOrder da aba: { order } e { success, data }.
+// Resposta sem pedido (ex.: { success: true }) devolve null.
+function unwrapOrder(body) {
+  let current = body;
+  for (let depth = 0; depth < 3; depth++) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return null;
+    if (current._id !== undefined || current.id !== undefined || Array.isArray(current.items)) return current;
+    current = current.order !== undefined ? current.order : current.data;
+  }
+  return null;
+}
+
+function baseOf(body) {
+  const serverOrder = unwrapOrder(body);
+  if (!serverOrder) return null;
+
+  const version = serverOrder.__v ?? serverOrder.version;
+  const updatedAt = serverOrder.updatedAt || serverOrder.updated_at || serverOrder.lastUpdate;
+  const base = {
+    version: typeof version === 'number' ? version : undefined,
+    updatedAt: updatedAt ? new Date(updatedAt).toISOString() : undefined
+  };
+
+  return base.version !== undefined || base.updatedAt !== undefined ? base : null;
+}
+
+/**
+ * Mesmo critério do localEdits: o pedido mudou no servidor desde a versão em
+ * que a mutação foi feita? Sem como verificar, segue com o envio.
+ */
+async function hasServerDiverged(orderId, base) {
+  if (!base || (base.version === undefined && !base.updatedAt)) return false;
+
+  try {
+    const current = baseOf(await sendRequest({ method: 'GET', url: `${API_BASE_URL}/orders/${orderId}` }));
+    if (!current) return false;
+
+    if (base.version !== undefined && current.version !== undefined) {
+      return current.version !== base.version;
+    }
+    if (base.updatedAt && current.updatedAt) {
+      return new Date(current.updatedAt).getTime() !== new Date(base.updatedAt).getTime();
+    }
+    return false;
+  } catch (error) {
+    console.log('[SW] Não foi possível verificar a versão do pedido', orderId);
+    return false;
+  }
+}
+
+/**
+ * Reenvia a fila em ordem de criação. Como na aba: uma mutação que falha
+ * segura as seguintes do mesmo pedido, e pedido que mudou no servidor não
+ * recebe nada (a aba decide se é conflito de verdade).
+ */
+async function replaySyncQueue(lastChance) {
+  const db = await openSyncDB();
+  const queue = (await syncQueueRequest(db, 'readonly', store => store.getAll()))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const total = queue.filter(entry => entry.status !== 'failed').length;
+
+  const blockedOrders = new Set();
+  const checkedOrders = new Set();
+  // Entradas com resultado próprio (enviada, recusada, em conflito)
+  const settledEntries = new Set();
+  const errors = [];
+  let successCount = 0;
+  let processed = 0;
+  let retryLater = false;
+
+  console.log(`[SW] Reenviando fila de sincronização (${total} entradas)`);
+  notifyClients('sync-queue-started', { total });
+
+  try {
+    for (let index = 0; index < queue.length; index++) {
+      const entry = queue[index];
+
+      if (entry.status === 'failed') {
+        if (entry.orderId) blockedOrders.add(entry.orderId);
+        continue;
+      }
+      if (entry.orderId && blockedOrders.has(entry.orderId)) continue;
+
+      // Ainda na janela de desfazer da aba: ela e as seguintes do pedido ficam para depois
+      if (entry.notBefore && entry.notBefore > Date.now()) {
+        if (entry.orderId) blockedOrders.add(entry.orderId);
+        retryLater = true;
+        continue;
+      }
+
+      // Entrada de versão antiga do app, sem requisição pronta: fica para a aba
+      if (entry.orderId && !entry.requests) {
+        blockedOrders.add(entry.orderId);
+        continue;
+      }
+
+      if (entry.orderId && !checkedOrders.has(entry.orderId)) {
+        checkedOrders.add(entry.orderId);
+
+        if (await hasServerDiverged(entry.orderId, entry.base)) {
+          blockedOrders.add(entry.orderId);
+          // A aba decide se é conflito de verdade; as entradas do pedido esperam por ela
+          queue.filter(next => next.orderId === entry.orderId).forEach(next => settledEntries.add(next.id));
+          notifyClients('sync-queue-conflict', { orderId: entry.orderId });
+          continue;
+        }
+      }
+
+      processed++;
+      settledEntries.add(entry.id);
+
+      try {
+        const serverOrder = await sendEntry(entry);
+        await syncQueueRequest(db, 'readwrite', store => store.delete(entry.id));
+        successCount++;
+
+        // As próximas mutações do pedido passam a valer sobre a versão devolvida
+        const laterEntries = entry.orderId
+          ? queue.slice(index + 1).filter(next => next.orderId === entry.orderId)
+          : [];
+        const nextBase = baseOf(serverOrder);
+
+        if (nextBase) {
+          for (const next of laterEntries) {
+            next.base = nextBase;
+            await syncQueueRequest(db, 'readwrite', store => store.put(next));
+          }
+        }
+
+        notifyClients('sync-queue-progress', {
+          entryId: entry.id,
+          orderId: entry.orderId,
+          outcome: 'sent',
+          serverOrder,
+          stillPending: laterEntries.length > 0,
+          processed,
+          total
+        });
+      } catch (error) {
+        console.log('[SW] Erro ao reenviar entrada', entry.id, error.message);
+
+        entry.retryCount = (entry.retryCount || 0) + 1;
+        entry.lastError = error.message;
+
+        if (entry.retryCount >= entry.maxRetries) {
+          // Esgotou as tentativas: fica na fila aguardando nova tentativa manual
+          entry.status = 'failed';
+          errors.push(`Falha permanente: ${entry.method} ${entry.url}`);
+        } else {
+          retryLater = true;
+          errors.push(`Tentativa ${entry.retryCount}/${entry.maxRetries}: ${entry.method} ${entry.url}`);
+        }
+
+        await syncQueueRequest(db, 'readwrite', store => store.put(entry));
+        if (entry.orderId) blockedOrders.add(entry.orderId);
+
+        notifyClients('sync-queue-progress', {
+          entryId: entry.id,
+          orderId: entry.orderId,
+          outcome: entry.status === 'failed' ? 'failed' : 'retry',
+          error: entry.lastError,
+          processed,
+          total
+        });
+      }
+    }
+  } finally {
+    db.close();
+    console.log(`[SW] Fila reenviada: ${successCount} ok, ${errors.length} erro(s)`);
+    notifyClients('sync-queue-finished', {
+      successCount,
+      errors,
+      // Vistas nesta rodada e deixadas na fila sem tentativa
+      queuedEntryIds: queue.filter(entry => !settledEntries.has(entry.id)).map(entry => entry.id)
+    });
+  }
+
+  // Rejeitar faz o navegador agendar outra tentativa mais tarde
+  if (retryLater && !lastChance) {
+    throw new Error('Entradas pendentes na fila de sincronização');
+  }
+}
+
 console.log('[SW] Service Worker carregado');
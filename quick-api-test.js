@@ -1,16 +1,9 @@
 /**
- * Teste rápido da API - Verifica saúde e busca pedidos
+ * Teste rápido da API - Verifica saúde e busca pedidos pelo normalizador do painel
  * Execute com: node quick-api-test.js
  */
 
-// Importar o adaptador da API
-const { CompleteApiAdapter } = require('./src/services/api-adapter-complete');
-
-// Criar instância do adaptador
-const api = new CompleteApiAdapter({
-  baseUrl: 'https://mercado-api-9sw5.onrender.com/api',
-  debug: true
-});
+const { checkHealth, fetchNormalizedOrders, describeOrder } = require('./api-test-normalizer');
 
 // Função principal
 async function quickTest() {
@@ -20,42 +13,32 @@ async function quickTest() {
   try {
     // Verificar saúde
     console.log('\n1. Verificando saúde da API...');
-    const health = await api.checkHealth();
-    console.log(`   Resultado: ${health.success ? '✅ Online' : '❌ Offline'}`);
-    
-    if (!health.success) {
+    const healthy = await checkHealth();
+    console.log(`   Resultado: ${healthy ? '✅ Online' : '❌ Offline'}`);
+
+    if (!healthy) {
       console.log('   ⚠️ API offline. Abortando teste.');
       return;
     }
-    
+
     // Buscar pedidos
     console.log('\n2. Buscando pedidos...');
-    const orders = await api.getOrders();
-    
-    if (orders.success && orders.data) {
-      const count = Array.isArray(orders.data) ? orders.data.length : 0;
-      console.log(`   ✅ ${count} pedidos encontrados`);
-      
-      if (count > 0) {
-        // Mostrar primeiro pedido
-        const first = orders.data[0];
-        console.log('\n   Exemplo de pedido:');
-        console.log(`   ID: ${first.id}`);
-        console.log(`   Cliente: ${first.customer.name}`);
-        console.log(`   Status: ${first.status}`);
-        console.log(`   Total: R$ ${first.total.toFixed(2)}`);
-        console.log(`   Itens: ${first.items.length}`);
-      }
-    } else {
-      console.log(`   ❌ Erro ao buscar pedidos: ${orders.message || 'Desconhecido'}`);
+    const { endpoint, orders, invalid } = await fetchNormalizedOrders();
+    console.log(`   ✅ ${orders.length} pedidos normalizados (${endpoint})`);
+    if (invalid.length > 0) {
+      console.log(`   🚫 ${invalid.length} pedido(s) inválido(s), iriam para a quarentena`);
     }
-    
+
+    if (orders.length > 0) {
+      console.log('\n   Exemplo de pedido:');
+      console.log(describeOrder(orders[0]));
+    }
+
     console.log('\n🏁 TESTE CONCLUÍDO');
-    
   } catch (error) {
     console.error('\n❌ ERRO NO TESTE:', error.message);
   }
 }
 
 // Executar o teste
-quickTest().catch(console.error);
\ No newline at end of file
+quickTest().catch(console.error);
@@ -6,29 +6,42 @@ import {
   OrderStatus,
   ToastType,
   Toast,
-  ConfirmModalState,
-  OrderItem
+  OrderItem,
+  BatchOperationResult,
+  ORDER_STATUS_CONFIG
 } from './types';
+import { ConflictChoice } from './utils/orderConflicts';
 import { useOrders } from './hooks/useOrders';
+import { usePrint } from './hooks/usePrint';
+import { useBoardColumns } from './hooks/useBoardColumns';
+import { useBackendWakeUp } from './hooks/useBackendWakeUp';
+import { useStorageRetention } from './hooks/useStorageRetention';
+import { autoBackup } from './services/persistence/autoBackup';
+import { storageRetention } from './services/persistence/retention';
+import { variationCatalog } from './services/persistence/variationCatalog';
 import { ThemeProvider } from './components/providers/ThemeProvider';
 import { formatCurrency } from './utils/formatters';
+import { UI_CONFIG } from './config/ui.config';
 
 // Components
 import OrderCard from './components/orders/OrderCard';
 import DraggableOrderBoard from './components/orders/DraggableOrderBoard';
+import BoardColumnsMenu from './components/orders/BoardColumnsMenu';
+import OrderDetailDrawer from './components/orders/OrderDetailDrawer';
+import BatchActionBar from './components/orders/BatchActionBar';
 import StatisticsPanel from './components/stats/StatisticsPanel';
 import EditPriceModal from './components/modals/EditPriceModal';
-import ConfirmationModal from './components/modals/ConfirmationModal';
 import HelpModal from './components/modals/HelpModal';
+import ConflictResolutionModal from './components/modals/ConflictResolutionModal';
 import PrintPreviewModal from './components/print/PrintPreviewModal';
 import { PWAStatus } from './components/PWAStatus';
 import ElectronIntegration from './components/ElectronIntegration';
-import { simplifyStatus } from './utils/statusHelpers';
+import { FILTER_SHORTCUTS, validateTransition } from './utils/statusHelpers';
 
 // ==================== SIMPLE COMPONENTS ====================
 
 // Toast Container
-const ToastContainer = ({ toasts }: { toasts: Toast[] }) => {
+const ToastContainer = ({ toasts, onDismiss }: { toasts: Toast[]; onDismiss: (id: string) => void }) => {
   const typeStyles = {
     success: 'bg-green-500',
     error: 'bg-red-500',
@@ -44,7 +57,20 @@ const ToastContainer = ({ toasts }: { toasts: Toast[] }) => {
           className={`${typeStyles[toast.type]} text-white px-4 py-3 rounded-lg shadow-lg 
             transform transition-all duration-300 animate-slide-in`}
         >
-          <p className="font-medium">{toast.message}</p>
+          <div className="flex items-center gap-4">
+            <p className="font-medium">{toast.message}</p>
+            {toast.action && (
+              <button
+                onClick={() => {
+                  toast.action!.onClick();
+                  onDismiss(toast.id);
+                }}
+                className="px-3 py-1 bg-white/20 hover:bg-white/30 rounded-md text-sm font-semibold whitespace-nowrap"
+              >
+                {toast.action.label}
+              </button>
+            )}
+          </div>
         </div>
       ))}
     </div>
@@ -56,6 +82,10 @@ function App() {
   const [filter, setFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [detailOrderId, setDetailOrderId] = useState<string | null>(null);
+  const [conflictOrderId, setConflictOrderId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [batchBusy, setBatchBusy] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [showHelp, setShowHelp] = useState(false);
@@ -64,14 +94,9 @@ function App() {
   const [printModalState, setPrintModalState] = useState({
     isOpen: false,
     order: null as Order | null,
+    multiple: false,
     templateId: 'completo'
   });
-  const [confirmModal, setConfirmModal] = useState<ConfirmModalState>({
-    isOpen: false,
-    title: '',
-    message: '',
-    type: 'info',
-    onConfirm: () => {}  });
 
   // Hooks
   const {
@@ -84,13 +109,33 @@ function App() {
     updateOrder,
     addOrder,
     deleteOrder,
+    undoLastChange,
+    batchUpdateStatus,
+    batchUpdateOrders,
+    retrySync,
+    syncStates,
+    conflicts,
+    resolveConflict,
     clearError,
     getFilteredOrders,
     usingMockData
   } = useOrders();
+
+  const {
+    columns,
+    visibleColumns,
+    toggleCollapsed,
+    toggleHidden,
+    moveColumn,
+    resetColumns
+  } = useBoardColumns();
+
+  const { printMultipleOrders, printableOrders } = usePrint();
   
   // Indicador de dados mockados
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const wakeUp = useBackendWakeUp();
+  const retention = useStorageRetention();
   
   // Verificar se estamos usando dados mockados
   useEffect(() => {
@@ -101,14 +146,66 @@ function App() {
     localStorage.setItem('usingDemoData', usingMockData ? 'true' : 'false');
   }, [usingMockData]);
 
+  // Backup automático agendado (só no aplicativo desktop)
+  useEffect(() => autoBackup.start(), []);
+
+  // Retenção dos pedidos salvos e monitoramento da cota
+  useEffect(() => storageRetention.start(), []);
+
+  // Catálogo de produtos e variações (nomes dos ids dos itens)
+  useEffect(() => variationCatalog.start(), []);
+
   // Toast handler
-  const showToast = useCallback((message: string, type: ToastType = ToastType.INFO) => {
-    const id = Date.now().toString();
-    const newToast: Toast = { id, message, type };
+  const dismissToast = useCallback((id: string) => {
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showToast = useCallback((
+    message: string,
+    type: ToastType = ToastType.INFO,
+    options: Pick<Toast, 'duration' | 'action'> = {}
+  ) => {
+    const id = `${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+    const newToast: Toast = { id, message, type, ...options };
     setToasts(prev => [...prev, newToast]);
-    setTimeout(() => {
-      setToasts(prev => prev.filter(t => t.id !== id));
-    }, 3000);
+    setTimeout(() => dismissToast(id), options.duration || UI_CONFIG.TOAST_DURATION);
+  }, [dismissToast]);
+
+  // Toast com "Desfazer" que fica visível durante toda a janela de desfazer
+  const showUndoToast = useCallback((message: string, orderId: string) => {
+    showToast(message, ToastType.SUCCESS, {
+      duration: UI_CONFIG.UNDO_WINDOW,
+      action: {
+        label: 'Desfazer',
+        onClick: () => {
+          if (undoLastChange(orderId)) {
+            showToast('Alteração desfeita', ToastType.INFO);
+          } else {
+            showToast('Não é mais possível desfazer', ToastType.WARNING);
+          }
+        }
+      }
+    });
+  }, [showToast, undoLastChange]);
+
+  // Atalhos de filtro 0–4 (ver HelpModal)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+        return;
+      }
+
+      const shortcut = FILTER_SHORTCUTS[e.key];
+      if (shortcut) {
+        setFilter(shortcut);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
   // Handlers
@@ -120,20 +217,25 @@ function App() {
   };
 
   const handleUpdateStatus = async (orderId: string, newStatus: OrderStatus) => {
-    setConfirmModal({
-      isOpen: true,
-      title: 'Confirmar Ação',
-      message: `Deseja alterar o status do pedido?`,
-      type: 'info',
-      onConfirm: async () => {
-        try {
-          await updateOrderStatus(orderId, newStatus);
-          showToast('Status atualizado com sucesso!', ToastType.SUCCESS);
-        } catch (error) {
-          showToast('Erro ao atualizar status', ToastType.ERROR);
-        }
+    const order = orders.find((o: Order) => o.id === orderId);
+    if (!order) return;
+
+    const validation = validateTransition(order.status, newStatus);
+    if (!validation.valid) {
+      showToast(validation.reason!, ToastType.WARNING);
+      return;
+    }
+
+    try {
+      const updated = await updateOrderStatus(orderId, newStatus, { undoWindowMs: UI_CONFIG.UNDO_WINDOW });
+      if (updated) {
+        showUndoToast(`Status alterado para ${ORDER_STATUS_CONFIG[newStatus].label}`, orderId);
+      } else {
+        showToast('Não foi possível atualizar o status', ToastType.ERROR);
       }
-    });
+    } catch (error) {
+      showToast('Erro ao atualizar status', ToastType.ERROR);
+    }
   };
 
   const handleSavePrices = async (orderId: string, items: OrderItem[], reason: string) => {
@@ -151,11 +253,144 @@ function App() {
       setPrintModalState({
         isOpen: true,
         order: orderToPrint,
+        multiple: false,
         templateId: 'completo'
       });
     }
   }, [orders]);
 
+  // ==================== AÇÕES EM LOTE ====================
+  // Descarta da seleção pedidos que não existem mais
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const existing = Array.from(prev).filter(id => orders.some((o: Order) => o.id === id));
+      return existing.length === prev.size ? prev : new Set(existing);
+    });
+  }, [orders]);
+
+  const selectedOrders = useMemo(
+    () => orders.filter((o: Order) => selectedIds.has(o.id)),
+    [orders, selectedIds]
+  );
+
+  // Um único toast resumindo o resultado por pedido
+  const showBatchSummary = useCallback((result: BatchOperationResult, action: string) => {
+    const total = result.succeeded.length + result.failed.length + result.queued.length;
+    // Na fila não é falha: a alteração já vale aqui e será enviada quando possível
+    const pending = result.queued.length > 0
+      ? ` ${result.queued.length} aguardando sincronização.`
+      : '';
+
+    if (result.failed.length === 0) {
+      showToast(
+        result.queued.length === 0
+          ? `${action}: ${total} pedido${total > 1 ? 's' : ''}`
+          : `${action}: ${result.succeeded.length} de ${total} pedidos sincronizados.${pending}`,
+        result.queued.length === 0 ? ToastType.SUCCESS : ToastType.INFO
+      );
+      return;
+    }
+
+    const failures = result.failed
+      .slice(0, 3)
+      .map(({ orderId, error }) => {
+        const order = orders.find((o: Order) => o.id === orderId);
+        return `#${order?.orderNumber || orderId.slice(0, 6)} (${error})`;
+      })
+      .join('; ');
+    const more = result.failed.length > 3 ? ` e mais ${result.failed.length - 3}` : '';
+
+    showToast(
+      `${action}: ${result.succeeded.length} de ${total} pedidos.${pending} Falhas: ${failures}${more}`,
+      result.succeeded.length + result.queued.length > 0 ? ToastType.WARNING : ToastType.ERROR,
+      { duration: UI_CONFIG.UNDO_WINDOW }
+    );
+  }, [orders, showToast]);
+
+  const runBatch = useCallback(async (
+    action: string,
+    operation: (ids: string[]) => Promise<BatchOperationResult>
+  ) => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+
+    setBatchBusy(true);
+    try {
+      const result = await operation(ids);
+      showBatchSummary(result, action);
+      setSelectedIds(new Set(result.failed.map(f => f.orderId)));
+    } catch (error) {
+      showToast(`Erro ao executar ação em lote: ${action}`, ToastType.ERROR);
+    } finally {
+      setBatchBusy(false);
+    }
+  }, [selectedIds, showBatchSummary, showToast]);
+
+  const handleBatchStatus = useCallback((status: OrderStatus) => {
+    runBatch(
+      `Status alterado para ${ORDER_STATUS_CONFIG[status].label}`,
+      ids => batchUpdateStatus(ids, status)
+    );
+  }, [runBatch, batchUpdateStatus]);
+
+  const handleBatchTag = useCallback((tag: string) => {
+    runBatch(
+      `Etiqueta "${tag}" adicionada`,
+      ids => batchUpdateOrders(ids, order => ({
+        tags: Array.from(new Set([...(order.tags || []), tag]))
+      }))
+    );
+  }, [runBatch, batchUpdateOrders]);
+
+  const handleBatchAssign = useCallback((assignee: string) => {
+    runBatch(
+      `Atribuído a ${assignee}`,
+      ids => batchUpdateOrders(ids, () => ({ assignedTo: assignee }))
+    );
+  }, [runBatch, batchUpdateOrders]);
+
+  const handleBatchPrint = useCallback(() => {
+    if (selectedOrders.length === 0) return;
+
+    printMultipleOrders(selectedOrders);
+    setPrintModalState({
+      isOpen: true,
+      order: null,
+      multiple: true,
+      templateId: 'completo'
+    });
+  }, [selectedOrders, printMultipleOrders]);
+
+  const handleRetrySync = useCallback(async (orderId: string) => {
+    showToast('Reenviando alterações do pedido...', ToastType.INFO);
+    try {
+      await retrySync(orderId);
+    } catch (error) {
+      showToast('Erro ao reenviar alterações', ToastType.ERROR);
+    }
+  }, [retrySync, showToast]);
+
+  const activeConflict = useMemo(
+    () => conflicts.find(conflict => conflict.orderId === conflictOrderId) || null,
+    [conflicts, conflictOrderId]
+  );
+
+  const handleResolveConflict = useCallback(async (choice: ConflictChoice) => {
+    if (!conflictOrderId) return;
+
+    try {
+      const resolved = await resolveConflict(conflictOrderId, choice);
+      if (resolved) {
+        showToast('Conflito resolvido', ToastType.SUCCESS);
+      } else {
+        showToast('Este conflito já foi resolvido', ToastType.INFO);
+      }
+      setConflictOrderId(null);
+    } catch (error) {
+      showToast('Erro ao resolver conflito', ToastType.ERROR);
+    }
+  }, [conflictOrderId, resolveConflict, showToast]);
+
   const handleSendWhatsApp = useCallback((phone: string, message: string) => {
     const formattedPhone = phone.replace(/\D/g, '');
     window.open(`https://wa.me/55${formattedPhone}?text=${encodeURIComponent(message)}`, '_blank');
@@ -185,32 +420,20 @@ function App() {
     }
   }, [orders, addOrder, showToast]);
   const handleDeleteOrder = useCallback(async (orderId: string) => {
-    setConfirmModal({
-      isOpen: true,
-      title: 'Confirmar exclusão',
-      message: `Tem certeza que deseja excluir este pedido?`,
-      type: 'danger',
-      onConfirm: async () => {
-        const result = await deleteOrder(orderId);
-        if (result) { // Mudança: result é boolean, não objeto
-          showToast('Pedido excluído com sucesso', ToastType.SUCCESS);
-        } else {
-          showToast('Erro ao excluir pedido', ToastType.ERROR);
-        }
-      }
-    });
-  }, [deleteOrder, showToast]);
+    const result = await deleteOrder(orderId, { undoWindowMs: UI_CONFIG.UNDO_WINDOW });
+    if (result) { // Mudança: result é boolean, não objeto
+      showUndoToast('Pedido excluído', orderId);
+    } else {
+      showToast('Erro ao excluir pedido', ToastType.ERROR);
+    }
+  }, [deleteOrder, showToast, showUndoToast]);
   // Filter logic optimizado com useMemo
   const filteredOrders = useMemo(() => {
     let result = orders;
 
     // Filtro por status
     if (filter !== 'all') {
-      if (filter === OrderStatus.READY) {
-        result = orders.filter(order => simplifyStatus(order.status) === OrderStatus.READY);
-      } else {
-        result = orders.filter(order => simplifyStatus(order.status) === OrderStatus.PENDING);
-      }
+      result = orders.filter(order => order.status === filter);
     }
     
     // Filtro por busca
@@ -226,16 +449,20 @@ function App() {
     return result;
   }, [orders, filter, searchTerm]);
 
-  const columns = [
-    { id: OrderStatus.PENDING, title: 'Pendentes', color: '#f59e0b' },
-    { id: OrderStatus.READY, title: 'Prontos', color: '#10b981' }
-  ];
+  // Busca o pedido atual para que a gaveta acompanhe as atualizações
+  const detailOrder = useMemo(
+    () => (detailOrderId ? orders.find((o: Order) => o.id === detailOrderId) || null : null),
+    [orders, detailOrderId]
+  );
 
-  const displayColumns = filter === 'all' ? columns : columns.filter(col => col.id === filter);
+  // Com filtro ativo mostra a coluna escolhida mesmo que esteja oculta
+  const displayColumns = filter === 'all'
+    ? visibleColumns
+    : columns.filter(col => col.id === filter).map(col => ({ ...col, collapsed: false }));
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900">
-      <ToastContainer toasts={toasts} />
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
       
       {/* Header simplificado */}
       <header className="bg-white dark:bg-gray-800 shadow-sm border-b dark:border-gray-700 sticky top-0 z-40">
@@ -311,7 +538,7 @@ function App() {
       {/* Filter Bar simplificada */}
       <div className="px-4 py-3 bg-gray-50 dark:bg-gray-800/50 border-b dark:border-gray-700">
         <div className="flex flex-col md:flex-row md:items-center gap-3">          <div className="flex items-center gap-2 overflow-x-auto">
-            {[{ id: 'all', title: 'Todos' }, ...columns].map((item) => (
+            {[{ id: 'all', title: 'Todos' }, ...visibleColumns].map((item) => (
               <button
                 key={item.id}
                 onClick={() => setFilter(item.id)}
@@ -324,6 +551,12 @@ function App() {
                 {item.title}
               </button>
             ))}
+            <BoardColumnsMenu
+              columns={columns}
+              onToggleHidden={toggleHidden}
+              onToggleCollapse={toggleCollapsed}
+              onReset={resetColumns}
+            />
           </div>
           
           <div className="md:ml-auto">
@@ -351,6 +584,37 @@ function App() {
         </div>
       )}
       
+      {wakeUp.isWaking && (
+        <div className="m-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg text-blue-700 dark:text-blue-300" role="status">
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="font-medium">Servidor acordando…</span> O servidor estava em repouso e pode levar até {wakeUp.deadlineSeconds}s para responder.
+            </div>
+            <span className="text-sm tabular-nums">{wakeUp.elapsedSeconds}s</span>
+          </div>
+          <div className="mt-2 h-1.5 bg-blue-100 dark:bg-blue-900/40 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-500 transition-all duration-1000"
+              style={{ width: `${Math.min(100, (wakeUp.elapsedSeconds / wakeUp.deadlineSeconds) * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {retention.quota?.warning && (
+        <div className="m-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-yellow-700 dark:text-yellow-300 flex items-center justify-between" role="alert">
+          <div>
+            <span className="font-medium">Armazenamento quase cheio:</span> os dados locais ocupam {retention.quota.percent}% do espaço disponível.
+          </div>
+          <button
+            onClick={() => storageRetention.run().catch(error => console.error('❌ Erro na retenção de pedidos:', error))}
+            className="px-3 py-1 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg text-sm"
+          >
+            Arquivar antigos
+          </button>
+        </div>
+      )}
+
       {isDemoMode && (
         <div className="m-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-yellow-700 dark:text-yellow-300 flex items-center justify-between">
           <div>
@@ -389,11 +653,30 @@ function App() {
           onPhoneCall={handlePhoneCall}
           onDuplicateOrder={handleDuplicateOrder}
           onDeleteOrder={handleDeleteOrder}
+          onShowDetails={setDetailOrderId}
           showToast={showToast}
           loading={loading}
+          onToggleCollapse={toggleCollapsed}
+          onHideColumn={toggleHidden}
+          onMoveColumn={moveColumn}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          syncStates={syncStates}
+          onRetrySync={handleRetrySync}
+          onResolveConflict={setConflictOrderId}
         />
       </div>
 
+      <BatchActionBar
+        selectedCount={selectedIds.size}
+        busy={batchBusy}
+        onChangeStatus={handleBatchStatus}
+        onPrint={handleBatchPrint}
+        onAddTag={handleBatchTag}
+        onAssign={handleBatchAssign}
+        onClearSelection={() => setSelectedIds(new Set())}
+      />
+
       {/* Modals */}
       {editingOrder && (
         <EditPriceModal
@@ -405,23 +688,34 @@ function App() {
         />
       )}
 
-      <ConfirmationModal
-        {...confirmModal}
-        onClose={() => setConfirmModal(prev => ({ ...prev, isOpen: false }))}
-      />
-
       {showHelp && (
         <HelpModal onClose={() => setShowHelp(false)} />
       )}
       
-      {printModalState.isOpen && printModalState.order && (
+      {printModalState.isOpen && (printModalState.order || printModalState.multiple) && (
         <PrintPreviewModal
           order={printModalState.order}
+          multipleOrders={printModalState.multiple ? printableOrders : undefined}
           isOpen={printModalState.isOpen}
           templateId={printModalState.templateId}
           onClose={() => setPrintModalState(prev => ({ ...prev, isOpen: false }))}
         />
       )}
+
+      {activeConflict && (
+        <ConflictResolutionModal
+          conflict={activeConflict}
+          onResolve={handleResolveConflict}
+          onClose={() => setConflictOrderId(null)}
+        />
+      )}
+
+      {detailOrder && (
+        <OrderDetailDrawer
+          order={detailOrder}
+          onClose={() => setDetailOrderId(null)}
+        />
+      )}
     </div>
   );
 }
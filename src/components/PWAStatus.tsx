@@ -2,6 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { useServiceWorker, useServiceWorkerEvents } from '../hooks/useServiceWorker';
 import { useOfflineSync } from '../hooks/useOfflineSync';
 import { cacheUtils } from '../hooks/useSmartCache';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import ConnectionDiagnosticsModal from './modals/ConnectionDiagnosticsModal';
+import DataHealthModal from './modals/DataHealthModal';
+import BackupModal from './modals/BackupModal';
+import QuarantineModal from './modals/QuarantineModal';
+import { useQuarantine } from '../hooks/useQuarantine';
+import VariationCatalogModal from './modals/VariationCatalogModal';
+import { useVariationCatalog } from '../hooks/useVariationCatalog';
+
+const TRANSPORT_LABELS = {
+  websocket: 'WebSocket',
+  sse: 'SSE',
+  polling: 'Polling'
+};
 
 interface PWAStatusProps {
   className?: string;
@@ -15,6 +29,8 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
   const serviceWorker = useServiceWorker();
   const offlineSync = useOfflineSync();
   const swEvents = useServiceWorkerEvents();
+  const connection = useConnectionStatus();
+  const transport = connection.transport || 'polling';
   
   const [cacheStats, setCacheStats] = useState({
     cacheEntries: 0,
@@ -23,6 +39,13 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
   });
   
   const [showDetailsPanel, setShowDetailsPanel] = useState(showDetails);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [showDataHealth, setShowDataHealth] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  const { entries: quarantined } = useQuarantine();
+  const [showCatalog, setShowCatalog] = useState(false);
+  const { unresolved } = useVariationCatalog();
   useEffect(() => {
     loadCacheStats();
     // INTERVAL DESABILITADO - stats atualizadas apenas sob demanda
@@ -98,7 +121,7 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
 
   const connectionStatus = getConnectionStatus();
 
-  const formatDate = (date?: Date) => {
+  const formatDate = (date?: Date | null) => {
     if (!date) return 'Nunca';
     return date.toLocaleTimeString();
   };
@@ -142,6 +165,15 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
         
         <span>{connectionStatus.text}</span>
         
+        {connectionStatus.status === 'online' && (
+          <span
+            title={connection.lastEventAt ? `Último evento: ${formatDate(connection.lastEventAt)}` : undefined}
+            style={{ fontSize: '11px', color: '#6c757d' }}
+          >
+            · {TRANSPORT_LABELS[transport]}
+          </span>
+        )}
+        
         {/* Badges de status */}
         {serviceWorker.status.hasUpdate && (
           <span 
@@ -228,6 +260,10 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px' }}>
               <span>Status:</span>
               <span>{connectionStatus.text}</span>
+              <span>Transporte:</span>
+              <span>{TRANSPORT_LABELS[transport]}</span>
+              <span>Último evento:</span>
+              <span>{formatDate(connection.lastEventAt)}</span>
               <span>Última API fresh:</span>
               <span>{formatDate(swEvents.lastApiRefresh)}</span>
               <span>Último cache usado:</span>
@@ -245,6 +281,8 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
             <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px' }}>
               <span>Pendentes:</span>
               <span>{offlineSync.status.pendingSync}</span>
+              <span>Com falha:</span>
+              <span>{offlineSync.status.failedSync}</span>
               <span>Última tentativa:</span>
               <span>{formatDate(offlineSync.status.lastSyncAttempt)}</span>
               <span>Último sucesso:</span>
@@ -319,6 +357,81 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
               Limpar Cache
             </button>
             
+            <button
+              onClick={() => setShowDiagnostics(true)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: '#17a2b8',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Diagnóstico
+            </button>
+            
+            <button
+              onClick={() => setShowDataHealth(true)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: '#6610f2',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Saúde dos Dados
+            </button>
+            
+            <button
+              onClick={() => setShowBackup(true)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: '#fd7e14',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Backup
+            </button>
+            
+            <button
+              onClick={() => setShowQuarantine(true)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: quarantined.length > 0 ? '#dc3545' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Quarentena ({quarantined.length})
+            </button>
+            
+            <button
+              onClick={() => setShowCatalog(true)}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: unresolved.length > 0 ? '#fd7e14' : '#6c757d',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Catálogo{unresolved.length > 0 ? ` (${unresolved.length} sem nome)` : ''}
+            </button>
+            
             {offlineSync.status.pendingSync > 0 && (
               <button
                 onClick={handleForcSync}
@@ -339,6 +452,26 @@ export const PWAStatus: React.FC<PWAStatusProps> = ({
           </div>
         </div>
       )}
+
+      {showDiagnostics && (
+        <ConnectionDiagnosticsModal onClose={() => setShowDiagnostics(false)} />
+      )}
+
+      {showDataHealth && (
+        <DataHealthModal onClose={() => setShowDataHealth(false)} />
+      )}
+
+      {showBackup && (
+        <BackupModal onClose={() => setShowBackup(false)} />
+      )}
+
+      {showQuarantine && (
+        <QuarantineModal onClose={() => setShowQuarantine(false)} />
+      )}
+
+      {showCatalog && (
+        <VariationCatalogModal onClose={() => setShowCatalog(false)} />
+      )}
     </div>
   );
 };
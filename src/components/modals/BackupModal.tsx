@@ -0,0 +1,361 @@
+/**
+ * @fileoverview Exportar e restaurar backup dos dados locais; no aplicativo
+ * desktop, também o backup automático agendado
+ * @module components/modals/BackupModal
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, HardDrive, Download, Upload, FolderOpen } from 'lucide-react';
+import {
+  BackupFile,
+  RestoreMode,
+  RestorePreview,
+  createBackup,
+  downloadBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup
+} from '../../services/persistence/backup';
+import { autoBackup, AutoBackupConfig } from '../../services/persistence/autoBackup';
+import { formatDateTime } from '../../utils/formatters';
+
+// ==================== INTERFACES ====================
+interface BackupModalProps {
+  onClose: () => void;
+}
+
+// ==================== HELPERS ====================
+const INTERVAL_OPTIONS = [
+  { hours: 1, label: 'A cada hora' },
+  { hours: 6, label: 'A cada 6 horas' },
+  { hours: 12, label: 'A cada 12 horas' },
+  { hours: 24, label: 'Diário' },
+  { hours: 24 * 7, label: 'Semanal' }
+];
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: 'Mesclar com os dados atuais',
+  replace: 'Substituir tudo pelo backup'
+};
+
+// ==================== COMPONENT ====================
+const BackupModal: React.FC<BackupModalProps> = ({ onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restored, setRestored] = useState(false);
+
+  const [autoConfig, setAutoConfig] = useState<AutoBackupConfig>(() => autoBackup.getConfig());
+  const [autoMessage, setAutoMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    return autoBackup.subscribe(() => setAutoConfig(autoBackup.getConfig()));
+  }, []);
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  // Recalcula a prévia ao trocar o arquivo ou o modo
+  useEffect(() => {
+    if (!backup) return;
+    let cancelled = false;
+
+    previewRestore(backup, mode)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backup, mode]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadBackup(await createBackup());
+    } catch (err) {
+      console.error('Erro ao exportar backup:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setPreview(null);
+    setError(null);
+    setRestored(false);
+    setFileName(file.name);
+
+    try {
+      setBackup(await parseBackup(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Substituir todos os pedidos, a fila e as preferências pelos dados do backup?')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    try {
+      setPreview(await restoreBackup(backup, mode));
+      setRestored(true);
+    } catch (err) {
+      console.error('Erro ao restaurar backup:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    setAutoMessage(null);
+    try {
+      await autoBackup.chooseFolder();
+    } catch (err) {
+      setAutoMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRunAutoNow = async () => {
+    setAutoMessage(null);
+    try {
+      setAutoMessage(`Backup salvo em ${await autoBackup.runNow()}`);
+    } catch (err) {
+      setAutoMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <div
+        className="relative w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label="Backup dos dados"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <HardDrive className="w-5 h-5 text-orange-500" />
+            <h2 className="font-bold text-lg dark:text-white">Backup dos dados</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 text-sm dark:text-white">
+          {/* Exportar */}
+          <section>
+            <h3 className="font-semibold mb-1">Exportar backup</h3>
+            <p className="text-gray-600 dark:text-gray-300 mb-3">
+              Pedidos com histórico de preços, fila de sincronização e preferências num arquivo JSON com checksum.
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Gerando...' : 'Exportar backup'}
+            </button>
+          </section>
+
+          {/* Restaurar */}
+          <section>
+            <h3 className="font-semibold mb-1">Restaurar backup</h3>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <Upload className="w-4 h-4" />
+              Escolher arquivo
+            </button>
+            {fileName && <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{fileName}</p>}
+
+            {error && (
+              <p className="mt-3 px-3 py-2 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300">{error}</p>
+            )}
+
+            {backup && (
+              <div className="mt-4 space-y-3">
+                <p className="text-gray-600 dark:text-gray-300">
+                  Backup de {formatDateTime(new Date(backup.createdAt))} · {backup.payload.orders.length} pedido(s) ·
+                  {' '}{backup.payload.syncQueue.length} na fila · checksum {backup.checksum.algorithm} conferido
+                </p>
+
+                <div className="flex flex-col gap-1">
+                  {(Object.keys(MODE_LABELS) as RestoreMode[]).map(option => (
+                    <label key={option} className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="restore-mode"
+                        checked={mode === option}
+                        onChange={() => setMode(option)}
+                        disabled={isRestoring || restored}
+                      />
+                      {MODE_LABELS[option]}
+                    </label>
+                  ))}
+                </div>
+
+                {preview && (
+                  <ul className="space-y-1 rounded-lg bg-gray-50 dark:bg-gray-700/50 px-3 py-2">
+                    <li>{preview.orders.added} pedido(s) novo(s)</li>
+                    <li>{preview.orders.updated} pedido(s) atualizado(s), {preview.orders.unchanged} sem mudança</li>
+                    {preview.mode === 'replace' && (
+                      <li className={preview.orders.removed > 0 ? 'text-red-600 dark:text-red-400' : ''}>
+                        {preview.orders.removed} pedido(s) local(is) removido(s)
+                      </li>
+                    )}
+                    <li>
+                      Fila: {preview.syncQueue.added} entrada(s) adicionada(s)
+                      {preview.mode === 'replace' && `, ${preview.syncQueue.removed} removida(s)`}
+                    </li>
+                    <li>
+                      Preferências: {preview.settings.changed.length + preview.settings.removed.length === 0
+                        ? 'sem mudança'
+                        : [...preview.settings.changed, ...preview.settings.removed].join(', ')}
+                    </li>
+                  </ul>
+                )}
+
+                {restored ? (
+                  <div className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-green-50 dark:bg-green-900/30 text-green-800 dark:text-green-300">
+                    <span>Backup restaurado. Recarregue para ver os dados.</span>
+                    <button
+                      onClick={() => window.location.reload()}
+                      className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 text-white text-xs"
+                    >
+                      Recarregar
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleRestore}
+                    disabled={!preview || isRestoring}
+                    className={`px-4 py-2 rounded-lg text-white disabled:opacity-50 ${
+                      mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-orange-500 hover:bg-orange-600'
+                    }`}
+                  >
+                    {isRestoring ? 'Restaurando...' : 'Restaurar backup'}
+                  </button>
+                )}
+              </div>
+            )}
+          </section>
+
+          {/* Backup automático (Electron) */}
+          {autoBackup.isAvailable() && (
+            <section>
+              <h3 className="font-semibold mb-2">Backup automático</h3>
+              <div className="space-y-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={autoConfig.enabled}
+                    onChange={e => autoBackup.update({ enabled: e.target.checked })}
+                    disabled={!autoConfig.folder}
+                  />
+                  Salvar backups automaticamente
+                </label>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleChooseFolder}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg border dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Escolher pasta
+                  </button>
+                  <span className="font-mono text-xs break-all text-gray-600 dark:text-gray-300">
+                    {autoConfig.folder || 'Nenhuma pasta escolhida'}
+                  </span>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <select
+                    value={autoConfig.intervalHours}
+                    onChange={e => autoBackup.update({ intervalHours: Number(e.target.value) })}
+                    className="px-2 py-1 rounded-lg border dark:border-gray-600 dark:bg-gray-700"
+                  >
+                    {INTERVAL_OPTIONS.map(option => (
+                      <option key={option.hours} value={option.hours}>{option.label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2">
+                    Manter
+                    <input
+                      type="number"
+                      min={1}
+                      max={365}
+                      value={autoConfig.keep}
+                      onChange={e => autoBackup.update({ keep: Math.max(1, Number(e.target.value) || 1) })}
+                      className="w-16 px-2 py-1 rounded-lg border dark:border-gray-600 dark:bg-gray-700"
+                    />
+                    arquivos
+                  </label>
+                  <button
+                    onClick={handleRunAutoNow}
+                    disabled={!autoConfig.folder}
+                    className="text-orange-600 dark:text-orange-400 hover:underline disabled:opacity-50"
+                  >
+                    Fazer agora
+                  </button>
+                </div>
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Último backup: {autoConfig.lastRunAt ? formatDateTime(new Date(autoConfig.lastRunAt)) : 'nunca'}
+                  {autoConfig.lastError && (
+                    <span className="block text-red-600 dark:text-red-400">{autoConfig.lastError}</span>
+                  )}
+                </p>
+                {autoMessage && <p className="text-xs text-gray-600 dark:text-gray-300 break-all">{autoMessage}</p>}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
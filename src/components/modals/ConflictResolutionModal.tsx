@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Modal para resolver conflito entre a versão local e a do servidor
+ * @module components/modals/ConflictResolutionModal
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { Order, ORDER_STATUS_CONFIG } from '../../types';
+import { OrderConflict } from '../../services/persistence/localEdits';
+import { formatCurrency, formatDateTime } from '../../utils/formatters';
+import { formatQuantity, formatUnitPrice, isWeighed } from '../../utils/itemUnits';
+import {
+  ConflictChoice,
+  ConflictField,
+  CONFLICT_FIELDS,
+  CONFLICT_FIELD_LABELS,
+  mergeConflictingOrders
+} from '../../utils/orderConflicts';
+
+// ==================== INTERFACES ====================
+interface ConflictResolutionModalProps {
+  conflict: OrderConflict;
+  onResolve: (choice: ConflictChoice) => Promise<void> | void;
+  onClose: () => void;
+}
+
+type Side = 'local' | 'server';
+
+// ==================== HELPERS ====================
+const ALL_LOCAL: ConflictChoice = { status: 'local', items: 'local', prices: 'local' };
+const ALL_SERVER: ConflictChoice = { status: 'server', items: 'server', prices: 'server' };
+
+const FieldValue: React.FC<{ field: ConflictField; order: Order }> = ({ field, order }) => {
+  if (field === 'status') {
+    return <span>{ORDER_STATUS_CONFIG[order.status]?.label || order.status}</span>;
+  }
+
+  if (field === 'items') {
+    return (
+      <ul className="space-y-0.5">
+        {order.items.map(item => (
+          <li key={item.id || item.name}>
+            {isWeighed(item) ? formatQuantity(item.quantity, item.unit) : `${item.quantity}×`} {item.name}
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {order.items.map(item => (
+        <li key={item.id || item.name}>
+          {item.name}: {formatUnitPrice(item)}
+        </li>
+      ))}
+      <li className="font-semibold pt-1">Total: {formatCurrency(order.total)}</li>
+    </ul>
+  );
+};
+
+// ==================== COMPONENT ====================
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
+  conflict,
+  onResolve,
+  onClose
+}) => {
+  // Por padrão, manter a versão local apenas nos campos em conflito
+  const [choice, setChoice] = useState<ConflictChoice>(() => ({
+    ...ALL_SERVER,
+    ...Object.fromEntries(conflict.fields.map(field => [field, 'local']))
+  }));
+  const [isResolving, setIsResolving] = useState(false);
+
+  const preview = useMemo(
+    () => mergeConflictingOrders(conflict.local, conflict.server, choice),
+    [conflict, choice]
+  );
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isResolving) onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose, isResolving]);
+
+  const resolveWith = async (selected: ConflictChoice) => {
+    setIsResolving(true);
+    try {
+      await onResolve(selected);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const setField = (field: ConflictField, side: Side) => {
+    setChoice(prev => ({ ...prev, [field]: side }));
+  };
+
+  const sideClasses = (field: ConflictField, side: Side) => `
+    p-3 rounded-lg border-2 text-sm text-left transition-colors dark:text-white
+    ${choice[field] === side
+      ? 'border-orange-500 bg-orange-50 dark:bg-orange-900/20'
+      : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'}
+  `;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={() => !isResolving && onClose()} />
+
+      <div
+        className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label={`Conflito no pedido ${conflict.orderId}`}
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-start justify-between">
+          <div className="flex items-start gap-3">
+            <div className="p-2 rounded-full bg-yellow-100 dark:bg-yellow-900/30">
+              <AlertTriangle className="w-5 h-5 text-yellow-600 dark:text-yellow-400" />
+            </div>
+            <div>
+              <h2 className="font-bold text-lg dark:text-white">
+                Conflito no pedido #{conflict.server.orderNumber || conflict.orderId}
+              </h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                O pedido foi alterado no servidor enquanto havia uma alteração deste painel
+                ainda não enviada. Escolha o que manter em cada campo.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isResolving}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {/* Cabeçalho das colunas */}
+          <div className="grid grid-cols-[100px_1fr_1fr] gap-3 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+            <span />
+            <span>Este painel · {formatDateTime(conflict.local.updatedAt)}</span>
+            <span>Servidor · {formatDateTime(conflict.server.serverUpdatedAt || conflict.server.updatedAt)}</span>
+          </div>
+
+          {CONFLICT_FIELDS.map(field => {
+            const diverged = conflict.fields.includes(field);
+
+            return (
+              <div key={field} className="grid grid-cols-[100px_1fr_1fr] gap-3 items-start">
+                <span className="text-sm font-medium dark:text-white pt-3">
+                  {CONFLICT_FIELD_LABELS[field]}
+                  {diverged && (
+                    <span className="block text-xs text-yellow-600 dark:text-yellow-400">diferente</span>
+                  )}
+                </span>
+                <button
+                  onClick={() => setField(field, 'local')}
+                  className={sideClasses(field, 'local')}
+                  aria-pressed={choice[field] === 'local'}
+                >
+                  <FieldValue field={field} order={conflict.local} />
+                </button>
+                <button
+                  onClick={() => setField(field, 'server')}
+                  className={sideClasses(field, 'server')}
+                  aria-pressed={choice[field] === 'server'}
+                >
+                  <FieldValue field={field} order={conflict.server} />
+                </button>
+              </div>
+            );
+          })}
+
+          {/* Resultado da mesclagem */}
+          <div className="rounded-lg bg-gray-50 dark:bg-gray-900/40 p-3 text-sm dark:text-white flex items-center justify-between">
+            <span>
+              Resultado: {ORDER_STATUS_CONFIG[preview.status]?.label || preview.status} ·{' '}
+              {preview.items.length} {preview.items.length === 1 ? 'item' : 'itens'}
+            </span>
+            <span className="font-bold">{formatCurrency(preview.total)}</span>
+          </div>
+        </div>
+
+        {/* Ações */}
+        <div className="sticky bottom-0 bg-white dark:bg-gray-800 border-t dark:border-gray-700 px-5 py-4 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={() => resolveWith(ALL_SERVER)}
+            disabled={isResolving}
+            className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Usar versão do servidor
+          </button>
+          <button
+            onClick={() => resolveWith(ALL_LOCAL)}
+            disabled={isResolving}
+            className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            Manter versão local
+          </button>
+          <button
+            onClick={() => resolveWith(choice)}
+            disabled={isResolving}
+            className="px-4 py-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white text-sm font-medium disabled:opacity-50"
+          >
+            {isResolving ? 'Aplicando...' : 'Aplicar seleção'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolutionModal;
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Diagnóstico de conexão: circuit breakers, famílias de endpoint
+ * e histórico de partidas a frio do servidor
+ * @module components/modals/ConnectionDiagnosticsModal
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Activity, RotateCcw } from 'lucide-react';
+import { resilience, ResilienceSnapshot, BreakerState } from '../../services/api/client/resilience';
+import { backendWakeUp } from '../../services/api/client/wakeUp';
+import { formatDateTime } from '../../utils/formatters';
+
+// ==================== INTERFACES ====================
+interface ConnectionDiagnosticsModalProps {
+  onClose: () => void;
+}
+
+// ==================== HELPERS ====================
+const STATE_LABELS: Record<BreakerState, string> = {
+  closed: 'Fechado',
+  open: 'Aberto',
+  'half-open': 'Meio-aberto'
+};
+
+const STATE_CLASSES: Record<BreakerState, string> = {
+  closed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  open: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'half-open': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+};
+
+const formatTimestamp = (timestamp: number | null) =>
+  timestamp ? formatDateTime(new Date(timestamp)) : '—';
+
+// ==================== COMPONENT ====================
+const ConnectionDiagnosticsModal: React.FC<ConnectionDiagnosticsModalProps> = ({ onClose }) => {
+  const [snapshot, setSnapshot] = useState<ResilienceSnapshot>(() => resilience.getSnapshot());
+
+  useEffect(() => {
+    return resilience.subscribe(() => setSnapshot(resilience.getSnapshot()));
+  }, []);
+
+  // Atualiza a contagem regressiva dos circuitos abertos
+  useEffect(() => {
+    const timer = setInterval(() => setSnapshot(resilience.getSnapshot()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  const families = Object.entries(snapshot.families);
+  const coldStarts = backendWakeUp.getHistory();
+  const awakened = coldStarts.filter(record => record.outcome === 'awake');
+  const averageSeconds = awakened.length > 0
+    ? Math.round(awakened.reduce((sum, record) => sum + record.durationMs, 0) / awakened.length / 1000)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <div
+        className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label="Diagnóstico de conexão"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Activity className="w-5 h-5 text-orange-500" />
+            <h2 className="font-bold text-lg dark:text-white">Diagnóstico de conexão</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 text-sm dark:text-white">
+          {/* Circuit breakers */}
+          <section>
+            <h3 className="font-semibold mb-2">Circuitos por endpoint</h3>
+            {snapshot.breakers.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Nenhuma requisição registrada ainda.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="py-1 pr-3">Endpoint</th>
+                      <th className="py-1 pr-3">Estado</th>
+                      <th className="py-1 pr-3">Falhas seguidas</th>
+                      <th className="py-1 pr-3">Sucessos / falhas</th>
+                      <th className="py-1 pr-3">Último sucesso</th>
+                      <th className="py-1" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {snapshot.breakers.map(breaker => (
+                      <tr key={breaker.endpoint} className="border-t dark:border-gray-700 align-top">
+                        <td className="py-2 pr-3 font-mono text-xs break-all">
+                          {breaker.endpoint}
+                          {breaker.lastError && (
+                            <span className="block text-red-600 dark:text-red-400 font-sans">{breaker.lastError}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATE_CLASSES[breaker.state]}`}>
+                            {STATE_LABELS[breaker.state]}
+                          </span>
+                          {breaker.state === 'open' && breaker.nextAttemptAt && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              teste em {Math.max(0, Math.ceil((breaker.nextAttemptAt - Date.now()) / 1000))}s
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-3">{breaker.consecutiveFailures}</td>
+                        <td className="py-2 pr-3">{breaker.totalSuccesses} / {breaker.totalFailures}</td>
+                        <td className="py-2 pr-3 text-xs">{formatTimestamp(breaker.lastSuccessAt)}</td>
+                        <td className="py-2">
+                          {breaker.state !== 'closed' && (
+                            <button
+                              onClick={() => resilience.reset(breaker.endpoint)}
+                              className="text-xs text-orange-600 dark:text-orange-400 hover:underline"
+                            >
+                              Fechar
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          {/* Famílias de endpoint */}
+          <section>
+            <h3 className="font-semibold mb-2">Endpoint preferido por operação</h3>
+            {families.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Usando o endpoint RESTful em todas as operações.</p>
+            ) : (
+              <ul className="space-y-1">
+                {families.map(([operation, family]) => (
+                  <li key={operation} className="flex justify-between">
+                    <span className="font-mono text-xs">{operation}</span>
+                    <span>{family === 'rest' ? 'RESTful' : 'Legado'}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Partidas a frio */}
+          <section>
+            <h3 className="font-semibold mb-2">Partidas a frio do servidor</h3>
+            {coldStarts.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Nenhuma partida a frio registrada.</p>
+            ) : (
+              <>
+                <p className="mb-2 text-gray-600 dark:text-gray-300">
+                  {coldStarts.length} registro(s), {coldStarts.length - awakened.length} sem resposta no prazo
+                  {awakened.length > 0 && ` · média de ${averageSeconds}s para acordar`}
+                </p>
+                <ul className="space-y-1">
+                  {coldStarts.slice(0, 10).map(record => (
+                    <li key={record.startedAt} className="flex justify-between">
+                      <span className="text-xs">{formatDateTime(new Date(record.startedAt))}</span>
+                      <span className={record.outcome === 'timeout' ? 'text-red-600 dark:text-red-400' : ''}>
+                        {Math.round(record.durationMs / 1000)}s · {record.attempts} ping(s)
+                        {record.outcome === 'timeout' && ' · sem resposta'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+        </div>
+
+        {/* Ações */}
+        <div className="sticky bottom-0 bg-white dark:bg-gray-800 border-t dark:border-gray-700 px-5 py-4 flex justify-end">
+          <button
+            onClick={() => resilience.reset()}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border dark:border-gray-600 text-sm dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reiniciar tudo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionDiagnosticsModal;
@@ -0,0 +1,408 @@
+/**
+ * @fileoverview Saúde dos dados: log de sincronização, armazenamento, fila
+ * offline e histórico de conexão, com exportação do pacote de diagnóstico
+ * @module components/modals/DataHealthModal
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { X, Database, Download, RefreshCw } from 'lucide-react';
+import { collectDiagnostics, downloadDiagnostics, DiagnosticsBundle } from '../../services/persistence/diagnostics';
+import { storageRetention, RetentionPolicy } from '../../services/persistence/retention';
+import { useStorageRetention } from '../../hooks/useStorageRetention';
+import { SyncLogAction, SyncLogEntry, SyncLogOutcome } from '../../services/cache/ordersStorage';
+import { formatDateTime } from '../../utils/formatters';
+
+// ==================== INTERFACES ====================
+interface DataHealthModalProps {
+  onClose: () => void;
+}
+
+// ==================== HELPERS ====================
+const ACTION_LABELS: Record<SyncLogAction, string> = {
+  create: 'Criação',
+  update: 'Atualização',
+  replace: 'Substituição',
+  delete: 'Remoção',
+  replay: 'Reenvio',
+  archive: 'Arquivamento'
+};
+
+const OUTCOME_LABELS: Record<SyncLogOutcome, string> = {
+  success: 'Sucesso',
+  failure: 'Falha',
+  conflict: 'Conflito'
+};
+
+const OUTCOME_CLASSES: Record<SyncLogOutcome, string> = {
+  success: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  failure: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  conflict: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+};
+
+const MAX_LOG_ROWS = 200;
+
+const formatBytes = (bytes: number | null) => {
+  if (bytes === null) return '—';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const describeLogData = (entry: SyncLogEntry): string => {
+  const data = entry.data || {};
+  if (data.error) return data.error;
+  if (data.source === 'backup') return `restauração de backup (${data.mode === 'replace' ? 'substituir' : 'mesclar'})`;
+  if (entry.action === 'replace') return `${data.count} pedidos`;
+  if (entry.action === 'archive') return `${data.count} pedidos (${data.age} por idade, ${data.limit} por limite)`;
+
+  return [data.operation, data.status, data.via === 'service-worker' ? 'via service worker' : null, data.attempt && `tentativa ${data.attempt}`]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+// ==================== COMPONENT ====================
+const DataHealthModal: React.FC<DataHealthModalProps> = ({ onClose }) => {
+  const [bundle, setBundle] = useState<DiagnosticsBundle | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const [orderFilter, setOrderFilter] = useState('');
+  const [actionFilter, setActionFilter] = useState<SyncLogAction | 'all'>('all');
+  const [outcomeFilter, setOutcomeFilter] = useState<SyncLogOutcome | 'all'>('all');
+
+  const retention = useStorageRetention();
+  const [isApplyingRetention, setIsApplyingRetention] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setBundle(await collectDiagnostics());
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  // Exporta sempre dados frescos, não o que está na tela
+  const handleExport = async () => {
+    const fresh = await collectDiagnostics();
+    setBundle(fresh);
+    downloadDiagnostics(fresh);
+  };
+
+  const handleApplyRetention = async () => {
+    setIsApplyingRetention(true);
+    try {
+      await storageRetention.run();
+      await refresh();
+    } catch (error) {
+      console.error('Erro ao aplicar retenção:', error);
+    } finally {
+      setIsApplyingRetention(false);
+    }
+  };
+
+  // Campo vazio desativa a regra
+  const updateRule = (field: 'maxAgeDays' | 'keepCompleted', value: string) => {
+    const parsed = parseInt(value, 10);
+    storageRetention.updatePolicy({ [field]: value === '' || isNaN(parsed) ? null : Math.max(1, parsed) } as Partial<RetentionPolicy>);
+  };
+
+  const filteredLog = useMemo(() => {
+    if (!bundle) return [];
+    const orderQuery = orderFilter.trim().toLowerCase();
+
+    return bundle.syncLog.filter(entry =>
+      (!orderQuery || entry.orderId.toLowerCase().includes(orderQuery)) &&
+      (actionFilter === 'all' || entry.action === actionFilter) &&
+      (outcomeFilter === 'all' || (entry.outcome || 'success') === outcomeFilter)
+    );
+  }, [bundle, orderFilter, actionFilter, outcomeFilter]);
+
+  const healthChecks = bundle?.connection.healthChecks || [];
+  const averageLatency = healthChecks.length > 0
+    ? Math.round(healthChecks.reduce((sum, check) => sum + check.latencyMs, 0) / healthChecks.length)
+    : null;
+
+  const summary = bundle ? [
+    { label: 'Pedidos salvos', value: bundle.storage.stats?.totalOrders ?? '—' },
+    { label: 'Fila pendente', value: bundle.syncQueue.pending },
+    { label: 'Fila com falha', value: bundle.syncQueue.failed },
+    { label: 'Conflitos', value: bundle.conflicts },
+    { label: 'Espaço usado', value: `${formatBytes(bundle.storage.usage)} / ${formatBytes(bundle.storage.quota)}` }
+  ] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <div
+        className="relative w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label="Saúde dos dados"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Database className="w-5 h-5 text-orange-500" />
+            <h2 className="font-bold text-lg dark:text-white">Saúde dos dados</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={refresh}
+              disabled={isLoading}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400 disabled:opacity-50"
+              aria-label="Atualizar"
+            >
+              <RefreshCw className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+              aria-label="Fechar"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {!bundle ? (
+          <p className="p-5 text-sm text-gray-500 dark:text-gray-400">Carregando...</p>
+        ) : (
+          <div className="p-5 space-y-6 text-sm dark:text-white">
+            {/* Resumo */}
+            <section className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {summary.map(item => (
+                <div key={item.label} className="rounded-lg border dark:border-gray-700 p-3">
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{item.label}</div>
+                  <div className="font-semibold mt-1">{item.value}</div>
+                </div>
+              ))}
+            </section>
+
+            {/* Retenção */}
+            <section>
+              <h3 className="font-semibold mb-2">Retenção de pedidos</h3>
+              {retention.quota?.warning && (
+                <p className="mb-3 px-3 py-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-300">
+                  Armazenamento em {retention.quota.percent}% da cota. Aplique a retenção ou exporte um backup e reduza os limites.
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-4 mb-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={retention.policy.enabled}
+                    onChange={e => storageRetention.updatePolicy({ enabled: e.target.checked })}
+                  />
+                  Arquivar automaticamente
+                </label>
+                <label className="flex items-center gap-2">
+                  Manter
+                  <input
+                    type="number"
+                    min={1}
+                    value={retention.policy.maxAgeDays ?? ''}
+                    onChange={e => updateRule('maxAgeDays', e.target.value)}
+                    className="w-20 px-2 py-1 rounded-lg border dark:border-gray-600 dark:bg-gray-700"
+                  />
+                  dias
+                </label>
+                <label className="flex items-center gap-2">
+                  Últimos
+                  <input
+                    type="number"
+                    min={1}
+                    value={retention.policy.keepCompleted ?? ''}
+                    onChange={e => updateRule('keepCompleted', e.target.value)}
+                    className="w-20 px-2 py-1 rounded-lg border dark:border-gray-600 dark:bg-gray-700"
+                  />
+                  finalizados
+                </label>
+                <label className="flex items-center gap-2">
+                  Avisar em
+                  <input
+                    type="number"
+                    min={10}
+                    max={99}
+                    value={retention.policy.warnAtPercent}
+                    onChange={e => storageRetention.updatePolicy({
+                      warnAtPercent: Math.min(99, Math.max(10, parseInt(e.target.value, 10) || 80))
+                    })}
+                    className="w-16 px-2 py-1 rounded-lg border dark:border-gray-600 dark:bg-gray-700"
+                  />
+                  % da cota
+                </label>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-gray-600 dark:text-gray-300">
+                  {bundle.storage.archivedOrders} pedido(s) arquivado(s)
+                  {retention.lastReport && (
+                    <>
+                      {' · '}última execução em {formatDateTime(new Date(retention.lastReport.ranAt))}:
+                      {' '}{retention.lastReport.archived} arquivado(s)
+                      {retention.lastReport.protectedCount > 0 && `, ${retention.lastReport.protectedCount} mantido(s) por edição pendente`}
+                    </>
+                  )}
+                </p>
+                <button
+                  onClick={handleApplyRetention}
+                  disabled={isApplyingRetention}
+                  className="text-orange-600 dark:text-orange-400 hover:underline disabled:opacity-50"
+                >
+                  {isApplyingRetention ? 'Aplicando...' : 'Aplicar agora'}
+                </button>
+              </div>
+            </section>
+
+            {/* Log de sincronização */}
+            <section>
+              <h3 className="font-semibold mb-2">Log de sincronização</h3>
+              <div className="flex flex-wrap gap-2 mb-3">
+                <input
+                  type="text"
+                  value={orderFilter}
+                  onChange={e => setOrderFilter(e.target.value)}
+                  placeholder="Filtrar por pedido"
+                  className="px-3 py-1.5 rounded-lg border dark:border-gray-600 dark:bg-gray-700 text-sm"
+                />
+                <select
+                  value={actionFilter}
+                  onChange={e => setActionFilter(e.target.value as SyncLogAction | 'all')}
+                  className="px-3 py-1.5 rounded-lg border dark:border-gray-600 dark:bg-gray-700 text-sm"
+                  aria-label="Filtrar por ação"
+                >
+                  <option value="all">Todas as ações</option>
+                  {(Object.keys(ACTION_LABELS) as SyncLogAction[]).map(action => (
+                    <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                <select
+                  value={outcomeFilter}
+                  onChange={e => setOutcomeFilter(e.target.value as SyncLogOutcome | 'all')}
+                  className="px-3 py-1.5 rounded-lg border dark:border-gray-600 dark:bg-gray-700 text-sm"
+                  aria-label="Filtrar por resultado"
+                >
+                  <option value="all">Todos os resultados</option>
+                  {(Object.keys(OUTCOME_LABELS) as SyncLogOutcome[]).map(outcome => (
+                    <option key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {filteredLog.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">Nenhum evento encontrado.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left">
+                    <thead className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="py-1 pr-3">Data</th>
+                        <th className="py-1 pr-3">Pedido</th>
+                        <th className="py-1 pr-3">Ação</th>
+                        <th className="py-1 pr-3">Resultado</th>
+                        <th className="py-1">Detalhes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {filteredLog.slice(0, MAX_LOG_ROWS).map((entry, index) => {
+                        const outcome = entry.outcome || 'success';
+                        return (
+                          <tr key={entry.id ?? index} className="border-t dark:border-gray-700 align-top">
+                            <td className="py-1.5 pr-3 text-xs whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+                            <td className="py-1.5 pr-3 font-mono text-xs break-all">{entry.orderId === '*' ? 'todos' : entry.orderId}</td>
+                            <td className="py-1.5 pr-3">{ACTION_LABELS[entry.action] || entry.action}</td>
+                            <td className="py-1.5 pr-3">
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_CLASSES[outcome]}`}>
+                                {OUTCOME_LABELS[outcome]}
+                              </span>
+                            </td>
+                            <td className="py-1.5 text-xs text-gray-600 dark:text-gray-300">{describeLogData(entry)}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {filteredLog.length > MAX_LOG_ROWS && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Mostrando {MAX_LOG_ROWS} de {filteredLog.length} eventos. O pacote exportado traz todos.
+                    </p>
+                  )}
+                </div>
+              )}
+            </section>
+
+            {/* Histórico de conexão */}
+            <section>
+              <h3 className="font-semibold mb-2">Histórico de conexão (esta sessão)</h3>
+              {bundle.connection.history.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">Sem mudanças de status registradas.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {bundle.connection.history.slice(0, 20).map((record, index) => (
+                    <li key={index} className="flex flex-wrap justify-between gap-2">
+                      <span className="text-xs">{formatDateTime(record.at)}</span>
+                      <span className={record.status.isOnline ? '' : 'text-red-600 dark:text-red-400'}>
+                        {record.status.isOnline ? 'Online' : 'Offline'}
+                        {' · '}{record.status.transport || 'polling'}
+                        {record.status.lastSyncMode && ` · sync ${record.status.lastSyncMode === 'delta' ? 'incremental' : 'completa'}`}
+                        {record.status.error && ` · ${record.status.error}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {/* Verificações de saúde */}
+            <section>
+              <h3 className="font-semibold mb-2">Verificações de saúde</h3>
+              {healthChecks.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">Nenhuma verificação nesta aba ainda.</p>
+              ) : (
+                <>
+                  <p className="mb-2 text-gray-600 dark:text-gray-300">
+                    {healthChecks.length} verificação(ões) · latência média de {averageLatency}ms
+                  </p>
+                  <ul className="space-y-1">
+                    {healthChecks.slice(0, 10).map((check, index) => (
+                      <li key={index} className="flex justify-between">
+                        <span className="text-xs">{formatDateTime(check.at)}</span>
+                        <span className={check.healthy ? '' : 'text-red-600 dark:text-red-400'}>
+                          {check.latencyMs}ms · {check.healthy ? 'ok' : check.error || 'falhou'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </section>
+          </div>
+        )}
+
+        {/* Ações */}
+        <div className="sticky bottom-0 bg-white dark:bg-gray-800 border-t dark:border-gray-700 px-5 py-4 flex justify-end">
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white text-sm"
+          >
+            <Download className="w-4 h-4" />
+            Exportar pacote de diagnóstico
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataHealthModal;
@@ -26,8 +26,16 @@ import {
   User,
   RefreshCw
 } from 'lucide-react';
-import { Order, OrderItem, ToastType, PriceHistory } from '../../types';
+import { Order, OrderItem, ToastType, PriceHistory, ItemUnit } from '../../types';
 import { formatCurrency, formatDateTime } from '../../utils/formatters';
+import {
+  UNIT_LABELS,
+  formatQuantity,
+  isWeighed,
+  lineTotal,
+  priceFactor,
+  withActualWeight
+} from '../../utils/itemUnits';
 import { useTheme } from '../../hooks/useTheme';
 
 // ==================== INTERFACES ====================
@@ -152,39 +160,76 @@ const PriceInput: React.FC<{
   );
 };
 
+// Passo dos botões +/-: unidades inteiras, pesos em 50 g
+const QUANTITY_STEPS: Record<ItemUnit, number> = { un: 1, kg: 0.05, g: 50 };
+// Menor quantidade aceita: uma unidade ou um grama (o passo vale só para os botões)
+const QUANTITY_MINIMUMS: Record<ItemUnit, number> = { un: 1, kg: 0.001, g: 1 };
+
+// Vírgula ou ponto decimal
+const parseDecimal = (text: string) => parseFloat(text.replace(',', '.'));
+const roundTo = (value: number, decimals: number) => parseFloat(value.toFixed(decimals));
+const formatDecimal = (value: number, decimals: number) => String(roundTo(value, decimals)).replace('.', ',');
+
 const QuantityInput: React.FC<{
   value: number;
   onChange: (value: number) => void;
+  unit?: ItemUnit;
   min?: number;
   max?: number;
   className?: string;
-}> = ({ value, onChange, min = 1, max = 9999, className = '' }) => {
+}> = ({ value, onChange, unit = 'un', min, max = 9999, className = '' }) => {
+  const step = QUANTITY_STEPS[unit];
+  const lowest = min ?? QUANTITY_MINIMUMS[unit];
+  // kg aceita gramas (3 casas); unidades e gramas são inteiros
+  const decimals = unit === 'kg' ? 3 : 0;
+
+  const clamp = (n: number) => Math.max(lowest, Math.min(max, roundTo(n, decimals)));
+
+  const [displayValue, setDisplayValue] = useState(formatDecimal(value, decimals));
+
+  // Não reescreve o que está sendo digitado ("1," ainda é 1)
+  useEffect(() => {
+    setDisplayValue(current => (parseDecimal(current) === value ? current : formatDecimal(value, decimals)));
+  }, [value, decimals]);
+
   const handleDecrease = () => {
-    if (value > min) onChange(value - 1);
+    if (value > lowest) onChange(clamp(value - step));
   };
 
   const handleIncrease = () => {
-    if (value < max) onChange(value + 1);
+    if (value < max) onChange(clamp(value + step));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setDisplayValue(e.target.value);
+    const numValue = parseDecimal(e.target.value);
+    if (!isNaN(numValue) && numValue >= lowest && numValue <= max) onChange(roundTo(numValue, decimals));
+  };
+
+  const handleBlur = () => {
+    const numValue = parseDecimal(displayValue);
+    const committed = isNaN(numValue) ? value : clamp(numValue);
+    setDisplayValue(formatDecimal(committed, decimals));
+    if (committed !== value) onChange(committed);
   };
 
   return (
     <div className={`flex items-center ${className}`}>
       <button
         onClick={handleDecrease}
-        disabled={value <= min}
+        disabled={value <= lowest}
         className="p-1 hover:bg-gray-100 dark:hover:bg-gray-600 rounded disabled:opacity-50 transition-colors"
       >
         <Minus className="w-4 h-4" />
       </button>
       
       <input
-        type="number"
-        value={value}
-        onChange={(e) => {
-          const newValue = parseInt(e.target.value) || min;
-          onChange(Math.max(min, Math.min(max, newValue)));
-        }}
-        className="w-16 mx-1 px-2 py-1 text-center border rounded
+        type="text"
+        inputMode={unit === 'kg' ? 'decimal' : 'numeric'}
+        value={displayValue}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        className="w-20 mx-1 px-2 py-1 text-center border rounded
           border-gray-300 dark:border-gray-600 
           bg-white dark:bg-gray-700 
           text-gray-900 dark:text-white
@@ -198,6 +243,10 @@ const QuantityInput: React.FC<{
       >
         <Plus className="w-4 h-4" />
       </button>
+
+      {unit !== 'un' && (
+        <span className="ml-1 text-sm text-gray-500 dark:text-gray-400">{UNIT_LABELS[unit]}</span>
+      )}
     </div>
   );
 };
@@ -340,6 +389,7 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
     });
   }, [order]);
 
+  // Itens em gramas: o limite vale para o preço por kg, que é o exibido
   const validatePrice = (price: number): string | null => {
     if (price < PRICE_LIMITS.min) return `Preço mínimo: ${formatCurrency(PRICE_LIMITS.min)}`;
     if (price > PRICE_LIMITS.max) return `Preço máximo: ${formatCurrency(PRICE_LIMITS.max)}`;
@@ -350,9 +400,9 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
     setEditedItems(prev => {
       const updated = prev.map(item => {
         if (item.id === itemId) {
-          const totalPrice = newPrice * item.quantity;
+          const totalPrice = lineTotal(item.quantity, newPrice);
           const hasChanges = newPrice !== item.originalPrice || item.quantity !== item.originalQuantity;
-          const error = validatePrice(newPrice);
+          const error = validatePrice(newPrice * priceFactor(item.unit));
           
           return {
             ...item,
@@ -374,13 +424,17 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
     setEditedItems(prev => {
       const updated = prev.map(item => {
         if (item.id === itemId) {
-          const totalPrice = item.unitPrice * newQuantity;
           const hasChanges = item.unitPrice !== item.originalPrice || newQuantity !== item.originalQuantity;
           
+          // Nos itens pesados, a quantidade editada é o peso conferido na balança
+          if (isWeighed(item)) {
+            return { ...item, ...withActualWeight(item, newQuantity), hasChanges };
+          }
+          
           return {
             ...item,
             quantity: newQuantity,
-            totalPrice,
+            totalPrice: lineTotal(newQuantity, item.unitPrice),
             hasChanges
           };
         }
@@ -395,20 +449,22 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
   const applyBulkAction = () => {
     setEditedItems(prev => {
       const updated = prev.map(item => {
-        let newPrice = item.unitPrice;
+        // Ajuste fixo em R$ vale por kg nos itens em gramas
+        const factor = priceFactor(item.unit);
+        let newPrice = item.unitPrice * factor;
         
         if (bulkAction.type === 'percentage') {
           const multiplier = bulkAction.value / 100;
           if (bulkAction.action === 'increase') {
-            newPrice = item.unitPrice * (1 + multiplier);
+            newPrice = newPrice * (1 + multiplier);
           } else if (bulkAction.action === 'decrease') {
-            newPrice = item.unitPrice * (1 - multiplier);
+            newPrice = newPrice * (1 - multiplier);
           }
         } else if (bulkAction.type === 'fixed') {
           if (bulkAction.action === 'increase') {
-            newPrice = item.unitPrice + bulkAction.value;
+            newPrice = newPrice + bulkAction.value;
           } else if (bulkAction.action === 'decrease') {
-            newPrice = item.unitPrice - bulkAction.value;
+            newPrice = newPrice - bulkAction.value;
           } else if (bulkAction.action === 'set') {
             newPrice = bulkAction.value;
           }
@@ -416,10 +472,11 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
         
         // Ensure price is within limits
         newPrice = Math.max(PRICE_LIMITS.min, Math.min(PRICE_LIMITS.max, newPrice));
+        const error = validatePrice(newPrice);
+        newPrice = newPrice / factor;
         
-        const totalPrice = newPrice * item.quantity;
+        const totalPrice = lineTotal(item.quantity, newPrice);
         const hasChanges = newPrice !== item.originalPrice || item.quantity !== item.originalQuantity;
-        const error = validatePrice(newPrice);
         
         return {
           ...item,
@@ -737,15 +794,21 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
                       {/* Quantity */}
                       <div>
                         <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">
-                          Quantidade
+                          {isWeighed(item) ? 'Peso na balança' : 'Quantidade'}
                         </label>
                         <QuantityInput
                           value={item.quantity}
+                          unit={item.unit}
                           onChange={(value) => handleQuantityChange(item.id, value)}
                         />
+                        {isWeighed(item) && item.requestedWeight !== undefined && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Pedido: {formatQuantity(item.requestedWeight, item.unit)}
+                          </p>
+                        )}
                         {item.quantity !== item.originalQuantity && (
                           <p className="text-xs text-gray-500 mt-1">
-                            Original: {item.originalQuantity}
+                            Original: {formatQuantity(item.originalQuantity, item.unit)}
                           </p>
                         )}
                       </div>
@@ -753,16 +816,16 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
                       {/* Unit Price */}
                       <div>
                         <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 block">
-                          Preço Unitário
+                          {isWeighed(item) ? 'Preço por kg' : 'Preço Unitário'}
                         </label>
                         <PriceInput
-                          value={item.unitPrice}
-                          onChange={(value) => handlePriceChange(item.id, value)}
+                          value={item.unitPrice * priceFactor(item.unit)}
+                          onChange={(value) => handlePriceChange(item.id, value / priceFactor(item.unit))}
                           error={item.error}
                         />
                         {item.unitPrice !== item.originalPrice && !item.error && (
                           <p className="text-xs text-gray-500 mt-1">
-                            Original: {formatCurrency(item.originalPrice)}
+                            Original: {formatCurrency(item.originalPrice * priceFactor(item.unit))}
                           </p>
                         )}
                       </div>
@@ -777,7 +840,7 @@ export const EditPriceModal: React.FC<EditPriceModalProps> = ({
                         </div>
                         {item.hasChanges && (
                           <p className="text-xs text-gray-500 mt-1">
-                            Original: {formatCurrency(item.originalPrice * item.originalQuantity)}
+                            Original: {formatCurrency(lineTotal(item.originalQuantity, item.originalPrice))}
                           </p>
                         )}
                       </div>
@@ -87,6 +87,8 @@ const SHORTCUTS: Shortcut[] = [
   { keys: ['Ctrl', 'E'], description: 'Editar preços', category: 'actions' },
   { keys: ['Ctrl', 'W'], description: 'Enviar WhatsApp', category: 'actions' },
   { keys: ['Delete'], description: 'Cancelar pedido', category: 'actions' },
+  { keys: ['Ctrl', 'Clique'], description: 'Selecionar/desmarcar pedido', category: 'actions' },
+  { keys: ['Shift', 'Clique'], description: 'Selecionar intervalo na coluna', category: 'actions' },
   
   // Filters
   { keys: ['0'], description: 'Mostrar todos os pedidos', category: 'filters' },
@@ -99,7 +101,7 @@ const SHORTCUTS: Shortcut[] = [
 const FAQS: FAQ[] = [
   {
     question: 'Como altero o status de um pedido?',
-    answer: 'Clique no botão principal do card do pedido ou arraste o card entre as colunas. O sistema solicitará confirmação antes de fazer a mudança.',
+    answer: 'Clique no botão principal do card do pedido ou arraste o card entre as colunas. A mudança é aplicada na hora e pode ser desfeita pelo botão "Desfazer" do aviso que aparece logo em seguida.',
     category: 'pedidos'
   },
   {
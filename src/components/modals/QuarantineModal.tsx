@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Pedidos recusados na validação: payload bruto, erros e
+ * contagem por tipo de falha
+ * @module components/modals/QuarantineModal
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
+import { quarantine, QuarantineEntry } from '../../services/persistence/quarantine';
+import { useQuarantine } from '../../hooks/useQuarantine';
+import { formatDateTime } from '../../utils/formatters';
+
+// ==================== INTERFACES ====================
+interface QuarantineModalProps {
+  onClose: () => void;
+}
+
+// ==================== HELPERS ====================
+const VARIANT_LABELS: Record<string, string> = {
+  backend: 'Bot (MongoDB)',
+  rest: 'REST',
+  legacy: 'Legado'
+};
+
+const describeEntry = (entry: QuarantineEntry): string => {
+  const payload = entry.payload as any;
+  const customer = payload && typeof payload === 'object'
+    ? payload.customer_name || payload.customerName || payload.customer?.name
+    : null;
+  return [entry.orderId || 'sem id', customer].filter(Boolean).join(' · ');
+};
+
+// ==================== COMPONENT ====================
+const QuarantineModal: React.FC<QuarantineModalProps> = ({ onClose }) => {
+  const { entries, counts } = useQuarantine();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  const handleClear = () => {
+    if (window.confirm('Descartar todos os pedidos em quarentena e zerar a contagem?')) {
+      quarantine.clear();
+    }
+  };
+
+  const sortedCounts = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <div
+        className="relative w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label="Pedidos em quarentena"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <ShieldAlert className="w-5 h-5 text-red-500" />
+            <h2 className="font-bold text-lg dark:text-white">Pedidos em quarentena</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 text-sm dark:text-white">
+          <p className="text-gray-600 dark:text-gray-300">
+            Pedidos que o backend enviou fora do formato esperado não entram no quadro.
+            Quando o backend enviar o pedido corrigido, ele sai daqui sozinho.
+          </p>
+
+          {/* Contagem por tipo */}
+          <section>
+            <h3 className="font-semibold mb-2">Falhas por tipo</h3>
+            {sortedCounts.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Nenhuma falha registrada.</p>
+            ) : (
+              <ul className="space-y-1">
+                {sortedCounts.map(([type, count]) => (
+                  <li key={type} className="flex justify-between gap-3">
+                    <span className="font-mono text-xs break-all">{type}</span>
+                    <span className="font-semibold">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Pedidos */}
+          <section>
+            <h3 className="font-semibold mb-2">Pedidos ({entries.length})</h3>
+            {entries.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Nenhum pedido em quarentena.</p>
+            ) : (
+              <ul className="space-y-2">
+                {entries.map(entry => {
+                  const isOpen = expanded === entry.key;
+                  return (
+                    <li key={entry.key} className="rounded-lg border dark:border-gray-700">
+                      <div className="flex items-center justify-between gap-3 px-3 py-2">
+                        <button
+                          onClick={() => setExpanded(isOpen ? null : entry.key)}
+                          className="flex items-center gap-2 text-left min-w-0"
+                        >
+                          {isOpen ? <ChevronDown className="w-4 h-4 shrink-0" /> : <ChevronRight className="w-4 h-4 shrink-0" />}
+                          <span className="truncate">
+                            <span className="font-mono text-xs">{describeEntry(entry)}</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {' · '}{entry.issues.length} erro(s)
+                              {' · '}{entry.variant ? VARIANT_LABELS[entry.variant] || entry.variant : 'desconhecido'}
+                              {' · '}{entry.source}
+                            </span>
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => quarantine.release(entry.key)}
+                          className="text-xs text-red-600 dark:text-red-400 hover:underline shrink-0"
+                        >
+                          Descartar
+                        </button>
+                      </div>
+
+                      {isOpen && (
+                        <div className="border-t dark:border-gray-700 px-3 py-2 space-y-3">
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Recebido {entry.occurrences}x · primeira vez em {formatDateTime(new Date(entry.firstSeenAt))}
+                            {' · '}última em {formatDateTime(new Date(entry.lastSeenAt))}
+                          </p>
+                          <ul className="space-y-1">
+                            {entry.issues.map((issue, index) => (
+                              <li key={index} className="text-xs">
+                                <span className="font-mono text-red-600 dark:text-red-400">{issue.path}</span>
+                                {' '}{issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                          <pre className="text-xs bg-gray-50 dark:bg-gray-900 rounded-lg p-3 overflow-x-auto max-h-72">
+                            {JSON.stringify(entry.payload, null, 2)}
+                          </pre>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+
+        {/* Ações */}
+        <div className="sticky bottom-0 bg-white dark:bg-gray-800 border-t dark:border-gray-700 px-5 py-4 flex justify-end">
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0 && sortedCounts.length === 0}
+            className="px-4 py-2 rounded-lg border dark:border-gray-600 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 dark:text-white disabled:opacity-50"
+          >
+            Limpar quarentena
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuarantineModal;
@@ -0,0 +1,172 @@
+/**
+ * @fileoverview Catálogo de produtos e variações: versão sincronizada, ids
+ * não resolvidos e nomes dados à mão
+ * @module components/modals/VariationCatalogModal
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Tags, RefreshCw } from 'lucide-react';
+import { variationCatalog } from '../../services/persistence/variationCatalog';
+import { useVariationCatalog } from '../../hooks/useVariationCatalog';
+import { formatDateTime } from '../../utils/formatters';
+
+// ==================== INTERFACES ====================
+interface VariationCatalogModalProps {
+  onClose: () => void;
+}
+
+// ==================== COMPONENT ====================
+const VariationCatalogModal: React.FC<VariationCatalogModalProps> = ({ onClose }) => {
+  const { meta, products, variations, manual, unresolved, refreshing, lastError } = useVariationCatalog();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  const handleAssign = (id: string) => {
+    const name = drafts[id]?.trim();
+    if (!name) return;
+    variationCatalog.assignName(id, name);
+    setDrafts(({ [id]: _saved, ...rest }) => rest);
+  };
+
+  const manualEntries = Object.entries(manual).sort((a, b) => a[1].localeCompare(b[1]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      <div
+        className="relative w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-xl shadow-xl"
+        role="dialog"
+        aria-label="Catálogo de variações"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-5 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Tags className="w-5 h-5 text-blue-500" />
+            <h2 className="font-bold text-lg dark:text-white">Catálogo de variações</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 text-sm dark:text-white">
+          {/* Versão sincronizada */}
+          <section className="flex items-start justify-between gap-4">
+            <div className="space-y-1">
+              <p>
+                <span className="font-semibold">{products}</span> produtos e{' '}
+                <span className="font-semibold">{variations}</span> variações
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {meta
+                  ? <>Versão {meta.version || meta.etag || 'sem versão'} · sincronizado em {formatDateTime(meta.syncedAt)}</>
+                  : 'Catálogo ainda não baixado'}
+              </p>
+              {lastError && (
+                <p className="text-xs text-red-600 dark:text-red-400">Última atualização falhou: {lastError}</p>
+              )}
+            </div>
+            <button
+              onClick={() => variationCatalog.refresh()}
+              disabled={refreshing}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 shrink-0"
+            >
+              <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+              Atualizar agora
+            </button>
+          </section>
+
+          {/* Ids não resolvidos */}
+          <section>
+            <h3 className="font-semibold mb-1">Ids não resolvidos ({unresolved.length})</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+              Ids que chegaram nos pedidos e não estão no catálogo. O nome dado aqui vale até o catálogo ser corrigido.
+            </p>
+            {unresolved.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Todos os ids dos pedidos foram resolvidos.</p>
+            ) : (
+              <ul className="space-y-2">
+                {unresolved.map(entry => (
+                  <li key={entry.id} className="rounded-lg border dark:border-gray-700 px-3 py-2 space-y-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="font-mono text-xs break-all">{entry.id}</span>
+                      <button
+                        onClick={() => variationCatalog.dismissUnresolved(entry.id)}
+                        className="text-xs text-gray-500 dark:text-gray-400 hover:underline shrink-0"
+                      >
+                        Ignorar
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {entry.itemName ? `Em "${entry.itemName}" · ` : ''}
+                      visto {entry.occurrences}x · última vez em {formatDateTime(new Date(entry.lastSeenAt))}
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={drafts[entry.id] || ''}
+                        onChange={e => setDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') handleAssign(entry.id);
+                        }}
+                        placeholder="Nome (ex.: Chocolate)"
+                        className="flex-1 px-3 py-1.5 rounded-lg border dark:border-gray-600 bg-white dark:bg-gray-700 text-sm"
+                      />
+                      <button
+                        onClick={() => handleAssign(entry.id)}
+                        disabled={!drafts[entry.id]?.trim()}
+                        className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Salvar
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          {/* Nomes manuais */}
+          <section>
+            <h3 className="font-semibold mb-2">Nomes dados à mão ({manualEntries.length})</h3>
+            {manualEntries.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">Nenhum nome manual.</p>
+            ) : (
+              <ul className="space-y-1">
+                {manualEntries.map(([id, name]) => (
+                  <li key={id} className="flex items-center justify-between gap-3">
+                    <span className="min-w-0">
+                      <span className="font-medium">{name}</span>
+                      <span className="font-mono text-xs text-gray-500 dark:text-gray-400 break-all"> · {id}</span>
+                    </span>
+                    <button
+                      onClick={() => variationCatalog.removeManual(id)}
+                      className="text-xs text-red-600 dark:text-red-400 hover:underline shrink-0"
+                    >
+                      Remover
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariationCatalogModal;
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Barra de ações em lote para os pedidos selecionados
+ * @module components/orders/BatchActionBar
+ */
+
+import React, { useState } from 'react';
+import { OrderStatus, ORDER_STATUS_CONFIG } from '../../types';
+
+// ==================== INTERFACES ====================
+interface BatchActionBarProps {
+  selectedCount: number;
+  busy?: boolean;
+  onChangeStatus: (status: OrderStatus) => void;
+  onPrint: () => void;
+  onAddTag: (tag: string) => void;
+  onAssign: (assignee: string) => void;
+  onClearSelection: () => void;
+}
+
+const BatchActionBar: React.FC<BatchActionBarProps> = ({
+  selectedCount,
+  busy = false,
+  onChangeStatus,
+  onPrint,
+  onAddTag,
+  onAssign,
+  onClearSelection
+}) => {
+  const [tag, setTag] = useState('');
+  const [assignee, setAssignee] = useState('');
+
+  if (selectedCount === 0) return null;
+
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const status = e.target.value as OrderStatus;
+    if (status) onChangeStatus(status);
+    e.target.value = '';
+  };
+
+  const handleTagSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tag.trim()) return;
+    onAddTag(tag.trim());
+    setTag('');
+  };
+
+  const handleAssignSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignee.trim()) return;
+    onAssign(assignee.trim());
+    setAssignee('');
+  };
+
+  const inputClasses = 'w-32 px-2 py-1 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+  const buttonClasses = 'px-3 py-1 text-sm rounded-lg bg-gray-100 dark:bg-gray-700 dark:text-white hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50';
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 bg-white dark:bg-gray-800 shadow-xl rounded-xl border dark:border-gray-700 px-4 py-3 flex flex-wrap items-center gap-3">
+      <span className="font-semibold text-sm dark:text-white">
+        {selectedCount} selecionado{selectedCount > 1 ? 's' : ''}
+      </span>
+
+      <select
+        defaultValue=""
+        onChange={handleStatusChange}
+        disabled={busy}
+        className="px-2 py-1 text-sm border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        aria-label="Alterar status dos selecionados"
+      >
+        <option value="" disabled>Mover para…</option>
+        {Object.values(OrderStatus).map(status => (
+          <option key={status} value={status}>
+            {ORDER_STATUS_CONFIG[status].label}
+          </option>
+        ))}
+      </select>
+
+      <button onClick={onPrint} disabled={busy} className={buttonClasses}>
+        🖨️ Imprimir
+      </button>
+
+      <form onSubmit={handleTagSubmit} className="flex items-center gap-1">
+        <input
+          value={tag}
+          onChange={e => setTag(e.target.value)}
+          placeholder="Etiqueta"
+          className={inputClasses}
+          disabled={busy}
+        />
+        <button type="submit" disabled={busy || !tag.trim()} className={buttonClasses}>
+          🏷️
+        </button>
+      </form>
+
+      <form onSubmit={handleAssignSubmit} className="flex items-center gap-1">
+        <input
+          value={assignee}
+          onChange={e => setAssignee(e.target.value)}
+          placeholder="Responsável"
+          className={inputClasses}
+          disabled={busy}
+        />
+        <button type="submit" disabled={busy || !assignee.trim()} className={buttonClasses}>
+          👤
+        </button>
+      </form>
+
+      <button
+        onClick={onClearSelection}
+        className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+      >
+        Limpar seleção (Esc)
+      </button>
+    </div>
+  );
+};
+
+export default BatchActionBar;
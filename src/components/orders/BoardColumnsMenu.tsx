@@ -0,0 +1,96 @@
+/**
+ * @fileoverview Menu para exibir/ocultar e recolher colunas do quadro
+ * @module components/orders/BoardColumnsMenu
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import { OrderStatus } from '../../types';
+import { BoardColumn } from '../../hooks/useBoardColumns';
+
+// ==================== INTERFACES ====================
+interface BoardColumnsMenuProps {
+  columns: BoardColumn[];
+  onToggleHidden: (status: OrderStatus) => void;
+  onToggleCollapse: (status: OrderStatus) => void;
+  onReset: () => void;
+}
+
+const BoardColumnsMenu: React.FC<BoardColumnsMenuProps> = ({
+  columns,
+  onToggleHidden,
+  onToggleCollapse,
+  onReset
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const hiddenCount = columns.filter(column => column.hidden).length;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-4 py-2 rounded-lg font-medium text-sm whitespace-nowrap hover:bg-white/50 dark:hover:bg-gray-700/50 text-gray-600 dark:text-gray-400"
+        title="Configurar colunas"
+      >
+        Colunas{hiddenCount > 0 ? ` (${hiddenCount} ocultas)` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-lg shadow-lg border dark:border-gray-700 z-50 py-2">
+          {columns.map(column => (
+            <div key={column.id} className="flex items-center justify-between px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700">
+              <label className="flex items-center gap-2 text-sm dark:text-white cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!column.hidden}
+                  onChange={() => onToggleHidden(column.id)}
+                  className="rounded text-orange-500 focus:ring-orange-500"
+                />
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: column.color }} />
+                {column.title}
+              </label>
+              {!column.hidden && (
+                <button
+                  onClick={() => onToggleCollapse(column.id)}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-orange-600 dark:hover:text-orange-400"
+                >
+                  {column.collapsed ? 'Expandir' : 'Recolher'}
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="border-t dark:border-gray-700 mt-2 pt-2 px-3">
+            <button
+              onClick={() => {
+                onReset();
+                setIsOpen(false);
+              }}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:text-orange-600 dark:hover:text-orange-400"
+            >
+              Restaurar padrão
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoardColumnsMenu;
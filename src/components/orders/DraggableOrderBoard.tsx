@@ -1,13 +1,15 @@
-import React, { useState, useMemo } from 'react';
-import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { DragDropContext, Droppable, Draggable, DropResult, DragStart } from '@hello-pangea/dnd';
 import { Order, OrderStatus, Toast, ToastType } from '../../types';
-import { simplifyStatus } from '../../utils/statusHelpers';
+import { canTransition, validateTransition } from '../../utils/statusHelpers';
 import OrderCard from './OrderCard';
+import { OrderSyncState } from '../../hooks/useOfflineSync';
 
 interface Column {
   id: string;
   title: string;
   color: string;
+  collapsed?: boolean;
 }
 
 interface OrderBoardProps {
@@ -21,10 +23,31 @@ interface OrderBoardProps {
   onPhoneCall: (phone: string) => void;
   onDuplicateOrder: (orderId: string) => void;
   onDeleteOrder: (orderId: string) => void;
+  onShowDetails?: (orderId: string) => void;
   showToast: (message: string, type: ToastType) => void;
   loading: boolean;
+  onToggleCollapse?: (status: OrderStatus) => void;
+  onHideColumn?: (status: OrderStatus) => void;
+  onMoveColumn?: (status: OrderStatus, direction: -1 | 1) => void;
+  selectedIds?: Set<string>;
+  onSelectionChange?: (ids: Set<string>) => void;
+  syncStates?: Record<string, OrderSyncState>;
+  onRetrySync?: (orderId: string) => void;
+  onResolveConflict?: (orderId: string) => void;
 }
 
+// Retângulo de seleção (laço) em coordenadas da janela
+interface LassoState {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  additive: boolean;
+}
+
+// Distância mínima para considerar que o mouse foi arrastado
+const LASSO_THRESHOLD = 5;
+
 // Loading Skeleton
 const OrderCardSkeleton = () => (
   <div className="border-l-4 border-gray-200 rounded-lg bg-white dark:bg-gray-800 p-4 animate-pulse">
@@ -57,18 +80,153 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
   onPhoneCall,
   onDuplicateOrder,
   onDeleteOrder,
+  onShowDetails,
   showToast,
-  loading
+  loading,
+  onToggleCollapse,
+  onHideColumn,
+  onMoveColumn,
+  selectedIds,
+  onSelectionChange,
+  syncStates = {},
+  onRetrySync,
+  onResolveConflict
 }) => {
+  // Status de origem do card sendo arrastado (para desabilitar colunas inválidas)
+  const [draggingFrom, setDraggingFrom] = useState<OrderStatus | null>(null);
+  const [lasso, setLasso] = useState<LassoState | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Último card clicado, ponto de partida da seleção com Shift
+  const anchorIdRef = useRef<string | null>(null);
+  const selection = useMemo(() => selectedIds || new Set<string>(), [selectedIds]);
+
   // Organize orders by column
   const ordersByColumn = columns.reduce((acc, column) => {
-    acc[column.id] = orders.filter(order => simplifyStatus(order.status) === column.id);
+    acc[column.id] = orders.filter(order => order.status === column.id);
     return acc;
   }, {} as Record<string, Order[]>);
 
+  // ==================== SELEÇÃO ====================
+  // Ctrl/Cmd+clique alterna um card; Shift+clique seleciona o intervalo na coluna
+  const handleCardClickCapture = (e: React.MouseEvent, orderId: string, columnOrders: Order[]) => {
+    if (!onSelectionChange) return;
+
+    const toggle = e.ctrlKey || e.metaKey;
+    if (!toggle && !e.shiftKey) {
+      anchorIdRef.current = orderId;
+      return;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const next = new Set(selection);
+    const anchorIndex = columnOrders.findIndex(o => o.id === anchorIdRef.current);
+    const clickedIndex = columnOrders.findIndex(o => o.id === orderId);
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const [from, to] = anchorIndex < clickedIndex
+        ? [anchorIndex, clickedIndex]
+        : [clickedIndex, anchorIndex];
+      columnOrders.slice(from, to + 1).forEach(o => next.add(o.id));
+    } else if (next.has(orderId)) {
+      next.delete(orderId);
+      anchorIdRef.current = orderId;
+    } else {
+      next.add(orderId);
+      anchorIdRef.current = orderId;
+    }
+
+    onSelectionChange(next);
+  };
+
+  // Laço: arrastar a partir de uma área vazia do quadro
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!onSelectionChange || e.button !== 0) return;
+
+    const target = e.target as HTMLElement;
+    if (target.closest('[data-order-id], button, input, select, a')) return;
+
+    setLasso({
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      additive: e.ctrlKey || e.metaKey || e.shiftKey
+    });
+  };
+
+  const finishLasso = useCallback((state: LassoState) => {
+    if (!onSelectionChange || !containerRef.current) return;
+
+    const left = Math.min(state.startX, state.x);
+    const right = Math.max(state.startX, state.x);
+    const top = Math.min(state.startY, state.y);
+    const bottom = Math.max(state.startY, state.y);
+
+    // Clique simples em área vazia limpa a seleção
+    if (right - left < LASSO_THRESHOLD && bottom - top < LASSO_THRESHOLD) {
+      if (!state.additive && selection.size > 0) onSelectionChange(new Set());
+      return;
+    }
+
+    const next = state.additive ? new Set(selection) : new Set<string>();
+    containerRef.current.querySelectorAll<HTMLElement>('[data-order-id]').forEach(element => {
+      const rect = element.getBoundingClientRect();
+      const intersects = rect.left < right && rect.right > left && rect.top < bottom && rect.bottom > top;
+      if (intersects) next.add(element.dataset.orderId!);
+    });
+
+    onSelectionChange(next);
+  }, [onSelectionChange, selection]);
+
+  useEffect(() => {
+    if (!lasso) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setLasso(prev => prev ? { ...prev, x: e.clientX, y: e.clientY } : prev);
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      finishLasso({ ...lasso, x: e.clientX, y: e.clientY });
+      setLasso(null);
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [lasso, finishLasso]);
+
+  // Esc limpa a seleção
+  useEffect(() => {
+    if (!onSelectionChange || selection.size === 0) return;
+
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onSelectionChange(new Set());
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onSelectionChange, selection]);
+
+  const handleDragStart = (start: DragStart) => {
+    setDraggingFrom(start.source.droppableId as OrderStatus);
+  };
+
+  // Coluna de origem sempre aceita (reordenação); as demais seguem allowedTransitions
+  const isDropDisabled = (columnId: string) => (
+    draggingFrom !== null &&
+    columnId !== draggingFrom &&
+    !canTransition(draggingFrom, columnId as OrderStatus)
+  );
+
   // Handle drag end
   const handleDragEnd = (result: DropResult) => {
     const { destination, source, draggableId } = result;
+    setDraggingFrom(null);
 
     // Dropped outside a droppable area
     if (!destination) return;
@@ -85,6 +243,11 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
 
     // If status changed, update it
     if (source.droppableId !== destination.droppableId) {
+      const validation = validateTransition(source.droppableId as OrderStatus, newStatus);
+      if (!validation.valid) {
+        showToast(validation.reason!, ToastType.WARNING);
+        return;
+      }
       onUpdateStatus(orderId, newStatus);
     }
   };
@@ -92,45 +255,117 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
   // Determine which columns to display
   const displayColumns = filter === 'all' ? columns : columns.filter(col => col.id === filter);
 
-  // Definir classes de grid dinamicamente baseado no número de colunas
-  const gridClasses = useMemo(() => {
-    const base = 'grid gap-4';
-    switch (displayColumns.length) {
-      case 1:
-        return `${base} grid-cols-1`;
-      case 2:
-        return `${base} grid-cols-1 md:grid-cols-2`;
-      case 3:
-        return `${base} grid-cols-1 md:grid-cols-2 lg:grid-cols-3`;
-      default:
-        return `${base} grid-cols-1 md:grid-cols-2 lg:grid-cols-4`;
-    }
+  // Colunas recolhidas ocupam só uma faixa estreita; as demais dividem o espaço
+  const containerClasses = useMemo(() => {
+    const base = 'flex gap-4';
+    return displayColumns.length > 4 ? `${base} overflow-x-auto pb-2` : base;
   }, [displayColumns.length]);
 
   return (
-    <DragDropContext onDragEnd={handleDragEnd}>
-      <div className={gridClasses}>
-        {displayColumns.map((column) => {
+    <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+      <div
+        ref={containerRef}
+        className={`${containerClasses} ${lasso ? 'select-none' : ''}`}
+        onMouseDown={handleMouseDown}
+      >
+        {displayColumns.map((column, columnIndex) => {
           const columnOrders = ordersByColumn[column.id] || [];
-          
+          const status = column.id as OrderStatus;
+          const dropDisabled = isDropDisabled(column.id);
+
+          if (column.collapsed) {
+            return (
+              <Droppable key={column.id} droppableId={column.id} isDropDisabled={dropDisabled}>
+                {(provided, snapshot) => (
+                  <div
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className={`flex-none w-12 rounded-lg py-3 flex flex-col items-center gap-3 cursor-pointer transition-all ${
+                      snapshot.isDraggingOver ? 'bg-orange-100 dark:bg-orange-900/30' : 'bg-white dark:bg-gray-800'
+                    } ${dropDisabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+                    onClick={() => onToggleCollapse?.(status)}
+                    title={`Expandir ${column.title}`}
+                  >
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: column.color }} />
+                    <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded-full">
+                      {columnOrders.length}
+                    </span>
+                    <span
+                      className="font-semibold text-sm dark:text-white whitespace-nowrap"
+                      style={{ writingMode: 'vertical-rl' }}
+                    >
+                      {column.title}
+                    </span>
+                    <div className="hidden">{provided.placeholder}</div>
+                  </div>
+                )}
+              </Droppable>
+            );
+          }
+
           return (
-            <div key={column.id} className="space-y-3">
+            <div
+              key={column.id}
+              className={`flex-1 min-w-[280px] space-y-3 transition-opacity ${dropDisabled ? 'opacity-40' : ''}`}
+            >
               <div className="flex items-center justify-between sticky top-[118px] md:top-[80px] bg-gray-100 dark:bg-gray-900 py-2 z-10">
                 <h3 className="font-semibold dark:text-white flex items-center gap-2">
                   <div className="w-3 h-3 rounded-full" style={{ backgroundColor: column.color }} />
                   {column.title}
                 </h3>
-                <span className="text-sm text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 px-2 py-1 rounded-full">
-                  {columnOrders.length}
-                </span>
+                <div className="flex items-center gap-1">
+                  {onMoveColumn && (
+                    <>
+                      <button
+                        onClick={() => onMoveColumn(status, -1)}
+                        disabled={columnIndex === 0}
+                        className="w-6 h-6 text-xs text-gray-500 dark:text-gray-400 hover:bg-white dark:hover:bg-gray-800 rounded disabled:opacity-30"
+                        title="Mover para a esquerda"
+                      >
+                        ◀
+                      </button>
+                      <button
+                        onClick={() => onMoveColumn(status, 1)}
+                        disabled={columnIndex === displayColumns.length - 1}
+                        className="w-6 h-6 text-xs text-gray-500 dark:text-gray-400 hover:bg-white dark:hover:bg-gray-800 rounded disabled:opacity-30"
+                        title="Mover para a direita"
+                      >
+                        ▶
+                      </button>
+                    </>
+                  )}
+                  {onToggleCollapse && (
+                    <button
+                      onClick={() => onToggleCollapse(status)}
+                      className="w-6 h-6 text-xs text-gray-500 dark:text-gray-400 hover:bg-white dark:hover:bg-gray-800 rounded"
+                      title="Recolher coluna"
+                    >
+                      ▬
+                    </button>
+                  )}
+                  {onHideColumn && (
+                    <button
+                      onClick={() => onHideColumn(status)}
+                      className="w-6 h-6 text-xs text-gray-500 dark:text-gray-400 hover:bg-white dark:hover:bg-gray-800 rounded"
+                      title="Ocultar coluna"
+                    >
+                      ✕
+                    </button>
+                  )}
+                  <span className="text-sm text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 px-2 py-1 rounded-full">
+                    {columnOrders.length}
+                  </span>
+                </div>
               </div>
               
-              <Droppable droppableId={column.id}>
+              <Droppable droppableId={column.id} isDropDisabled={dropDisabled}>
                 {(provided) => (
                   <div
                     ref={provided.innerRef}
                     {...provided.droppableProps}
-                    className="space-y-3 min-h-[50px]"
+                    className={`space-y-3 min-h-[50px] rounded-lg ${
+                      dropDisabled ? 'cursor-not-allowed bg-gray-200/50 dark:bg-gray-800/50' : ''
+                    }`}
                   >
                     {loading && columnOrders.length === 0 ? (
                       <>
@@ -147,7 +382,12 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
                               ref={provided.innerRef}
                               {...provided.draggableProps}
                               {...provided.dragHandleProps}
-                              className={`${snapshot.isDragging ? 'opacity-70 rotate-1' : ''}`}
+                              data-order-id={order.id}
+                              onClickCapture={e => handleCardClickCapture(e, order.id, columnOrders)}
+                              className={`rounded-lg ${snapshot.isDragging ? 'opacity-70 rotate-1' : ''} ${
+                                selection.has(order.id) ? 'ring-2 ring-orange-500 ring-offset-2 dark:ring-offset-gray-900' : ''
+                              }`}
+                              aria-selected={selection.has(order.id)}
                             >
                               <OrderCard
                                 key={order.id}
@@ -159,6 +399,10 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
                                 onPhoneCall={onPhoneCall}
                                 onDuplicateOrder={onDuplicateOrder}
                                 onDeleteOrder={onDeleteOrder}
+                                onShowDetails={onShowDetails}
+                                syncState={syncStates[order.id]}
+                                onRetrySync={onRetrySync}
+                                onResolveConflict={onResolveConflict}
                                 showToast={showToast}
                                 isDragging={snapshot.isDragging}
                               />
@@ -175,6 +419,18 @@ const DraggableOrderBoard: React.FC<OrderBoardProps> = ({
           );
         })}
       </div>
+
+      {lasso && (
+        <div
+          className="fixed z-30 border-2 border-orange-500 bg-orange-500/10 pointer-events-none"
+          style={{
+            left: Math.min(lasso.startX, lasso.x),
+            top: Math.min(lasso.startY, lasso.y),
+            width: Math.abs(lasso.x - lasso.startX),
+            height: Math.abs(lasso.y - lasso.startY)
+          }}
+        />
+      )}
     </DragDropContext>
   );
 };
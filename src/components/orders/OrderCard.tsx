@@ -12,9 +12,12 @@ import {
 } from '../../types';
 import { useTheme } from '../../hooks/useTheme';
 import { formatCurrency, formatTime, formatPhone } from '../../utils/formatters';
-import { simplifyStatus } from '../../utils/statusHelpers';
-import { getFlavorName, getOptionName } from '../../services/api/flavor-mapping';
+import { canTransition } from '../../utils/statusHelpers';
+import { formatQuantity, formatUnitPrice, isWeighed } from '../../utils/itemUnits';
+import { variationCatalog } from '../../services/persistence/variationCatalog';
+import { useVariationCatalog } from '../../hooks/useVariationCatalog';
 import QuickActionMenu from './QuickActionMenu';
+import { OrderSyncState } from '../../hooks/useOfflineSync';
 
 // ==================== INTERFACES ====================
 interface OrderCardProps {
@@ -27,6 +30,10 @@ interface OrderCardProps {
   onPhoneCall?: (phone: string) => void;
   onDuplicateOrder?: (orderId: string) => void;
   onDeleteOrder?: (orderId: string) => void;
+  onShowDetails?: (orderId: string) => void;
+  syncState?: OrderSyncState;
+  onRetrySync?: (orderId: string) => void;
+  onResolveConflict?: (orderId: string) => void;
   isDragging?: boolean;
   isCompact?: boolean;
 }
@@ -49,6 +56,50 @@ const UrgentBadge = memo(() => (
   </span>
 ));
 
+const SyncBadge = memo(({ state, onRetry, onResolve }: {
+  state: OrderSyncState;
+  onRetry?: () => void;
+  onResolve?: () => void;
+}) => (
+  state === 'conflict' ? (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onResolve?.();
+      }}
+      className="px-2 py-1 bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400 text-xs font-medium rounded-full hover:bg-orange-200 dark:hover:bg-orange-900/50"
+      title="O pedido mudou no servidor enquanto havia alteração local pendente"
+    >
+      Conflito · Resolver
+    </button>
+  ) : state === 'failed' ? (
+    <span className="flex items-center gap-1 px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 text-xs font-medium rounded-full">
+      Falha na sincronização
+      {onRetry && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRetry();
+          }}
+          className="underline hover:no-underline"
+          title="Tentar enviar novamente"
+        >
+          Tentar de novo
+        </button>
+      )}
+    </span>
+  ) : (
+    <span
+      className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400 text-xs font-medium rounded-full"
+      title="Alteração salva neste aparelho, aguardando envio ao servidor"
+    >
+      Sincronização pendente
+    </span>
+  )
+));
+
+SyncBadge.displayName = 'SyncBadge';
+
 const CustomerInfo = memo(({ customer }: { customer: Order['customer'] }) => {
   const { theme } = useTheme();
   
@@ -94,6 +145,8 @@ const OrderItems = memo(({
   onToggleExpand: () => void;
 }) => {
   const { theme } = useTheme();
+  // Renderiza de novo quando o catálogo muda ou o operador dá nome a um id
+  useVariationCatalog();
   const shouldShowToggle = items.length > 2;
   const displayItems = isExpanded ? items : items.slice(0, 2);
   
@@ -110,7 +163,9 @@ const OrderItems = memo(({
           <div className="flex justify-between items-start">
             <div className="text-gray-700 dark:text-gray-300 flex-1">
               <div className="flex items-start">
-                <span className="font-medium mr-1">{item.quantity}x</span> 
+                <span className="font-medium mr-1">
+                  {isWeighed(item) ? formatQuantity(item.quantity, item.unit) : `${item.quantity}x`}
+                </span> 
                 <span>{item.name}</span>
               </div>
               
@@ -121,7 +176,7 @@ const OrderItems = memo(({
                   <div className="flex items-start mb-1">
                     <span className="w-1.5 h-1.5 rounded-full bg-green-500 mr-1.5 mt-1"></span>
                     <span className="bg-green-100 dark:bg-green-900/30 px-2 py-0.5 rounded font-medium text-green-800 dark:text-green-300">
-                      {getOptionName(item.category) || "Variação não identificada"}
+                      {variationCatalog.resolveName(item.category) || "Variação não identificada"}
                     </span>
                   </div>
                 )}
@@ -153,14 +208,14 @@ const OrderItems = memo(({
                     const parts = trimmedNote.split(':');
                     const value = parts.slice(1).join(':').trim();
                     
-                    // Verificar no mapeamento estático
-                    const staticName = getFlavorName(value) || getOptionName(value);
-                    if (staticName) {
+                    // Verificar no catálogo sincronizado
+                    const catalogName = variationCatalog.resolveName(value);
+                    if (catalogName) {
                       return (
                         <div key={i} className="flex items-start mb-1">
                           <span className="w-1.5 h-1.5 rounded-full bg-green-500 mr-1.5 mt-1"></span>
                           <span className="bg-green-100 dark:bg-green-900/30 px-2 py-0.5 rounded font-medium text-green-800 dark:text-green-300">
-                            {staticName}
+                            {catalogName}
                           </span>
                         </div>
                       );
@@ -199,7 +254,12 @@ const OrderItems = memo(({
               )}
               
               {/* Mostrar preço unitário se diferente do total e maior que zero */}
-              {item.quantity > 1 && item.unitPrice > 0 && (
+              {isWeighed(item) ? (
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {formatUnitPrice(item)}
+                  {item.actualWeight === undefined && ' · aguardando pesagem'}
+                </span>
+              ) : item.quantity > 1 && item.unitPrice > 0 && (
                 <span className="text-xs text-gray-500 dark:text-gray-400">
                   {formatCurrency(item.unitPrice)} cada
                 </span>
@@ -238,6 +298,10 @@ export const OrderCard = memo<OrderCardProps>(({
   onPhoneCall,
   onDuplicateOrder,
   onDeleteOrder,
+  onShowDetails,
+  syncState,
+  onRetrySync,
+  onResolveConflict,
   isDragging = false,
   isCompact = false
 }) => {
@@ -251,7 +315,10 @@ export const OrderCard = memo<OrderCardProps>(({
   });
   
   const cardRef = useRef<HTMLDivElement>(null);
-  const statusConfig = ORDER_STATUS_CONFIG[simplifyStatus(order.status)];
+  const statusConfig = ORDER_STATUS_CONFIG[order.status];
+  const nextStatus = statusConfig.next && canTransition(order.status, statusConfig.next)
+    ? statusConfig.next
+    : null;
   const isUrgent = order.priority === 'urgent';
 
   // ==================== HANDLERS ====================
@@ -319,10 +386,10 @@ export const OrderCard = memo<OrderCardProps>(({
   }, []);
 
   const handleStatusUpdate = useCallback(() => {
-    if (statusConfig.next) {
-      onUpdateStatus(order.id, statusConfig.next);
+    if (nextStatus) {
+      onUpdateStatus(order.id, nextStatus);
     }
-  }, [order.id, statusConfig.next, onUpdateStatus]);
+  }, [order.id, nextStatus, onUpdateStatus]);
 
   const handleWhatsApp = useCallback(() => {
     const message = encodeURIComponent(
@@ -426,6 +493,13 @@ export const OrderCard = memo<OrderCardProps>(({
               #{order.orderNumber || order.id}
             </span>
             {isUrgent && <UrgentBadge />}
+            {syncState && (
+              <SyncBadge
+                state={syncState}
+                onRetry={onRetrySync ? () => onRetrySync(order.id) : undefined}
+                onResolve={onResolveConflict ? () => onResolveConflict(order.id) : undefined}
+              />
+            )}
             {order.tags?.map(tag => (
               <span
                 key={tag}
@@ -448,6 +522,9 @@ export const OrderCard = memo<OrderCardProps>(({
               orderId={order.id}
               onAction={(action) => {
                 switch(action) {
+                  case 'history':
+                    onShowDetails && onShowDetails(order.id);
+                    break;
                   case 'print':
                     onPrintClick && onPrintClick(order.id);
                     break;
@@ -481,7 +558,9 @@ export const OrderCard = memo<OrderCardProps>(({
                       onDeleteOrder(order.id);
                     } else {
                       // Implementação de fallback para exclusão
-                      if (confirm(`Deseja realmente excluir o pedido #${order.id.slice(0, 4)}?`)) {
+                      if (!canTransition(order.status, OrderStatus.CANCELLED)) {
+                        showToast(`Pedido ${order.id.slice(0, 4)} não pode ser cancelado`, ToastType.WARNING);
+                      } else if (confirm(`Deseja realmente excluir o pedido #${order.id.slice(0, 4)}?`)) {
                         onUpdateStatus(order.id, OrderStatus.CANCELLED);
                         showToast(`Pedido ${order.id.slice(0, 4)} cancelado`, ToastType.SUCCESS);
                       }
@@ -559,7 +638,7 @@ export const OrderCard = memo<OrderCardProps>(({
 
         {/* Actions */}
         <div className="grid grid-cols-2 gap-2">
-          {statusConfig.next && (
+          {nextStatus && (
             <button
               onClick={handleStatusUpdate}
               className={`
@@ -570,12 +649,12 @@ export const OrderCard = memo<OrderCardProps>(({
                 transition-all transform hover:scale-105 
                 active:scale-95 shadow-lg hover:shadow-xl
               `}
-              aria-label={`${ORDER_STATUS_CONFIG[statusConfig.next].label} pedido`}
+              aria-label={`${ORDER_STATUS_CONFIG[nextStatus].label} pedido`}
             >
               <div className="w-5 h-5 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
                 <span className="text-white text-xs font-bold">✓</span>
               </div>
-              {ORDER_STATUS_CONFIG[statusConfig.next].label}
+              {ORDER_STATUS_CONFIG[nextStatus].label}
             </button>
           )}
 
@@ -0,0 +1,123 @@
+/**
+ * @fileoverview Gaveta lateral com detalhes e linha do tempo do pedido
+ * @module components/orders/OrderDetailDrawer
+ */
+
+import React, { useEffect, useMemo } from 'react';
+import { Order, ORDER_STATUS_CONFIG } from '../../types';
+import { formatCurrency, formatDateTime, formatPhone } from '../../utils/formatters';
+import { buildTimeline, formatDuration } from '../../utils/orderHistory';
+
+// ==================== INTERFACES ====================
+interface OrderDetailDrawerProps {
+  order: Order;
+  onClose: () => void;
+}
+
+const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({ order, onClose }) => {
+  const timeline = useMemo(() => buildTimeline(order), [order]);
+  const statusConfig = ORDER_STATUS_CONFIG[order.status];
+
+  useEffect(() => {
+    const handleEscKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+
+    document.addEventListener('keydown', handleEscKey);
+    return () => document.removeEventListener('keydown', handleEscKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+
+      <aside
+        className="relative w-full max-w-md h-full bg-white dark:bg-gray-800 shadow-xl overflow-y-auto animate-slide-in"
+        role="dialog"
+        aria-label={`Detalhes do pedido ${order.id}`}
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white dark:bg-gray-800 border-b dark:border-gray-700 px-4 py-3 flex items-center justify-between">
+          <div>
+            <h2 className="font-bold text-lg dark:text-white">#{order.orderNumber || order.id}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {order.customer.name} · {formatPhone(order.customer.phone)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg text-gray-500 dark:text-gray-400"
+            aria-label="Fechar"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Resumo */}
+          <div className="flex items-center justify-between">
+            <span
+              className="px-3 py-1 rounded-full text-sm font-medium text-white"
+              style={{ backgroundColor: statusConfig?.color }}
+            >
+              {statusConfig?.label || order.status}
+            </span>
+            <span className="font-bold text-orange-600 dark:text-orange-400">
+              {formatCurrency(order.total)}
+            </span>
+          </div>
+
+          {/* Linha do tempo */}
+          <div>
+            <h3 className="font-semibold dark:text-white mb-3">Linha do tempo</h3>
+            <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+              {timeline.map(entry => {
+                if (entry.kind === 'message') {
+                  return (
+                    <li key={`message-${entry.message.id}`} className="ml-4">
+                      <div className="absolute -left-[7px] w-3 h-3 rounded-full bg-green-500" />
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDateTime(entry.message.timestamp)} · Mensagem ao cliente
+                      </div>
+                      <div className="mt-1 text-sm bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200 p-2 rounded-lg">
+                        {entry.message.message}
+                      </div>
+                    </li>
+                  );
+                }
+
+                const { change, durationMs, isCurrent } = entry;
+                const toConfig = ORDER_STATUS_CONFIG[change.to];
+
+                return (
+                  <li key={`status-${change.id}`} className="ml-4">
+                    <div
+                      className="absolute -left-[7px] w-3 h-3 rounded-full"
+                      style={{ backgroundColor: toConfig?.color }}
+                    />
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateTime(change.timestamp)}
+                      {change.by && ` · ${change.by}`}
+                      {change.source === 'local' && ' · neste painel'}
+                    </div>
+                    <div className="mt-1 text-sm dark:text-white">
+                      {change.from
+                        ? <>{ORDER_STATUS_CONFIG[change.from]?.label || change.from} → <strong>{toConfig?.label || change.to}</strong></>
+                        : <>Pedido criado como <strong>{toConfig?.label || change.to}</strong></>}
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {isCurrent ? 'Neste status há ' : 'Ficou neste status por '}
+                      {formatDuration(durationMs)}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default OrderDetailDrawer;
@@ -43,6 +43,11 @@ const QuickActionMenu: React.FC<QuickActionMenuProps> = ({
   }, [isOpen]);
 
   const actionIcons = {
+    history: {
+      icon: <div className="w-4 h-4 bg-gray-600 rounded-full flex items-center justify-center"><span className="text-white text-xs font-bold">H</span></div>,
+      label: 'Ver histórico',
+      separator: true
+    },
     print: {
       icon: <div className="w-4 h-4 bg-blue-500 rounded-full flex items-center justify-center"><span className="text-white text-xs font-bold">P</span></div>,
       label: 'Imprimir pedido',
@@ -85,6 +90,7 @@ const QuickActionMenu: React.FC<QuickActionMenuProps> = ({
     
     if (showToast) {
       const messages: Record<string, { msg: string, type: ToastType }> = {
+        history: { msg: 'Abrindo histórico...', type: ToastType.INFO },
         print: { msg: 'Preparando impressão...', type: ToastType.INFO },
         edit: { msg: 'Editando pedido...', type: ToastType.INFO },
         whatsapp: { msg: 'Abrindo WhatsApp...', type: ToastType.INFO },
@@ -22,8 +22,8 @@ import {
   Package
 } from 'lucide-react';
 import { Order, ORDER_STATUS_CONFIG } from '../../types';
-import { simplifyStatus } from '../../utils/statusHelpers';
 import { formatCurrency, formatDate, formatTime, formatPhone } from '../../utils/formatters';
+import { formatQuantity, formatUnitPrice, isWeighed } from '../../utils/itemUnits';
 import { useTheme } from '../../hooks/useTheme';
 
 // ==================== INTERFACES ====================
@@ -402,10 +402,10 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({
                               <span className="mr-3">{formatTime(orderItem.createdAt)}</span>
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium" 
                                 style={{
-                                  backgroundColor: `${ORDER_STATUS_CONFIG[simplifyStatus(orderItem.status)].bgColor}`,
-                                  color: ORDER_STATUS_CONFIG[simplifyStatus(orderItem.status)].color
+                                  backgroundColor: `${ORDER_STATUS_CONFIG[orderItem.status].bgColor}`,
+                                  color: ORDER_STATUS_CONFIG[orderItem.status].color
                                 }}>
-                                {ORDER_STATUS_CONFIG[simplifyStatus(orderItem.status)].label}
+                                {ORDER_STATUS_CONFIG[orderItem.status].label}
                               </span>
                             </div>
                           </div>
@@ -470,14 +470,20 @@ const PrintPreviewModal: React.FC<PrintPreviewModalProps> = ({
                                   <td className="py-3 text-sm">
                                     <div className="font-medium text-gray-900">{item.name}</div>
                                     {item.notes && <div className="text-xs text-gray-500 mt-1">Obs: {item.notes}</div>}
+                                    {isWeighed(item) && item.requestedWeight !== undefined && item.actualWeight !== undefined
+                                      && item.actualWeight !== item.requestedWeight && (
+                                      <div className="text-xs text-gray-500 mt-1">
+                                        Pedido: {formatQuantity(item.requestedWeight, item.unit)}
+                                      </div>
+                                    )}
                                   </td>
                                   <td className="py-3 text-sm text-right text-gray-900 font-medium">
-                                    {item.quantity}
+                                    {isWeighed(item) ? formatQuantity(item.quantity, item.unit) : item.quantity}
                                   </td>
                                   {options.showPrices && (
                                     <>
                                       <td className="py-3 text-sm text-right text-gray-900">
-                                        {formatCurrency(item.unitPrice)}
+                                        {formatUnitPrice(item)}
                                       </td>
                                       <td className="py-3 text-sm text-right text-gray-900 font-medium">
                                         {formatCurrency(item.totalPrice)}
@@ -1,7 +1,7 @@
 import React, { useMemo, useState } from 'react';
 import { Order, OrderStatus } from '../../types';
 import { formatCurrency } from '../../utils/formatters';
-import { simplifyStatus } from '../../utils/statusHelpers';
+import { formatQuantity, isWeighed, toKilograms } from '../../utils/itemUnits';
 
 interface StatisticsPanelProps {
   orders: Order[];
@@ -9,6 +9,8 @@ interface StatisticsPanelProps {
   onChangePeriod: (period: 'today' | 'week' | 'month') => void;
 }
 
+const IN_PROGRESS_STATUSES = [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.PREPARING];
+
 const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
   orders,
   period,
@@ -55,13 +57,13 @@ const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
     const totalRevenue = filteredOrders.reduce((sum, order) => sum + order.total, 0);
     const avgOrderValue = totalRevenue / totalOrders;
     
-    // Status counts
+    // Status counts (pendentes = ainda não ficaram prontos)
     const pendingOrders = filteredOrders.filter(
-      order => simplifyStatus(order.status) === OrderStatus.PENDING
+      order => IN_PROGRESS_STATUSES.includes(order.status)
     ).length;
 
     const readyOrders = filteredOrders.filter(
-      order => simplifyStatus(order.status) === OrderStatus.READY
+      order => order.status === OrderStatus.READY
     ).length;
     
     // Processing time (avg time from creation to delivery for completed orders)
@@ -79,20 +81,26 @@ const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
     
     const processingTime = completedWithDates > 0 ? processingTimeSum / completedWithDates : 0;
     
-    // Top products
-    const productMap = new Map<string, number>();
+    // Top products: pesados somam kg, os demais unidades; kg e unidades não
+    // se comparam, então a ordem é pelo valor vendido
+    const productMap = new Map<string, { name: string; unit: 'un' | 'kg'; quantity: number; revenue: number }>();
     
     filteredOrders.forEach(order => {
       order.items.forEach(item => {
-        const current = productMap.get(item.name) || 0;
-        productMap.set(item.name, current + item.quantity);
+        const unit = isWeighed(item) ? 'kg' : 'un';
+        const key = `${item.name}|${unit}`;
+        const current = productMap.get(key) || { name: item.name, unit, quantity: 0, revenue: 0 };
+        productMap.set(key, {
+          ...current,
+          quantity: current.quantity + toKilograms(item.quantity, item.unit),
+          revenue: current.revenue + item.totalPrice
+        });
       });
     });
     
-    const topProducts = Array.from(productMap.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([name, quantity]) => ({ name, quantity }));
+    const topProducts = Array.from(productMap.values())
+      .sort((a, b) => b.revenue - a.revenue || b.quantity - a.quantity)
+      .slice(0, 5);
     
     return {
       totalOrders,
@@ -202,7 +210,9 @@ const StatisticsPanel: React.FC<StatisticsPanelProps> = ({
               {stats.topProducts.map((product, index) => (
                 <div key={index} className="flex items-center justify-between">
                   <span className="text-gray-700 dark:text-gray-300">{product.name}</span>
-                  <span className="text-gray-900 dark:text-gray-100 font-medium">{product.quantity} un.</span>
+                  <span className="text-gray-900 dark:text-gray-100 font-medium">
+                    {formatQuantity(product.quantity, product.unit)}
+                  </span>
                 </div>
               ))}
             </div>
@@ -0,0 +1,8 @@
+// Configuração da interface do painel
+export const UI_CONFIG = {
+  // Janela para desfazer mudanças de status/exclusões antes de enviar ao backend
+  UNDO_WINDOW: 8000, // 8 segundos
+
+  // Duração padrão dos toasts
+  TOAST_DURATION: 3000 // 3 segundos
+};
@@ -0,0 +1,34 @@
+/**
+ * @fileoverview Hook para acompanhar a fase de wake-up do backend
+ * @module hooks/useBackendWakeUp
+ */
+
+import { useState, useEffect } from 'react';
+import { API_CONFIG } from '../services/api/config';
+import { useConnectionStatus } from './useConnectionStatus';
+
+export interface BackendWakeUpState {
+  isWaking: boolean;
+  elapsedSeconds: number;
+  deadlineSeconds: number;
+}
+
+export function useBackendWakeUp(): BackendWakeUpState {
+  const { wakingSince } = useConnectionStatus();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Atualizar o tempo decorrido a cada segundo enquanto o servidor acorda
+  useEffect(() => {
+    if (!wakingSince) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [wakingSince]);
+
+  return {
+    isWaking: !!wakingSince,
+    elapsedSeconds: wakingSince ? Math.max(0, Math.floor((now - new Date(wakingSince).getTime()) / 1000)) : 0,
+    deadlineSeconds: Math.round(API_CONFIG.WAKE_UP.DEADLINE / 1000)
+  };
+}
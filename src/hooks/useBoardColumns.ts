@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Hook para preferências das colunas do quadro (ordem, recolhidas, ocultas)
+ * @module hooks/useBoardColumns
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { OrderStatus, isValidOrderStatus } from '../types';
+import { DEFAULT_COLUMN_ORDER, StatusColumn, getStatusColumn } from '../utils/statusHelpers';
+
+// ==================== INTERFACES ====================
+export interface BoardColumn extends StatusColumn {
+  collapsed: boolean;
+  hidden: boolean;
+}
+
+interface BoardColumnsPreferences {
+  order: OrderStatus[];
+  collapsed: OrderStatus[];
+  hidden: OrderStatus[];
+}
+
+// ==================== CONSTANTS ====================
+const STORAGE_KEY = 'boardColumns';
+
+const DEFAULT_PREFERENCES: BoardColumnsPreferences = {
+  order: DEFAULT_COLUMN_ORDER,
+  collapsed: [],
+  hidden: []
+};
+
+// ==================== HELPERS ====================
+function loadPreferences(): BoardColumnsPreferences {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_PREFERENCES;
+
+    const parsed = JSON.parse(saved) as Partial<BoardColumnsPreferences>;
+    const savedOrder = (parsed.order || []).filter(isValidOrderStatus);
+
+    // Status novos que não estavam salvos entram no final
+    const order = [
+      ...savedOrder,
+      ...DEFAULT_COLUMN_ORDER.filter(status => !savedOrder.includes(status))
+    ];
+
+    return {
+      order,
+      collapsed: (parsed.collapsed || []).filter(isValidOrderStatus),
+      hidden: (parsed.hidden || []).filter(isValidOrderStatus)
+    };
+  } catch (error) {
+    console.warn('Preferências de colunas inválidas, usando padrão', error);
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function toggleIn(list: OrderStatus[], status: OrderStatus): OrderStatus[] {
+  return list.includes(status) ? list.filter(s => s !== status) : [...list, status];
+}
+
+// ==================== HOOK ====================
+export function useBoardColumns() {
+  const [preferences, setPreferences] = useState<BoardColumnsPreferences>(loadPreferences);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const columns = useMemo<BoardColumn[]>(() => (
+    preferences.order.map(status => ({
+      ...getStatusColumn(status),
+      collapsed: preferences.collapsed.includes(status),
+      hidden: preferences.hidden.includes(status)
+    }))
+  ), [preferences]);
+
+  const visibleColumns = useMemo(() => columns.filter(column => !column.hidden), [columns]);
+
+  const toggleCollapsed = useCallback((status: OrderStatus) => {
+    setPreferences(prev => ({ ...prev, collapsed: toggleIn(prev.collapsed, status) }));
+  }, []);
+
+  const toggleHidden = useCallback((status: OrderStatus) => {
+    setPreferences(prev => ({ ...prev, hidden: toggleIn(prev.hidden, status) }));
+  }, []);
+
+  // Move a coluna para antes (-1) ou depois (+1) da próxima coluna visível
+  const moveColumn = useCallback((status: OrderStatus, direction: -1 | 1) => {
+    setPreferences(prev => {
+      const index = prev.order.indexOf(status);
+      let target = index + direction;
+      while (target >= 0 && target < prev.order.length && prev.hidden.includes(prev.order[target])) {
+        target += direction;
+      }
+      if (index < 0 || target < 0 || target >= prev.order.length) return prev;
+
+      const order = [...prev.order];
+      [order[index], order[target]] = [order[target], order[index]];
+      return { ...prev, order };
+    });
+  }, []);
+
+  const resetColumns = useCallback(() => {
+    setPreferences(DEFAULT_PREFERENCES);
+  }, []);
+
+  return {
+    columns,
+    visibleColumns,
+    toggleCollapsed,
+    toggleHidden,
+    moveColumn,
+    resetColumns
+  };
+}
+
+export default useBoardColumns;
@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Hook para acompanhar o status do gerenciador de conexão
+ * @module hooks/useConnectionStatus
+ */
+
+import { useState, useEffect } from 'react';
+import { connectionManager } from '../services/api/client/connection';
+import { ConnectionStatus } from '../services/api/types';
+
+export function useConnectionStatus(): ConnectionStatus {
+  const [status, setStatus] = useState<ConnectionStatus>(() => connectionManager.getStatus());
+
+  useEffect(() => {
+    // O status pode ter mudado entre o render e a inscrição
+    setStatus(connectionManager.getStatus());
+    return connectionManager.subscribeToStatus(setStatus);
+  }, []);
+
+  return status;
+}
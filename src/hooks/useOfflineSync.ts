@@ -1,45 +1,677 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { indexedDBService, SyncQueueEntry } from '../services/cache/indexedDBService';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SyncQueueEntry, OrderMutationOperation, SyncEntryResult } from '../services/cache/indexedDBService';
+import { orderRepository } from '../services/persistence/orderRepository';
+import { OrdersService } from '../services/api/services/orders';
+import { normalizeOrder } from '../services/api/normalizer';
+import { screenMutationResponse } from '../services/api/orderValidation';
+import { createIdempotencyKey, idempotencyHeaders, probeIdempotencySupport } from '../services/api/client/idempotency';
+import { tabCoordinator } from '../services/api/client/tabCoordinator';
+import { SyncLogOutcome } from '../services/cache/ordersStorage';
+import { localEdits } from '../services/persistence/localEdits';
+import { Order } from '../types';
 
 export interface OfflineSyncStatus {
   isOnline: boolean;
   isSyncing: boolean;
   pendingSync: number;
+  failedSync: number;
   lastSyncAttempt?: Date;
   lastSuccessfulSync?: Date;
   syncErrors: string[];
 }
 
+// Situação de sincronização de um pedido com mutações na fila
+export type OrderSyncState = 'pending' | 'failed' | 'conflict';
+
 export interface OfflineSyncHook {
   status: OfflineSyncStatus;
+  entries: SyncQueueEntry[];
+  orderSyncStates: Record<string, OrderSyncState>;
   queueForSync: (method: string, url: string, data?: any) => Promise<string>;
+  queueOrderMutation: (
+    orderId: string,
+    operation: OrderMutationOperation,
+    data: any,
+    options?: { notBefore?: number }
+  ) => Promise<string>;
+  releaseSyncEntry: (entryId: string) => Promise<void>;
+  discardSyncEntry: (entryId: string) => Promise<void>;
   forceSyncNow: () => Promise<void>;
+  syncEntries: (entryIds: string[]) => Promise<SyncEntryResult[]>;
   clearSyncQueue: () => Promise<void>;
   retryFailedSync: (entryId: string) => Promise<void>;
+  retryOrderSync: (orderId: string) => Promise<void>;
+  discardOrderMutations: (orderId: string) => Promise<void>;
 }
 
-export function useOfflineSync(): OfflineSyncHook {
-  const [status, setStatus] = useState<OfflineSyncStatus>({
-    isOnline: navigator.onLine,
-    isSyncing: false,
-    pendingSync: 0,
-    syncErrors: []
+// ==================== FILA COMPARTILHADA ====================
+// Várias instâncias do hook (useOrders, PWAStatus) usam a mesma fila: o
+// processamento é único por aba e todas são avisadas quando ela muda.
+// A fila do IndexedDB também é a mesma em todas as abas: só a líder a
+// processa; as outras pedem a ela e são avisadas pelo tabCoordinator.
+
+type SharedSyncInfo = Pick<OfflineSyncStatus, 'isSyncing' | 'lastSyncAttempt' | 'lastSuccessfulSync' | 'syncErrors'>;
+
+let sharedInfo: SharedSyncInfo = { isSyncing: false, syncErrors: [] };
+let syncPromise: Promise<void> | null = null;
+let rerunRequested = false;
+let tabsListening = false;
+const queueListeners = new Set<() => void>();
+
+const notifyQueueListeners = () => {
+  queueListeners.forEach(listener => listener());
+};
+
+const notifyQueueChanged = () => {
+  notifyQueueListeners();
+  tabCoordinator.post({ type: 'queue-changed' });
+};
+
+const setSharedInfo = (updates: Partial<SharedSyncInfo>) => {
+  sharedInfo = { ...sharedInfo, ...updates };
+  notifyQueueChanged();
+};
+
+// ==================== RESULTADO POR ENTRADA ====================
+// Quem enfileirou (ex.: uma ação em lote) espera o resultado de cada entrada:
+// vem da rodada da aba, das mensagens do service worker ou, nas seguidoras,
+// da líder. Sem resultado no prazo, a entrada conta como ainda na fila.
+
+const ENTRY_RESULT_TIMEOUT = 30 * 1000;
+const entryWaiters = new Map<string, (result: SyncEntryResult) => void>();
+
+/**
+ * Entrega o resultado a quem espera nesta aba. A líder repassa às seguidoras
+ * o que ela mesma processou (as mensagens do service worker chegam a todas).
+ */
+const settleEntry = (result: SyncEntryResult, shareWithTabs = true) => {
+  const resolve = entryWaiters.get(result.entryId);
+  if (resolve) {
+    entryWaiters.delete(result.entryId);
+    resolve(result);
+  }
+  if (shareWithTabs && tabCoordinator.isLeader()) {
+    tabCoordinator.post({ type: 'queue-entry-result', result });
+  }
+};
+
+const waitForEntryResults = async (entryIds: string[]): Promise<SyncEntryResult[]> => {
+  if (!navigator.onLine) {
+    return entryIds.map(entryId => ({ entryId, outcome: 'queued' as const }));
+  }
+
+  // Esperas registradas antes de olhar a fila: nenhum resultado se perde
+  const results = Promise.all(entryIds.map(entryId =>
+    new Promise<SyncEntryResult>(resolve => entryWaiters.set(entryId, resolve))
+  ));
+
+  // Entradas processadas antes disso: fora da fila foram enviadas; com erro, recusadas
+  const queue = new Map((await orderRepository.getSyncQueue()).map(entry => [entry.id, entry]));
+  entryIds.forEach(entryId => {
+    const entry = queue.get(entryId);
+    if (!entry) {
+      settleEntry({ entryId, outcome: 'sent' }, false);
+    } else if (entry.lastError) {
+      settleEntry({ entryId, orderId: entry.orderId, outcome: 'failed', error: entry.lastError }, false);
+    }
+  });
+
+  const timer = setTimeout(() => {
+    entryIds
+      .filter(entryId => entryWaiters.has(entryId))
+      .forEach(entryId => settleEntry({ entryId, outcome: 'queued' }, false));
+  }, ENTRY_RESULT_TIMEOUT);
+
+  return results.finally(() => clearTimeout(timer));
+};
+
+/**
+ * Registra o reenvio no sync_log (tela de saúde dos dados).
+ * Falha ao registrar não atrapalha a fila.
+ */
+const logReplay = (
+  orderId: string | undefined,
+  entryId: string,
+  outcome: SyncLogOutcome,
+  details: Record<string, any> = {}
+) => {
+  orderRepository.logSyncEvent({
+    orderId: orderId || '*',
+    action: 'replay',
+    outcome,
+    data: { entryId, ...details }
+  }).catch(error => console.warn('Falha ao registrar no log de sincronização:', error));
+};
+
+/**
+ * Antes de reenviar uma edição, confere se o pedido mudou no servidor desde
+ * a versão em que ela foi feita. Retorna true se há conflito.
+ */
+const detectConflictBeforeReplay = async (orderId: string): Promise<boolean> => {
+  if (localEdits.hasConflict(orderId)) return true;
+
+  const edit = localEdits.get(orderId);
+  if (!edit || !localEdits.hasKnownBase(edit)) return false;
+
+  const current = await OrdersService.fetchOrder(orderId);
+  if (!current.success || !current.data) {
+    // Sem como verificar: seguir com o envio
+    console.warn(`Não foi possível verificar a versão do pedido ${orderId} antes de sincronizar`);
+    return false;
+  }
+
+  return localEdits.detect(current.data) !== null;
+};
+
+/**
+ * Entradas gravadas antes das chaves de idempotência ganham uma agora,
+ * gravada na fila para valer nos próximos reenvios
+ */
+const ensureIdempotencyKey = async (entry: SyncQueueEntry): Promise<string> => {
+  if (!entry.idempotencyKey) {
+    entry.idempotencyKey = createIdempotencyKey();
+    await orderRepository.updateSyncEntry(entry);
+  }
+  return entry.idempotencyKey;
+};
+
+const processSyncEntry = async (entry: SyncQueueEntry): Promise<Order | void> => {
+  const idempotencyKey = await ensureIdempotencyKey(entry);
+
+  // Mutações de pedido usam o OrdersService (REST com fallback para o endpoint legado)
+  if (entry.operation && entry.orderId) {
+    return OrdersService.replayMutation(entry.operation, entry.orderId, entry.data, idempotencyKey);
+  }
+
+  const options: RequestInit = {
+    method: entry.method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...idempotencyHeaders(idempotencyKey, entry.url)
+    },
+  };
+
+  if (entry.data) {
+    options.body = JSON.stringify(entry.data);
+  }
+
+  const response = await fetch(entry.url, options);
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+};
+
+const isDeferred = (entry: SyncQueueEntry) => !!entry.notBefore && entry.notBefore > Date.now();
+
+let deferredRunTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Entradas gravadas na janela de desfazer ficam na fila até o notBefore:
+ * agendar uma rodada para quando a primeira delas puder ir (inclusive as
+ * deixadas por uma sessão anterior, fechada dentro da janela)
+ */
+const scheduleDeferredRun = (queue: SyncQueueEntry[]) => {
+  const next = Math.min(...queue.filter(isDeferred).map(entry => entry.notBefore!));
+  if (!isFinite(next)) return;
+
+  if (deferredRunTimer) clearTimeout(deferredRunTimer);
+  deferredRunTimer = setTimeout(() => {
+    deferredRunTimer = null;
+    runSync();
+  }, next - Date.now());
+};
+
+/**
+ * Processa uma vez as entradas pendentes, em ordem de criação.
+ * Se uma mutação de um pedido falha, as seguintes do mesmo pedido esperam
+ * para não chegarem ao backend fora de ordem.
+ */
+const processPendingEntries = async (): Promise<{ successCount: number; errors: string[] }> => {
+  const queue = (await orderRepository.getSyncQueue()).sort((a, b) => a.timestamp - b.timestamp);
+  const blockedOrders = new Set<string>();
+  // Uma consulta ao servidor por pedido na rodada (como no service worker),
+  // não uma por entrada: 50 entradas não viram 100 requisições
+  const checkedOrders = new Set<string>();
+  const errors: string[] = [];
+  let successCount = 0;
+
+  for (let index = 0; index < queue.length; index++) {
+    const entry = queue[index];
+    if (entry.status === 'failed') {
+      if (entry.orderId) blockedOrders.add(entry.orderId);
+      settleEntry({ entryId: entry.id, orderId: entry.orderId, outcome: 'failed', error: entry.lastError });
+      continue;
+    }
+
+    if (entry.orderId && blockedOrders.has(entry.orderId)) {
+      settleEntry({ entryId: entry.id, orderId: entry.orderId, outcome: 'queued' });
+      continue;
+    }
+
+    // Ainda na janela de desfazer: ela e as seguintes do pedido esperam
+    if (isDeferred(entry)) {
+      if (entry.orderId) blockedOrders.add(entry.orderId);
+      continue;
+    }
+
+    try {
+      // Pedido em conflito: nada é enviado até o operador resolver
+      if (entry.orderId) {
+        const conflict = checkedOrders.has(entry.orderId)
+          ? localEdits.hasConflict(entry.orderId)
+          : await detectConflictBeforeReplay(entry.orderId);
+        checkedOrders.add(entry.orderId);
+
+        if (conflict) {
+          logReplay(entry.orderId, entry.id, 'conflict', { operation: entry.operation });
+          blockedOrders.add(entry.orderId);
+          settleEntry({ entryId: entry.id, orderId: entry.orderId, outcome: 'conflict' });
+          continue;
+        }
+      }
+
+      const serverOrder = await processSyncEntry(entry);
+      await orderRepository.removeSyncEntry(entry.id);
+      successCount++;
+      logReplay(entry.orderId, entry.id, 'success', { operation: entry.operation, attempt: entry.retryCount + 1 });
+      settleEntry({ entryId: entry.id, orderId: entry.orderId, outcome: 'sent' });
+
+      if (entry.orderId) {
+        const stillPending = queue.slice(index + 1).some(next => next.orderId === entry.orderId);
+        localEdits.acknowledge(entry.orderId, serverOrder || undefined, stillPending);
+      }
+    } catch (error) {
+      console.error(`Erro ao sincronizar entrada ${entry.id}:`, error);
+
+      // Incrementar retry count
+      entry.retryCount++;
+      entry.lastError = error instanceof Error ? error.message : String(error);
+
+      if (entry.retryCount >= entry.maxRetries) {
+        // Excedeu as tentativas: manter na fila como falha, aguardando nova tentativa manual
+        entry.status = 'failed';
+        errors.push(`Falha permanente: ${entry.method} ${entry.url}`);
+      } else {
+        errors.push(`Tentativa ${entry.retryCount}/${entry.maxRetries}: ${entry.method} ${entry.url}`);
+      }
+
+      await orderRepository.updateSyncEntry(entry);
+      if (entry.orderId) blockedOrders.add(entry.orderId);
+
+      logReplay(entry.orderId, entry.id, 'failure', {
+        operation: entry.operation,
+        attempt: entry.retryCount,
+        error: entry.lastError,
+        permanent: entry.status === 'failed'
+      });
+      settleEntry({ entryId: entry.id, orderId: entry.orderId, outcome: 'failed', error: entry.lastError });
+    }
+
+    notifyQueueChanged();
+  }
+
+  return { successCount, errors };
+};
+
+const processQueue = async (): Promise<void> => {
+  setSharedInfo({ isSyncing: true, lastSyncAttempt: new Date(), syncErrors: [] });
+
+  try {
+    let errors: string[] = [];
+    let successCount = 0;
+    await probeIdempotencySupport();
+
+    // Entradas adicionadas durante o processamento entram na mesma rodada
+    do {
+      rerunRequested = false;
+      const result = await processPendingEntries();
+      errors = result.errors;
+      successCount += result.successCount;
+    } while (rerunRequested && navigator.onLine);
+
+    setSharedInfo({
+      isSyncing: false,
+      syncErrors: errors,
+      ...(successCount > 0 ? { lastSuccessfulSync: new Date() } : {})
+    });
+  } catch (error) {
+    console.error('Erro durante sincronização:', error);
+    setSharedInfo({
+      isSyncing: false,
+      syncErrors: [`Erro geral de sincronização: ${error}`]
+    });
+  }
+};
+
+// ==================== SERVICE WORKER ====================
+// Com Background Sync quem reenvia a fila é o service worker (public/sw.js),
+// inclusive depois que a aba fecha. A aba registra o pedido de sincronização
+// e volta na hora: o andamento e o resultado chegam pelas mensagens que ele
+// envia, sem segurar quem pediu a sincronização.
+
+const SYNC_TAG = 'mercado-sync-queue';
+const SERVICE_WORKER_START_TIMEOUT = 5000;
+const SERVICE_WORKER_RUN_TIMEOUT = 2 * 60 * 1000;
+
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+// Rodada pedida ao service worker e ainda não terminada
+let serviceWorkerRun: { started: boolean; timers: Array<ReturnType<typeof setTimeout>> } | null = null;
+let serviceWorkerListening = false;
+let deliveredEditsSettled = false;
+// Pedidos já reavaliados após aviso de conflito do service worker nesta sessão
+const recheckedOrders = new Set<string>();
+
+const getBackgroundSync = async (): Promise<SyncRegistration | null> => {
+  if (!('serviceWorker' in navigator) || !navigator.serviceWorker.controller) return null;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncRegistration | undefined;
+    return registration?.sync ? registration : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Monta as requisições prontas (com a chave de idempotência) antes de entregar
+ * a fila ao service worker, que não lê a configuração nem o suporte detectado.
+ * Remontadas a cada rodada: o suporte ao cabeçalho pode ter mudado desde a gravação.
+ */
+const prepareEntriesForServiceWorker = async (): Promise<void> => {
+  await probeIdempotencySupport();
+  const queue = await orderRepository.getSyncQueue();
+
+  for (const entry of queue) {
+    const before = JSON.stringify([entry.idempotencyKey, entry.requests, entry.headers, entry.base]);
+
+    entry.idempotencyKey = entry.idempotencyKey || createIdempotencyKey();
+    if (entry.orderId && entry.operation) {
+      entry.requests = OrdersService.buildMutationRequests(entry.operation, entry.orderId, entry.data, entry.idempotencyKey);
+      entry.base = entry.base || localEdits.get(entry.orderId)?.base;
+    } else {
+      entry.headers = idempotencyHeaders(entry.idempotencyKey, entry.url);
+    }
+
+    if (JSON.stringify([entry.idempotencyKey, entry.requests, entry.headers, entry.base]) === before) continue;
+    await orderRepository.updateSyncEntry(entry);
+  }
+};
+
+/**
+ * Encerra a rodada do service worker. Entradas adicionadas durante ela
+ * entram em outra rodada.
+ */
+const finishServiceWorkerRun = () => {
+  if (!serviceWorkerRun) return;
+  serviceWorkerRun.timers.forEach(timer => clearTimeout(timer));
+  serviceWorkerRun = null;
+  if (rerunRequested) runSync();
+};
+
+/**
+ * Pede ao service worker uma rodada da fila sem esperar por ela.
+ * Retorna false se o Background Sync recusou: a aba processa sozinha.
+ */
+const startServiceWorkerSync = async (registration: SyncRegistration): Promise<boolean> => {
+  await prepareEntriesForServiceWorker();
+  rerunRequested = false;
+
+  try {
+    await registration.sync!.register(SYNC_TAG);
+  } catch (error) {
+    console.warn('Background Sync indisponível, sincronizando pela aba:', error);
+    return false;
+  }
+
+  const run: NonNullable<typeof serviceWorkerRun> = { started: false, timers: [] };
+  serviceWorkerRun = run;
+
+  run.timers.push(setTimeout(() => {
+    if (serviceWorkerRun !== run || run.started) return;
+    console.warn('Service worker não iniciou a sincronização, sincronizando pela aba');
+    serviceWorkerRun = null;
+    runInTab();
+  }, SERVICE_WORKER_START_TIMEOUT));
+
+  // Sem a mensagem de fim (service worker encerrado no meio), liberar a fila
+  run.timers.push(setTimeout(() => {
+    if (serviceWorkerRun !== run) return;
+    setSharedInfo({ isSyncing: false });
+    finishServiceWorkerRun();
+  }, SERVICE_WORKER_RUN_TIMEOUT));
+
+  return true;
+};
+
+/**
+ * O service worker só compara versões. Aqui a aba decide: conflito de
+ * verdade fica para o operador; senão as entradas seguem sobre a versão atual.
+ */
+const recheckOrderAfterServiceWorker = async (orderId: string): Promise<void> => {
+  if (localEdits.hasConflict(orderId) || recheckedOrders.has(orderId)) return;
+  recheckedOrders.add(orderId);
+
+  const queue = await orderRepository.getSyncQueue();
+  if (await detectConflictBeforeReplay(orderId)) {
+    queue
+      .filter(entry => entry.orderId === orderId)
+      .forEach(entry => settleEntry({ entryId: entry.id, orderId, outcome: 'conflict' }));
+    return;
+  }
+
+  const base = localEdits.get(orderId)?.base;
+  for (const entry of queue.filter(e => e.orderId === orderId)) {
+    entry.base = base;
+    await orderRepository.updateSyncEntry(entry);
+  }
+
+  runSync();
+};
+
+/**
+ * Pedido devolvido ao service worker: validado como qualquer resposta de mutação.
+ * Sem pedido no corpo ou inválido (fica na quarentena), a entrega é
+ * reconhecida sem o pedido do servidor.
+ */
+const screenServiceWorkerOrder = (raw: unknown): Order | undefined => {
+  if (!raw) return undefined;
+  try {
+    const order = screenMutationResponse(raw, 'service-worker.replay');
+    return order ? normalizeOrder(order) : undefined;
+  } catch (error) {
+    console.warn('⚠️ Pedido devolvido ao service worker descartado:', error);
+    return undefined;
+  }
+};
+
+const handleServiceWorkerMessage = (event: MessageEvent) => {
+  if (!event.data || typeof event.data !== 'object') return;
+  const { type, data } = event.data;
+
+  switch (type) {
+    case 'sync-queue-started':
+      if (serviceWorkerRun) serviceWorkerRun.started = true;
+      setSharedInfo({ isSyncing: true, lastSyncAttempt: new Date(), syncErrors: [] });
+      break;
+
+    case 'sync-queue-progress':
+      // Todas as abas recebem a mensagem: só a líder registra no log
+      if (tabCoordinator.isLeader()) {
+        logReplay(data.orderId, data.entryId, data.outcome === 'sent' ? 'success' : 'failure', {
+          via: 'service-worker',
+          error: data.error
+        });
+      }
+      if (data.orderId && data.outcome === 'sent') {
+        localEdits.acknowledge(data.orderId, screenServiceWorkerOrder(data.serverOrder), data.stillPending);
+      }
+      settleEntry({
+        entryId: data.entryId,
+        orderId: data.orderId,
+        outcome: data.outcome === 'sent' ? 'sent' : 'failed',
+        error: data.error
+      }, false);
+      notifyQueueChanged();
+      break;
+
+    case 'sync-queue-conflict':
+      if (tabCoordinator.isLeader()) {
+        logReplay(data.orderId, '*', 'conflict', { via: 'service-worker' });
+      }
+      if (!tabCoordinator.isLeader()) break;
+      recheckOrderAfterServiceWorker(data.orderId).catch(error => {
+        console.error(`Erro ao reavaliar o pedido ${data.orderId}:`, error);
+      });
+      break;
+
+    case 'sync-queue-finished':
+      // Vistas pelo service worker sem envio (atrás de outra do pedido, da aba).
+      // As em conflito esperam a reavaliação da líder
+      (data.queuedEntryIds || []).forEach((entryId: string) => {
+        settleEntry({ entryId, outcome: 'queued' }, false);
+      });
+      setSharedInfo({
+        isSyncing: false,
+        syncErrors: data.errors || [],
+        ...(data.successCount > 0 ? { lastSuccessfulSync: new Date() } : {})
+      });
+      finishServiceWorkerRun();
+      break;
+  }
+};
+
+/**
+ * Seguidoras pedem à líder para processar a fila; a aba que assume a
+ * liderança processa o que as outras deixaram
+ */
+const listenToTabs = () => {
+  if (tabsListening) return;
+  tabsListening = true;
+
+  tabCoordinator.onMessage(message => {
+    if (message.type === 'queue-changed') {
+      notifyQueueListeners();
+    } else if (message.type === 'queue-entry-result') {
+      settleEntry(message.result, false);
+    } else if (message.type === 'request-queue-sync' && tabCoordinator.isLeader()) {
+      runSync();
+    }
+  });
+  tabCoordinator.onLeadershipChange(isLeader => {
+    if (isLeader) runSync();
   });
+  tabCoordinator.start();
+};
 
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const isSyncingRef = useRef(false);
+const listenToServiceWorker = () => {
+  if (serviceWorkerListening || !('serviceWorker' in navigator)) return;
+  serviceWorkerListening = true;
+  navigator.serviceWorker.addEventListener('message', handleServiceWorkerMessage);
+};
+
+/**
+ * Edições sem nenhuma entrada na fila foram enviadas pelo service worker
+ * com a aba fechada: encerrar para não virarem conflitos falsos.
+ * Só na abertura da página, antes de qualquer edição nova.
+ */
+const settleDeliveredEdits = async (): Promise<void> => {
+  if (deliveredEditsSettled) return;
+  deliveredEditsSettled = true;
+
+  const queuedOrders = new Set((await orderRepository.getSyncQueue()).map(entry => entry.orderId));
+
+  localEdits.getEdits()
+    .filter(edit => !queuedOrders.has(edit.orderId) && !localEdits.hasConflict(edit.orderId))
+    .forEach(edit => localEdits.acknowledge(edit.orderId, undefined, false));
+};
+
+// ==================== EXECUÇÃO ====================
+
+const syncQueue = async (): Promise<void> => {
+  scheduleDeferredRun(await orderRepository.getSyncQueue());
+  const registration = await getBackgroundSync();
+  if (!registration || !await startServiceWorkerSync(registration)) {
+    await processQueue();
+  }
+};
+
+const startSync = (task: () => Promise<void>): Promise<void> => {
+  syncPromise = task().finally(() => {
+    syncPromise = null;
+  });
+  return syncPromise;
+};
+
+/**
+ * Resolve quando a aba terminou de processar ou quando o service worker
+ * recebeu o pedido (sem esperar a rodada dele). Numa seguidora, só repassa
+ * o pedido à líder; o resultado de cada entrada volta dela (syncEntries).
+ */
+const runSync = (): Promise<void> => {
+  if (!navigator.onLine) return Promise.resolve();
+
+  if (!tabCoordinator.isLeader()) {
+    tabCoordinator.post({ type: 'request-queue-sync' });
+    return Promise.resolve();
+  }
+
+  if (syncPromise || serviceWorkerRun) {
+    rerunRequested = true;
+    return syncPromise || Promise.resolve();
+  }
+
+  return startSync(syncQueue);
+};
+
+// O service worker não começou: a aba processa a fila
+const runInTab = () => {
+  if (syncPromise) {
+    rerunRequested = true;
+    return;
+  }
+  startSync(processQueue);
+};
+
+// ==================== HOOK ====================
+export function useOfflineSync(): OfflineSyncHook {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [entries, setEntries] = useState<SyncQueueEntry[]>([]);
+  const [info, setInfo] = useState<SharedSyncInfo>(sharedInfo);
+
+  const refreshEntries = useCallback(async () => {
+    try {
+      const queue = await orderRepository.getSyncQueue();
+      setEntries(queue.sort((a, b) => a.timestamp - b.timestamp));
+    } catch (error) {
+      console.error('Erro ao atualizar contagem de pending sync:', error);
+    }
+  }, []);
+
+  // Acompanhar a fila compartilhada
+  useEffect(() => {
+    const listener = () => {
+      setInfo(sharedInfo);
+      refreshEntries();
+    };
+
+    queueListeners.add(listener);
+    return () => {
+      queueListeners.delete(listener);
+    };
+  }, [refreshEntries]);
 
   // Atualizar status de conexão
   useEffect(() => {
     const updateOnlineStatus = () => {
-      setStatus(prev => ({
-        ...prev,
-        isOnline: navigator.onLine
-      }));
+      setIsOnline(navigator.onLine);
 
       // Se voltou online, tentar sincronizar
-      if (navigator.onLine && !isSyncingRef.current) {
-        triggerSync();
+      if (navigator.onLine) {
+        runSync();
       }
     };
 
@@ -52,61 +684,25 @@ export function useOfflineSync(): OfflineSyncHook {
     };
   }, []);
 
-  // Inicializar IndexedDB e contagem de pending sync
-  useEffect(() => {
-    initializeSync();
-  }, []);
-  // Configurar sync automático quando online
+  // Inicializar IndexedDB e reenviar o que ficou pendente de sessões anteriores
   useEffect(() => {
-    if (status.isOnline && status.pendingSync > 0 && !isSyncingRef.current) {
-      // Sync imediato quando volta online
-      triggerSync();
-
-      // SYNC PERIÓDICO DESABILITADO - gerenciador único controla isso
-      // Configurar sync periódico
-      // if (!syncIntervalRef.current) {
-      //   syncIntervalRef.current = setInterval(() => {
-      //     if (status.isOnline && status.pendingSync > 0 && !isSyncingRef.current) {
-      //       triggerSync();
-      //     }
-      //   }, 30000); // Tentar sync a cada 30 segundos
-      // }
-    } else if (!status.isOnline || status.pendingSync === 0) {
-      // Limpar interval quando offline ou sem pending syncs
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-    }
-
-    return () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
+    const initializeSync = async () => {
+      try {
+        await orderRepository.init();
+        // Descobre cedo se as mutações podem levar a chave de idempotência
+        if (navigator.onLine) probeIdempotencySupport();
+        listenToTabs();
+        listenToServiceWorker();
+        await settleDeliveredEdits();
+        await refreshEntries();
+        runSync();
+      } catch (error) {
+        console.error('Erro ao inicializar sync offline:', error);
       }
     };
-  }, [status.isOnline, status.pendingSync, status.isSyncing]);
-
-  const initializeSync = async () => {
-    try {
-      await indexedDBService.init();
-      await updatePendingCount();
-    } catch (error) {
-      console.error('Erro ao inicializar sync offline:', error);
-    }
-  };
 
-  const updatePendingCount = async () => {
-    try {
-      const queue = await indexedDBService.getSyncQueue();
-      setStatus(prev => ({
-        ...prev,
-        pendingSync: queue.length
-      }));
-    } catch (error) {
-      console.error('Erro ao atualizar contagem de pending sync:', error);
-    }
-  };
+    initializeSync();
+  }, [refreshEntries]);
 
   const queueForSync = useCallback(async (
     method: string,
@@ -114,157 +710,165 @@ export function useOfflineSync(): OfflineSyncHook {
     data?: any
   ): Promise<string> => {
     try {
-      const syncId = await indexedDBService.addToSyncQueue(method, url, data);
-      await updatePendingCount();
-      
+      const syncId = await orderRepository.addToSyncQueue(method, url, data);
+      notifyQueueChanged();
+
       // Se online, tentar sync imediato
-      if (status.isOnline && !isSyncingRef.current) {
-        triggerSync();
-      }
-      
+      runSync();
+
       return syncId;
     } catch (error) {
       console.error('Erro ao adicionar à fila de sync:', error);
       throw error;
     }
-  }, [status.isOnline]);
-
-  const triggerSync = useCallback(async () => {
-    if (isSyncingRef.current || !status.isOnline) {
-      return;
-    }
-
-    isSyncingRef.current = true;
-    setStatus(prev => ({
-      ...prev,
-      isSyncing: true,
-      lastSyncAttempt: new Date(),
-      syncErrors: []
-    }));
+  }, []);
 
+  const queueOrderMutation = useCallback(async (
+    orderId: string,
+    operation: OrderMutationOperation,
+    data: any,
+    options: { notBefore?: number } = {}
+  ): Promise<string> => {
     try {
-      const queue = await indexedDBService.getSyncQueue();
-      const errors: string[] = [];
-      let successCount = 0;
-
-      for (const entry of queue) {
-        try {
-          await processSyncEntry(entry);
-          await indexedDBService.removeSyncEntry(entry.id);
-          successCount++;
-        } catch (error) {
-          console.error(`Erro ao sincronizar entrada ${entry.id}:`, error);
-          
-          // Incrementar retry count
-          entry.retryCount++;
-          
-          if (entry.retryCount >= entry.maxRetries) {
-            // Remover da fila se excedeu max retries
-            await indexedDBService.removeSyncEntry(entry.id);
-            errors.push(`Falha permanente: ${entry.method} ${entry.url}`);
-          } else {
-            // Atualizar entry com novo retry count
-            await indexedDBService.updateSyncEntry(entry);
-            errors.push(`Tentativa ${entry.retryCount}/${entry.maxRetries}: ${entry.method} ${entry.url}`);
-          }
+      // Uma chave por mutação lógica, a mesma em todos os reenvios
+      const idempotencyKey = createIdempotencyKey();
+      const syncId = await orderRepository.addToSyncQueue(
+        'POST',
+        `orders/${orderId}/${operation}`,
+        data,
+        3,
+        {
+          orderId,
+          operation,
+          idempotencyKey,
+          requests: OrdersService.buildMutationRequests(operation, orderId, data, idempotencyKey),
+          base: localEdits.get(orderId)?.base,
+          notBefore: options.notBefore
         }
-      }
+      );
+      notifyQueueChanged();
 
-      const finalStatus: Partial<OfflineSyncStatus> = {
-        isSyncing: false,
-        syncErrors: errors
-      };
-
-      if (successCount > 0) {
-        finalStatus.lastSuccessfulSync = new Date();
-      }
-
-      setStatus(prev => ({
-        ...prev,
-        ...finalStatus
-      }));
-
-      await updatePendingCount();
+      // Se online, tentar sync imediato
+      runSync();
 
+      return syncId;
     } catch (error) {
-      console.error('Erro durante sincronização:', error);
-      setStatus(prev => ({
-        ...prev,
-        isSyncing: false,
-        syncErrors: [`Erro geral de sincronização: ${error}`]
-      }));
-    } finally {
-      isSyncingRef.current = false;
+      console.error('Erro ao adicionar mutação do pedido à fila de sync:', error);
+      throw error;
     }
-  }, [status.isOnline]);
-
-  const processSyncEntry = async (entry: SyncQueueEntry): Promise<void> => {
-    const options: RequestInit = {
-      method: entry.method,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    };
+  }, []);
 
-    if (entry.data) {
-      options.body = JSON.stringify(entry.data);
-    }
+  const forceSyncNow = useCallback(async (): Promise<void> => {
+    await runSync();
+  }, []);
 
-    const response = await fetch(entry.url, options);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+  // Fim da janela de desfazer: a entrada pode ser enviada já
+  const releaseSyncEntry = useCallback(async (entryId: string): Promise<void> => {
+    const entry = (await orderRepository.getSyncQueue()).find(e => e.id === entryId);
+    if (!entry || entry.notBefore === undefined) return;
 
-    // Aqui você pode processar a resposta se necessário
-    return response.json();
-  };
+    delete entry.notBefore;
+    await orderRepository.updateSyncEntry(entry);
+    notifyQueueChanged();
+  }, []);
 
-  const forceSyncNow = useCallback(async (): Promise<void> => {
-    await triggerSync();
-  }, [triggerSync]);
+  // Alteração desfeita antes de ser enviada
+  const discardSyncEntry = useCallback(async (entryId: string): Promise<void> => {
+    await orderRepository.removeSyncEntry(entryId);
+    notifyQueueChanged();
+  }, []);
+
+  // Sincroniza e espera o resultado de cada entrada (da aba, do service worker ou da líder)
+  const syncEntries = useCallback(async (entryIds: string[]): Promise<SyncEntryResult[]> => {
+    const results = waitForEntryResults(entryIds);
+    runSync();
+    return results;
+  }, []);
 
   const clearSyncQueue = useCallback(async (): Promise<void> => {
     try {
-      const queue = await indexedDBService.getSyncQueue();
+      const queue = await orderRepository.getSyncQueue();
       for (const entry of queue) {
-        await indexedDBService.removeSyncEntry(entry.id);
+        await orderRepository.removeSyncEntry(entry.id);
       }
-      await updatePendingCount();
-      setStatus(prev => ({
-        ...prev,
-        syncErrors: []
-      }));
+      setSharedInfo({ syncErrors: [] });
     } catch (error) {
       console.error('Erro ao limpar fila de sync:', error);
       throw error;
     }
   }, []);
 
+  const resetEntries = async (shouldReset: (entry: SyncQueueEntry) => boolean) => {
+    const queue = await orderRepository.getSyncQueue();
+
+    for (const entry of queue.filter(shouldReset)) {
+      entry.retryCount = 0; // Reset retry count
+      entry.status = 'pending';
+      await orderRepository.updateSyncEntry(entry);
+    }
+
+    notifyQueueChanged();
+    await runSync();
+  };
+
   const retryFailedSync = useCallback(async (entryId: string): Promise<void> => {
     try {
-      const queue = await indexedDBService.getSyncQueue();
-      const entry = queue.find(e => e.id === entryId);
-      
-      if (entry) {
-        entry.retryCount = 0; // Reset retry count
-        await indexedDBService.updateSyncEntry(entry);
-        
-        if (status.isOnline) {
-          await triggerSync();
-        }
-      }
+      await resetEntries(entry => entry.id === entryId);
     } catch (error) {
       console.error('Erro ao retentar sync:', error);
       throw error;
     }
-  }, [status.isOnline, triggerSync]);
+  }, []);
+
+  const retryOrderSync = useCallback(async (orderId: string): Promise<void> => {
+    try {
+      await resetEntries(entry => entry.orderId === orderId);
+    } catch (error) {
+      console.error('Erro ao retentar sync do pedido:', error);
+      throw error;
+    }
+  }, []);
+
+  // Usado ao resolver um conflito: as mutações antigas do pedido são substituídas
+  const discardOrderMutations = useCallback(async (orderId: string): Promise<void> => {
+    const queue = await orderRepository.getSyncQueue();
+    for (const entry of queue.filter(e => e.orderId === orderId)) {
+      await orderRepository.removeSyncEntry(entry.id);
+    }
+    notifyQueueChanged();
+  }, []);
+
+  // Pedido com qualquer entrada em falha aparece como falha; senão, pendente
+  const orderSyncStates = useMemo(() => {
+    return entries.reduce((acc, entry) => {
+      if (!entry.orderId) return acc;
+      if (entry.status === 'failed' || acc[entry.orderId] !== 'failed') {
+        acc[entry.orderId] = entry.status === 'failed' ? 'failed' : 'pending';
+      }
+      return acc;
+    }, {} as Record<string, OrderSyncState>);
+  }, [entries]);
+
+  const status: OfflineSyncStatus = {
+    ...info,
+    isOnline,
+    pendingSync: entries.filter(entry => entry.status !== 'failed').length,
+    failedSync: entries.filter(entry => entry.status === 'failed').length
+  };
 
   return {
     status,
+    entries,
+    orderSyncStates,
     queueForSync,
+    queueOrderMutation,
+    releaseSyncEntry,
+    discardSyncEntry,
     forceSyncNow,
+    syncEntries,
     clearSyncQueue,
-    retryFailedSync
+    retryFailedSync,
+    retryOrderSync,
+    discardOrderMutations
   };
 }
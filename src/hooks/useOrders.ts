@@ -3,20 +3,62 @@
  * @module hooks/useOrders
  */
 
-import { useReducer, useCallback, useEffect, useMemo, useState } from 'react';
+import { useReducer, useCallback, useEffect, useMemo, useState, useRef } from 'react';
 import {
   Order,
   OrderStatus,
   OrderAction,
   OrdersState,
   OrderItem,
-  SearchFilters
+  SearchFilters,
+  BatchOperationResult,
+  SocketEvent
 } from '../types';
 import { connectionManager } from '../services/api/client/connection';
 import { OrdersService } from '../services/api/services/orders';
-import { SyncResult } from '../services/api/types';
-import { localPersistence } from '../services/persistence/localPersistence';
+import { SyncResult, SyncContext } from '../services/api/types';
+import { applyOrdersDelta } from '../services/api/client/delta';
+import { orderRepository } from '../services/persistence/orderRepository';
+import { OrderMutationOperation } from '../services/cache/indexedDBService';
+import { statusOverlay, StatusOverlayEntry } from '../services/persistence/statusOverlay';
+import { localEdits, LocalEdit, OrderConflict } from '../services/persistence/localEdits';
 import { mockOrders } from '../mocks/ordersMock';
+import { validateTransition } from '../utils/statusHelpers';
+import { createLocalStatusChange, mergeStatusHistory } from '../utils/orderHistory';
+import { ConflictChoice, diffConflictFields, mergeConflictingOrders } from '../utils/orderConflicts';
+import { orderTotals } from '../utils/itemUnits';
+import { useOfflineSync, OrderSyncState } from './useOfflineSync';
+
+// ==================== INTERFACES ====================
+export interface MutationOptions {
+  // Tempo (ms) em que a alteração pode ser desfeita antes de ir para o backend
+  undoWindowMs?: number;
+}
+
+interface QueuedMutation {
+  orderId: string;
+  operation: OrderMutationOperation;
+  data: any;
+}
+
+interface PendingCommit {
+  previousOrder: Order;
+  previousIndex: number;
+  previousOverlay?: StatusOverlayEntry;
+  // Entrada já gravada na fila (adiada até o fim da janela) e a edição local anterior
+  entryId?: string;
+  previousEdit?: LocalEdit;
+  timer: ReturnType<typeof setTimeout>;
+  commit: () => Promise<void>;
+}
+
+// Entrada da fila adiada até o fim da janela de desfazer (sem janela, vai já)
+const deferUntil = (undoWindowMs: number) =>
+  undoWindowMs > 0 ? { notBefore: Date.now() + undoWindowMs } : {};
+
+// Eventos de criação podem trazer só parte do pedido; nesse caso buscamos o pedido inteiro
+const isCompleteOrder = (data: Partial<Order>): data is Order =>
+  !!data.customer && Array.isArray(data.items) && !!data.createdAt;
 
 // ==================== INITIAL STATE ====================
 const initialState: OrdersState = {
@@ -90,7 +132,12 @@ function ordersReducer(state: OrdersState, action: OrderAction): OrdersState {
         ...state,
         orders: state.orders.map(order =>
           ids.includes(order.id)
-            ? { ...order, status, updatedAt }
+            ? {
+                ...order,
+                status,
+                updatedAt,
+                statusHistory: [...(order.statusHistory || []), createLocalStatusChange(order.status, status)]
+              }
             : order
         ),
         lastUpdate: updatedAt
@@ -102,28 +149,173 @@ function ordersReducer(state: OrdersState, action: OrderAction): OrdersState {
   }
 }
 
+// Gravação em segundo plano no repositório (a UI já foi atualizada)
+const persistOrders = (orders: Order[]) => {
+  orderRepository.saveAll(orders).catch(error => {
+    console.error('❌ Erro ao salvar pedidos:', error);
+  });
+};
+
+// Pedidos de demonstração e criados localmente não existem no backend
+const isBackendOrder = (orderId: string) =>
+  !orderId.startsWith('mock-') && !orderId.startsWith('local-');
+
 // ==================== MAIN HOOK ====================
 export function useOrders() {
   const [state, dispatch] = useReducer(ordersReducer, initialState);
   const [usingMockData, setUsingMockData] = useState(
     localStorage.getItem('usingDemoData') === 'true'
   );
+
+  // Estado atual acessível dentro do callback de sincronização (registrado uma vez)
+  const ordersRef = useRef<Order[]>(state.orders);
+  ordersRef.current = state.orders;
+
+  // Alterações aguardando a janela de "Desfazer" antes de irem para o backend (por pedido)
+  const pendingCommits = useRef(new Map<string, PendingCommit>());
+
+  // Fila persistente: toda mutação vai para o IndexedDB e é reenviada até o backend aceitar
+  const {
+    entries: syncQueueEntries,
+    orderSyncStates,
+    queueOrderMutation,
+    releaseSyncEntry,
+    discardSyncEntry,
+    forceSyncNow,
+    syncEntries,
+    retryOrderSync,
+    discardOrderMutations
+  } = useOfflineSync();
+
+  // Exclusões ainda não enviadas: a sincronização não traz o pedido de volta.
+  // As da fila valem também para o que outras abas ou sessões excluíram;
+  // deletingRef cobre o intervalo até a fila ser relida
+  const deletingRef = useRef(new Set<string>());
+  const queuedDeletesRef = useRef(new Set<string>());
+  queuedDeletesRef.current = new Set(
+    syncQueueEntries.filter(entry => entry.operation === 'delete' && entry.orderId).map(entry => entry.orderId!)
+  );
+
+  // Pedidos que o servidor alterou enquanto havia edição local pendente
+  const [conflicts, setConflicts] = useState<OrderConflict[]>(() => localEdits.getConflicts());
+
+  useEffect(() => {
+    return localEdits.subscribe(() => setConflicts(localEdits.getConflicts()));
+  }, []);
+
+  /**
+   * Enfileira as mutações, processa a fila e informa o resultado por pedido,
+   * esperando o resultado de cada entrada (da aba, do service worker ou da
+   * aba líder). As que continuam na fila sem resposta contam como pendentes.
+   */
+  const enqueueMutations = useCallback(async (mutations: QueuedMutation[]): Promise<BatchOperationResult> => {
+    const result: BatchOperationResult = { succeeded: [], failed: [], queued: [] };
+    const queued: Array<{ orderId: string; entryId: string }> = [];
+
+    for (const mutation of mutations) {
+      if (!isBackendOrder(mutation.orderId)) {
+        result.succeeded.push(mutation.orderId);
+        continue;
+      }
+
+      try {
+        const entryId = await queueOrderMutation(mutation.orderId, mutation.operation, mutation.data);
+        queued.push({ orderId: mutation.orderId, entryId });
+      } catch (error) {
+        result.failed.push({
+          orderId: mutation.orderId,
+          error: error instanceof Error ? error.message : 'Erro ao enfileirar alteração'
+        });
+      }
+    }
+
+    if (queued.length === 0) return result;
+
+    const entryResults = await syncEntries(queued.map(({ entryId }) => entryId));
+
+    queued.forEach(({ orderId }, index) => {
+      const { outcome, error } = entryResults[index];
+      if (outcome === 'sent') {
+        result.succeeded.push(orderId);
+      } else if (outcome === 'queued') {
+        result.queued.push(orderId);
+      } else {
+        result.failed.push({
+          orderId,
+          error: outcome === 'conflict'
+            ? 'Alterado localmente, em conflito com o servidor'
+            : `Alterado localmente, falha no servidor: ${error || 'erro desconhecido'}`
+        });
+      }
+    });
+
+    return result;
+  }, [queueOrderMutation, syncEntries]);
+
+  // Reaplica sobre os dados da API o que só existe localmente (status detalhado,
+  // histórico e edições ainda não confirmadas) e detecta conflitos de versão
+  const reconcileWithLocal = useCallback((serverOrders: Order[]): Order[] => {
+    const localById = new Map(ordersRef.current.map(order => [order.id, order]));
+    const apiOrders = serverOrders.filter(order =>
+      !deletingRef.current.has(order.id) && !queuedDeletesRef.current.has(order.id)
+    );
+
+    return statusOverlay.apply(apiOrders).map((order, index) => {
+      const local = localById.get(order.id);
+
+      // Em conflito: continuar mostrando a versão local até o operador decidir
+      const conflict = localEdits.detect(apiOrders[index]);
+      if (conflict) return local || conflict.local;
+
+      let reconciled = order;
+      const edit = localEdits.get(order.id);
+      if (edit && (edit.fields.includes('items') || edit.fields.includes('prices'))) {
+        reconciled = {
+          ...order,
+          items: edit.local.items,
+          subtotal: edit.local.subtotal,
+          total: edit.local.total
+        };
+      }
+
+      if (!local?.statusHistory?.length) return reconciled;
+
+      return {
+        ...reconciled,
+        statusHistory: mergeStatusHistory(reconciled.statusHistory, local.statusHistory)
+      };
+    });
+  }, []);
   
   // ==================== INICIALIZAÇÃO ====================
   useEffect(() => {
     dispatch({ type: 'SET_LOADING', payload: true });
     
-    // 1. Carregar dados locais imediatamente
-    const cachedOrders = localPersistence.loadOrders();
-    if (cachedOrders.length > 0) {
-      dispatch({ type: 'SET_ORDERS', payload: cachedOrders });
-      console.log(`⚡ ${cachedOrders.length} pedidos carregados do cache`);
-    }
+    // 1. Carregar dados locais (sem sobrescrever dados da API que cheguem antes)
+    orderRepository.getAll()
+      .then(cachedOrders => {
+        if (cachedOrders.length > 0 && ordersRef.current.length === 0) {
+          dispatch({ type: 'SET_ORDERS', payload: cachedOrders });
+          console.log(`⚡ ${cachedOrders.length} pedidos carregados do cache`);
+        }
+      })
+      .catch(error => console.error('❌ Erro ao carregar pedidos salvos:', error));
     
     // 2. Configurar função de sincronização no gerenciador de conexões
-    connectionManager.setSyncFunction(async () => {
+    connectionManager.setSyncFunction(async (context: SyncContext) => {
+      // Incremental: só o que mudou desde a última sincronização
+      if (context.mode === 'delta' && localStorage.getItem('usingDemoData') !== 'true') {
+        try {
+          const delta = await OrdersService.fetchOrdersDelta(context.since, context.cursor);
+          if (delta) return delta;
+        } catch (deltaError) {
+          console.warn('⚠️ Sincronização incremental falhou, fazendo a completa:', deltaError);
+        }
+      }
+      
       try {
-        // Primeiro tenta com o adaptador completo (que provou ser mais confiável)
+        // Primeiro tenta com o adaptador completo (que tenta mais endpoints);
+        // os dois caminhos normalizam os pedidos do mesmo jeito
         try {
           // Importação dinâmica segura do módulo de API
           const apiModule = await import('../services/api');
@@ -182,8 +374,34 @@ export function useOrders() {
       }
     });
 
+    // Sincronização incremental: mesclar por id e remover os excluídos no servidor
+    const applyDelta = (changed: Order[], deletedIds: string[]) => {
+      if (changed.length === 0 && deletedIds.length === 0) return;
+      
+      const reconciled = reconcileWithLocal(changed);
+      const merged = applyOrdersDelta(ordersRef.current, reconciled, deletedIds);
+      dispatch({ type: 'SET_ORDERS', payload: merged });
+      
+      reconciled.forEach(order => {
+        orderRepository.save(order).catch(error => console.error('❌ Erro ao salvar pedido:', error));
+      });
+      deletedIds.forEach(orderId => {
+        statusOverlay.clear(orderId);
+        orderRepository.remove(orderId).catch(error => console.error('❌ Erro ao remover pedido:', error));
+      });
+      
+      if (localStorage.getItem('usingDemoData') !== 'true') {
+        forceSyncNow();
+      }
+    };
+
     // 3. Subscrever ao gerenciador para receber dados frescos
     const unsubscribe = connectionManager.subscribeToData((result: SyncResult) => {
+      if (result.success && result.mode === 'delta') {
+        applyDelta(result.data || [], result.deletedIds || []);
+        return;
+      }
+      
       if (result.success && result.data) {
         // Verificar explicitamente se os dados são um array
         if (Array.isArray(result.data)) {
@@ -218,8 +436,15 @@ export function useOrders() {
             })));
           }
           
-          dispatch({ type: 'SET_ORDERS', payload: result.data });
-          localPersistence.saveOrders(result.data);
+          // Reaplicar CONFIRMED/READY que o backend não consegue representar
+          const reconciledOrders = reconcileWithLocal(result.data);
+          dispatch({ type: 'SET_ORDERS', payload: reconciledOrders });
+          persistOrders(reconciledOrders);
+
+          // Backend respondeu: aproveitar para reenviar o que está na fila
+          if (localStorage.getItem('usingDemoData') !== 'true') {
+            forceSyncNow();
+          }
         } else {
           console.error('❌ Dados recebidos não são um array:', result.data);
           // Tentar recuperar se possível
@@ -228,9 +453,9 @@ export function useOrders() {
             for (const key of ['data', 'orders', 'results', 'items', 'pedidos']) {
               if (result.data[key] && Array.isArray(result.data[key])) {
                 console.log(`🔄 Extraindo dados da propriedade ${key}`);
-                const extractedData = result.data[key];
+                const extractedData = reconcileWithLocal(result.data[key]);
                 dispatch({ type: 'SET_ORDERS', payload: extractedData });
-                localPersistence.saveOrders(extractedData);
+                persistOrders(extractedData);
                 break;
               }
             }
@@ -240,12 +465,63 @@ export function useOrders() {
     });
     
     // 4. Iniciar a primeira sincronização
-    connectionManager.forceSync().finally(() => {
+    connectionManager.forceSync({ full: true }).finally(() => {
       dispatch({ type: 'SET_LOADING', payload: false });
     });
 
-    return unsubscribe;
-  }, []); // Roda apenas uma vez!
+    // 5. Eventos de tempo real: aplicar direto no estado, sem esperar o polling
+    const applyServerOrder = (serverOrder: Order) => {
+      const [reconciled] = reconcileWithLocal([serverOrder]);
+      if (!reconciled) return;
+      
+      if (ordersRef.current.some(order => order.id === reconciled.id)) {
+        dispatch({ type: 'UPDATE_ORDER', payload: { id: reconciled.id, updates: reconciled } });
+      } else {
+        dispatch({ type: 'ADD_ORDER', payload: reconciled });
+      }
+      orderRepository.save(reconciled).catch(error => console.error('❌ Erro ao salvar pedido:', error));
+    };
+    
+    const unsubscribeEvents = connectionManager.subscribeToEvents((event: SocketEvent) => {
+      const current = ordersRef.current.find(order => order.id === event.orderId);
+      
+      if (event.type === 'order_deleted') {
+        if (!current) return;
+        dispatch({ type: 'DELETE_ORDER', payload: event.orderId });
+        statusOverlay.clear(event.orderId);
+        orderRepository.remove(event.orderId).catch(error => console.error('❌ Erro ao remover pedido:', error));
+        return;
+      }
+      
+      // Os dados do evento já chegam validados e normalizados (ver parseSocketEvent)
+      if (isCompleteOrder(event.data)) {
+        applyServerOrder({ ...event.data, id: event.orderId });
+        return;
+      }
+      
+      if (current && event.data.status) {
+        applyServerOrder({ ...current, status: event.data.status });
+        return;
+      }
+      
+      // Pedido que ainda não conhecemos, ou evento sem o pedido inteiro.
+      // Só a líder busca; as seguidoras recebem dela o evento com o pedido.
+      // Offline ou com o circuito aberto a busca falha: o polling traz o pedido depois
+      if (!connectionManager.isLeader()) return;
+      OrdersService.fetchOrder(event.orderId)
+        .then(result => {
+          if (!result.success || !result.data) return;
+          applyServerOrder(result.data);
+          connectionManager.shareEvent({ ...event, data: result.data });
+        })
+        .catch(error => console.warn(`⚠️ Não foi possível buscar o pedido ${event.orderId}:`, error));
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeEvents();
+    };
+  }, [forceSyncNow, reconcileWithLocal]); // Estáveis (useCallback sem dependências): roda uma vez só
 
   // ==================== ACTIONS ====================
 
@@ -254,7 +530,7 @@ export function useOrders() {
     dispatch({ type: 'SET_LOADING', payload: true });
     
     try {
-      const result = await connectionManager.forceSync();
+      const result = await connectionManager.forceSync({ full: true });
       
       if (result.error) {
         dispatch({ type: 'SET_ERROR', payload: result.error });
@@ -269,13 +545,93 @@ export function useOrders() {
     }
   }, []);
 
+  // Envia alteração pendente ao backend (ou imediatamente, sem janela de desfazer)
+  const scheduleCommit = useCallback((
+    orderId: string,
+    snapshot: Omit<PendingCommit, 'timer' | 'commit'>,
+    commit: () => Promise<void>,
+    delayMs: number
+  ) => {
+    // Só a última alteração de cada pedido pode ser desfeita: a anterior segue agora
+    const existing = pendingCommits.current.get(orderId);
+    if (existing) {
+      clearTimeout(existing.timer);
+      pendingCommits.current.delete(orderId);
+      existing.commit();
+    }
+
+    if (delayMs <= 0) {
+      commit();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      pendingCommits.current.delete(orderId);
+      commit();
+    }, delayMs);
+
+    pendingCommits.current.set(orderId, { ...snapshot, timer, commit });
+  }, []);
+
+  // Fim da janela de desfazer: liberar a entrada já gravada na fila e enviar
+  const sendQueuedEntry = useCallback(async (entryId: string, pendingMessage: string) => {
+    await releaseSyncEntry(entryId);
+    const [result] = await syncEntries([entryId]);
+    if (result.outcome !== 'sent') {
+      console.warn(`${pendingMessage}, aguardando sincronização:`, result.error || result.outcome);
+    }
+  }, [releaseSyncEntry, syncEntries]);
+
+  // Ao sair da página: as alterações já estão na fila persistente (saem quando
+  // a janela acabar, nesta ou na próxima sessão); tentar liberá-las já
+  useEffect(() => {
+    const flushPendingCommits = () => {
+      pendingCommits.current.forEach(pending => {
+        clearTimeout(pending.timer);
+        pending.commit();
+      });
+      pendingCommits.current.clear();
+    };
+
+    window.addEventListener('beforeunload', flushPendingCommits);
+    return () => {
+      window.removeEventListener('beforeunload', flushPendingCommits);
+      flushPendingCommits();
+    };
+  }, []);
+
   // Atualizar status do pedido
-  const updateOrderStatus = useCallback(async (orderId: string, newStatus: OrderStatus): Promise<boolean> => {
+  const updateOrderStatus = useCallback(async (
+    orderId: string,
+    newStatus: OrderStatus,
+    options: MutationOptions = {}
+  ): Promise<boolean> => {
+    const currentIndex = state.orders.findIndex(order => order.id === orderId);
+    const currentOrder = state.orders[currentIndex];
+    if (!currentOrder) {
+      console.warn(`Pedido ${orderId} não encontrado para atualizar status`);
+      return false;
+    }
+
+    const validation = validateTransition(currentOrder.status, newStatus);
+    if (!validation.valid) {
+      console.warn(`Transição recusada para o pedido ${orderId}: ${validation.reason}`);
+      return false;
+    }
+
     try {
+      const previousOverlay = statusOverlay.get(orderId);
+
       // Atualização otimista
+      const statusChange = createLocalStatusChange(currentOrder.status, newStatus);
       const updatedOrders = state.orders.map(order =>
         order.id === orderId
-          ? { ...order, status: newStatus, updatedAt: new Date() }
+          ? {
+              ...order,
+              status: newStatus,
+              updatedAt: new Date(),
+              statusHistory: [...(order.statusHistory || []), statusChange]
+            }
           : order
       );
 
@@ -284,21 +640,34 @@ export function useOrders() {
         payload: updatedOrders
       });
 
-      // Persistir localmente
-      localPersistence.saveOrders(updatedOrders);
+      // Persistir localmente (inclusive o status detalhado, que o backend não guarda)
+      persistOrders(updatedOrders);
+      statusOverlay.record(orderId, newStatus);
 
-      // Tentar comunicar ao backend (opcional)
-      try {
-        const response = await OrdersService.updateOrderStatus(orderId, newStatus);
-        if (!response.success) {
-          throw new Error(response.error?.message || 'Erro ao atualizar status com OrdersService');
-        }
-      } catch (err) {
-        console.warn('Falha ao enviar status para API, mantendo versão local', err);
+      // Gravar já na fila persistente, adiada até o fim da janela de desfazer:
+      // fechar a página dentro da janela não perde a alteração
+      const undoWindowMs = options.undoWindowMs || 0;
+      const previousEdit = localEdits.get(orderId);
+      let entryId: string | undefined;
+      if (isBackendOrder(orderId)) {
+        // Registrar a versão do servidor sobre a qual a alteração foi feita
+        localEdits.record(updatedOrders[currentIndex], ['status']);
+        entryId = await queueOrderMutation(orderId, 'updateStatus', { status: newStatus }, deferUntil(undoWindowMs));
       }
 
-      // Buscar novos pedidos quando possível
-      connectionManager.forceSync();
+      const commit = async () => {
+        if (entryId) await sendQueuedEntry(entryId, 'Status mantido localmente');
+
+        // Buscar novos pedidos quando possível
+        connectionManager.forceSync();
+      };
+
+      scheduleCommit(
+        orderId,
+        { previousOrder: currentOrder, previousIndex: currentIndex, previousOverlay, entryId, previousEdit },
+        commit,
+        undoWindowMs
+      );
 
       return true;
     } catch (error) {
@@ -308,7 +677,131 @@ export function useOrders() {
       });
       return false;
     }
-  }, [state.orders]);
+  }, [state.orders, scheduleCommit, queueOrderMutation, sendQueuedEntry]);
+
+  // Desfazer a última alteração ainda não enviada de um pedido
+  const undoLastChange = useCallback((orderId: string): boolean => {
+    const pending = pendingCommits.current.get(orderId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timer);
+    pendingCommits.current.delete(orderId);
+
+    // A alteração não chegou a ser enviada: sai da fila
+    if (pending.entryId) {
+      discardSyncEntry(pending.entryId).catch(error => console.error('❌ Erro ao desfazer na fila:', error));
+      localEdits.restore(orderId, pending.previousEdit);
+    }
+    deletingRef.current.delete(orderId);
+
+    // Restaurar exatamente o pedido anterior (reinserindo se foi excluído)
+    const current = ordersRef.current;
+    const index = current.findIndex(order => order.id === orderId);
+    const restoredOrders = [...current];
+    if (index !== -1) {
+      restoredOrders[index] = pending.previousOrder;
+    } else {
+      restoredOrders.splice(Math.min(pending.previousIndex, restoredOrders.length), 0, pending.previousOrder);
+    }
+
+    dispatch({ type: 'SET_ORDERS', payload: restoredOrders });
+    persistOrders(restoredOrders);
+
+    if (pending.previousOverlay) {
+      statusOverlay.record(orderId, pending.previousOverlay.status);
+    } else {
+      statusOverlay.clear(orderId);
+    }
+
+    return true;
+  }, [discardSyncEntry]);
+
+  // Atualizar status de vários pedidos (uma requisição por pedido)
+  const batchUpdateStatus = useCallback(async (
+    orderIds: string[],
+    newStatus: OrderStatus
+  ): Promise<BatchOperationResult> => {
+    const result: BatchOperationResult = { succeeded: [], failed: [], queued: [] };
+    const validIds: string[] = [];
+
+    for (const orderId of orderIds) {
+      const order = state.orders.find(o => o.id === orderId);
+      if (!order) {
+        result.failed.push({ orderId, error: 'Pedido não encontrado' });
+        continue;
+      }
+
+      const validation = validateTransition(order.status, newStatus);
+      if (!validation.valid) {
+        result.failed.push({ orderId, error: validation.reason || 'Transição não permitida' });
+        continue;
+      }
+
+      validIds.push(orderId);
+    }
+
+    if (validIds.length === 0) return result;
+
+    // Atualização otimista de todos os pedidos válidos
+    dispatch({ type: 'BATCH_UPDATE_STATUS', payload: { ids: validIds, status: newStatus } });
+    validIds.forEach(orderId => {
+      statusOverlay.record(orderId, newStatus);
+
+      const order = state.orders.find(o => o.id === orderId)!;
+      if (isBackendOrder(orderId)) {
+        localEdits.record({ ...order, status: newStatus }, ['status']);
+      }
+    });
+
+    // Uma entrada na fila (e uma requisição) por pedido
+    const queueResult = await enqueueMutations(
+      validIds.map(orderId => ({ orderId, operation: 'updateStatus' as const, data: { status: newStatus } }))
+    );
+    result.succeeded.push(...queueResult.succeeded);
+    result.failed.push(...queueResult.failed);
+    result.queued.push(...queueResult.queued);
+
+    persistOrders(ordersRef.current);
+    connectionManager.forceSync();
+
+    return result;
+  }, [state.orders, enqueueMutations]);
+
+  // Atualizar etiquetas/responsável de vários pedidos (uma requisição por pedido)
+  const batchUpdateOrders = useCallback(async (
+    orderIds: string[],
+    buildUpdates: (order: Order) => Partial<Pick<Order, 'tags' | 'assignedTo'>>
+  ): Promise<BatchOperationResult> => {
+    const result: BatchOperationResult = { succeeded: [], failed: [], queued: [] };
+    const updatesById = new Map<string, Partial<Pick<Order, 'tags' | 'assignedTo'>>>();
+
+    for (const orderId of orderIds) {
+      const order = state.orders.find(o => o.id === orderId);
+      if (!order) {
+        result.failed.push({ orderId, error: 'Pedido não encontrado' });
+        continue;
+      }
+
+      const updates = buildUpdates(order);
+      updatesById.set(orderId, updates);
+      dispatch({ type: 'UPDATE_ORDER', payload: { id: orderId, updates } });
+    }
+
+    const queueResult = await enqueueMutations(
+      Array.from(updatesById.entries()).map(([orderId, updates]) => ({
+        orderId,
+        operation: 'updateFields' as const,
+        data: updates
+      }))
+    );
+    result.succeeded.push(...queueResult.succeeded);
+    result.failed.push(...queueResult.failed);
+    result.queued.push(...queueResult.queued);
+
+    persistOrders(ordersRef.current);
+
+    return result;
+  }, [state.orders, enqueueMutations]);
 
   // Atualizar pedido completo
   const updateOrder = useCallback(async (orderId: string, updates: {items: OrderItem[]}): Promise<boolean> => {
@@ -316,7 +809,7 @@ export function useOrders() {
       // Atualização otimista e persistência local
       const updatedOrders = state.orders.map(order =>
         order.id === orderId
-          ? { ...order, ...updates, updatedAt: new Date() }
+          ? { ...order, ...updates, ...orderTotals(order, updates.items), updatedAt: new Date() }
           : order
       );
 
@@ -325,16 +818,19 @@ export function useOrders() {
         payload: updatedOrders
       });
 
-      localPersistence.saveOrders(updatedOrders);
+      persistOrders(updatedOrders);
 
-      // Tentativa opcional de enviar alterações para API
-      try {
-        const response = await OrdersService.updateOrderItems(orderId, updates.items);
-        if (!response.success) {
-          throw new Error(response.error?.message || 'Erro ao atualizar pedido com OrdersService');
-        }
-      } catch (err) {
-        console.warn('Falha ao enviar atualização de itens, mantendo versão local', err);
+      const updatedOrder = updatedOrders.find(order => order.id === orderId);
+      if (updatedOrder && isBackendOrder(orderId)) {
+        localEdits.record(updatedOrder, ['items', 'prices']);
+      }
+
+      // Enviar pela fila persistente (reenviada até o backend aceitar)
+      const result = await enqueueMutations([
+        { orderId, operation: 'updateItems', data: { items: updates.items } }
+      ]);
+      if (result.failed.length > 0) {
+        console.warn('Itens mantidos localmente, aguardando sincronização:', result.failed[0].error);
       }
 
       // Buscar novos pedidos quando possível
@@ -348,7 +844,49 @@ export function useOrders() {
       });
       return false;
     }
-  }, [state.orders, refreshOrders]);
+  }, [state.orders, enqueueMutations]);
+
+  // Resolver conflito: versão local, do servidor ou mesclagem por campo
+  const resolveConflict = useCallback(async (orderId: string, choice: ConflictChoice): Promise<boolean> => {
+    const conflict = localEdits.getConflict(orderId);
+    if (!conflict) return false;
+
+    const current = ordersRef.current.find(order => order.id === orderId) || conflict.local;
+    const resolved = mergeConflictingOrders(current, conflict.server, choice);
+
+    // As mutações antigas são substituídas pelo resultado da resolução
+    await discardOrderMutations(orderId);
+    localEdits.resolve(orderId);
+
+    const updatedOrders = ordersRef.current.map(order => order.id === orderId ? resolved : order);
+    dispatch({ type: 'SET_ORDERS', payload: updatedOrders });
+    persistOrders(updatedOrders);
+
+    if (choice.status === 'server') {
+      statusOverlay.clear(orderId);
+    } else {
+      statusOverlay.record(orderId, resolved.status);
+    }
+
+    // O que ficou diferente do servidor é enviado como nova edição sobre a versão dele
+    const differences = diffConflictFields(resolved, conflict.server);
+    const mutations: QueuedMutation[] = [];
+
+    if (differences.includes('status')) {
+      mutations.push({ orderId, operation: 'updateStatus', data: { status: resolved.status } });
+    }
+    if (differences.includes('items') || differences.includes('prices')) {
+      mutations.push({ orderId, operation: 'updateItems', data: { items: resolved.items } });
+    }
+
+    if (mutations.length > 0) {
+      localEdits.record(resolved, differences);
+      await enqueueMutations(mutations);
+    }
+
+    connectionManager.forceSync();
+    return true;
+  }, [discardOrderMutations, enqueueMutations]);
 
   // Adicionar novo pedido (não implementado no backend)
   const addOrder = useCallback(async (orderData: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>): Promise<string | null> => {
@@ -363,7 +901,7 @@ export function useOrders() {
       };
       
       dispatch({ type: 'ADD_ORDER', payload: newOrder });
-      localPersistence.saveOrders([newOrder, ...state.orders]);
+      persistOrders([newOrder, ...state.orders]);
       
       return mockOrderId;
     } catch (error) {
@@ -376,11 +914,36 @@ export function useOrders() {
   }, [state.orders]);
 
   // Deletar pedido (não implementado no backend)
-  const deleteOrder = useCallback(async (orderId: string): Promise<boolean> => {
+  const deleteOrder = useCallback(async (orderId: string, options: MutationOptions = {}): Promise<boolean> => {
     try {
-      // Como não é suportado pela API, simulamos localmente
+      const previousIndex = state.orders.findIndex(o => o.id === orderId);
+      if (previousIndex === -1) return false;
+
+      const previousOrder = state.orders[previousIndex];
+      const previousOverlay = statusOverlay.get(orderId);
+
       dispatch({ type: 'DELETE_ORDER', payload: orderId });
-      localPersistence.saveOrders(state.orders.filter(o => o.id !== orderId));
+      persistOrders(state.orders.filter(o => o.id !== orderId));
+
+      // Exclusão de verdade no backend, gravada já na fila (ver updateOrderStatus);
+      // até ser enviada, a sincronização não traz o pedido de volta
+      const undoWindowMs = options.undoWindowMs || 0;
+      let entryId: string | undefined;
+      if (isBackendOrder(orderId)) {
+        deletingRef.current.add(orderId);
+        entryId = await queueOrderMutation(orderId, 'delete', {}, deferUntil(undoWindowMs));
+      }
+
+      scheduleCommit(
+        orderId,
+        { previousOrder, previousIndex, previousOverlay, entryId },
+        async () => {
+          statusOverlay.clear(orderId);
+          if (entryId) await sendQueuedEntry(entryId, 'Exclusão mantida localmente');
+          deletingRef.current.delete(orderId);
+        },
+        undoWindowMs
+      );
       
       return true;
     } catch (error) {
@@ -390,7 +953,7 @@ export function useOrders() {
       });
       return false;
     }
-  }, [state.orders]);
+  }, [state.orders, scheduleCommit, queueOrderMutation, sendQueuedEntry]);
 
   // Limpar erro
   const clearError = useCallback(() => {
@@ -472,6 +1035,15 @@ export function useOrders() {
     return filtered;
   }, [state.orders]);
   
+  // Situação de sincronização por pedido (conflito tem prioridade sobre a fila)
+  const syncStates = useMemo(() => {
+    const states: Record<string, OrderSyncState> = { ...orderSyncStates };
+    conflicts.forEach(conflict => {
+      states[conflict.orderId] = 'conflict';
+    });
+    return states;
+  }, [orderSyncStates, conflicts]);
+
   // Verificar se os dados são mockados (IDs começando com "mock-")
   const isMockData = useMemo(() => {
     if (state.orders.length > 0) {
@@ -488,6 +1060,8 @@ export function useOrders() {
     lastUpdate: state.lastUpdate,
     statistics,
     usingMockData: isMockData, // Retornar valor calculado
+    syncStates,
+    conflicts,
     
     // Ações
     refreshOrders,
@@ -495,6 +1069,11 @@ export function useOrders() {
     updateOrder,
     addOrder,
     deleteOrder,
+    undoLastChange,
+    batchUpdateStatus,
+    batchUpdateOrders,
+    retrySync: retryOrderSync,
+    resolveConflict,
     clearError,
     
     // Utilitários
@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Hook para acompanhar os pedidos em quarentena
+ * @module hooks/useQuarantine
+ */
+
+import { useState, useEffect } from 'react';
+import { quarantine, QuarantineEntry } from '../services/persistence/quarantine';
+
+interface QuarantineState {
+  entries: QuarantineEntry[];
+  counts: Record<string, number>;
+}
+
+const read = (): QuarantineState => ({ entries: quarantine.getEntries(), counts: quarantine.getCounts() });
+
+export function useQuarantine(): QuarantineState {
+  const [state, setState] = useState(read);
+
+  useEffect(() => quarantine.subscribe(() => setState(read())), []);
+
+  return state;
+}
@@ -85,6 +85,13 @@ export function useServiceWorker(): ServiceWorkerHook {
             // Não disparamos mais o evento - usando fetch direto agora
             break;
             
+          case 'sync-queue-started':
+          case 'sync-queue-progress':
+          case 'sync-queue-conflict':
+          case 'sync-queue-finished':
+            // Reenvio da fila pelo service worker: acompanhado pelo useOfflineSync
+            break;
+            
           default:
             // Mensagens desconhecidas
             console.log('[SW] Mensagem de tipo desconhecido:', type);
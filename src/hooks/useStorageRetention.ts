@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Hook para acompanhar a cota de armazenamento e a retenção
+ * @module hooks/useStorageRetention
+ */
+
+import { useState, useEffect } from 'react';
+import { storageRetention, RetentionState } from '../services/persistence/retention';
+
+export function useStorageRetention(): RetentionState {
+  const [state, setState] = useState<RetentionState>(() => storageRetention.getState());
+
+  useEffect(() => {
+    const unsubscribe = storageRetention.subscribe(() => setState(storageRetention.getState()));
+    storageRetention.checkQuota().catch(() => undefined);
+    return unsubscribe;
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Hook para acompanhar o catálogo de variações
+ * @module hooks/useVariationCatalog
+ */
+
+import { useState, useEffect } from 'react';
+import { variationCatalog, CatalogSnapshot } from '../services/persistence/variationCatalog';
+
+export function useVariationCatalog(): CatalogSnapshot {
+  const [snapshot, setSnapshot] = useState(() => variationCatalog.getSnapshot());
+
+  useEffect(() => variationCatalog.subscribe(() => setSnapshot(variationCatalog.getSnapshot())), []);
+
+  return snapshot;
+}
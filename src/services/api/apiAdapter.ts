@@ -3,10 +3,11 @@
  * @module services/api/apiAdapter
  */
 
-import { Order, OrderStatus, OrderItem, OrderPriority, ApiResponse } from '../../types';
+import { Order, OrderStatus, ApiResponse } from '../../types';
 import { BackendOrder, UpdateStatusResponse, BackendApiResponse } from '../../types/api';
 import { API_CONFIG } from '../../config/api.config';
 import { postJSON } from './fetchWithConfig';
+import { normalizeOrder, mapFrontendToBackendStatus } from './normalizer';
 
 /**
  * Adaptador para converter dados do backend real para o formato esperado pelo frontend
@@ -14,99 +15,13 @@ import { postJSON } from './fetchWithConfig';
 export class ApiAdapter {
   private static readonly API_BASE = API_CONFIG.BASE_URL;
 
-  // ==================== MAPEAMENTO DE STATUS ====================
-  
-  /**
-   * Converte status do backend para frontend
-   */
-  private static mapBackendToFrontendStatus(backendStatus: string): OrderStatus {
-    const statusMap: Record<string, OrderStatus> = {
-      'pending': OrderStatus.PENDING,
-      'preparing': OrderStatus.PREPARING,
-      'delivering': OrderStatus.OUT_FOR_DELIVERY,
-      'completed': OrderStatus.DELIVERED,
-      'cancelled': OrderStatus.CANCELLED
-    };
-    
-    return statusMap[backendStatus] || OrderStatus.PENDING;
-  }
-
-  /**
-   * Converte status do frontend para backend
-   */
-  private static mapFrontendToBackendStatus(frontendStatus: OrderStatus): string {
-    const statusMap: Record<OrderStatus, string> = {
-      [OrderStatus.PENDING]: 'pending',
-      [OrderStatus.CONFIRMED]: 'pending', // Confirmed vira pending no backend
-      [OrderStatus.PREPARING]: 'preparing',
-      [OrderStatus.READY]: 'preparing', // Ready vira preparing no backend
-      [OrderStatus.OUT_FOR_DELIVERY]: 'delivering',
-      [OrderStatus.DELIVERED]: 'completed',
-      [OrderStatus.CANCELLED]: 'cancelled'
-    };
-    
-    return statusMap[frontendStatus] || 'pending';
-  }
-
   // ==================== ADAPTAÇÃO DE DADOS ====================
 
   /**
    * Converte pedido do backend para formato do frontend
    */
   static adaptOrder(backendOrder: BackendOrder): Order {
-    // Processar endereço
-    let addressString = '';
-    if (typeof backendOrder.address === 'string') {
-      addressString = backendOrder.address;
-    } else if (backendOrder.address) {
-      const addr = backendOrder.address;
-      addressString = `${addr.street || ''}, ${addr.number || ''}, ${addr.neighborhood || ''}`;
-      if (addr.reference) {
-        addressString += ` - ${addr.reference}`;
-      }
-      if (addr.city && addr.state) {
-        addressString += `, ${addr.city}/${addr.state}`;
-      }
-    }
-
-    // Processar itens
-    const items: OrderItem[] = (backendOrder.items || []).map(item => ({
-      id: item.id || item._id,
-      name: item.name,
-      quantity: item.quantity,
-      unitPrice: item.price,
-      totalPrice: item.quantity * item.price,
-      category: item.option || 'Outros',
-      notes: item.unit_type ? `Tipo: ${item.unit_type}` : undefined
-    }));
-
-    // Calcular subtotal (soma dos itens)
-    const subtotal = items.reduce((total, item) => total + item.totalPrice, 0);
-
-    return {
-      id: backendOrder._id || backendOrder.id,
-      orderNumber: undefined, // Não existe no backend
-      customer: {
-        id: backendOrder._id,
-        name: backendOrder.customer_name || backendOrder.customerName || 'Cliente',
-        phone: backendOrder.customerPhone || '',
-        address: addressString,
-        email: undefined,
-        isFrequent: false // Não existe no backend
-      },
-      items,
-      subtotal,
-      deliveryFee: 0, // Não existe separado no backend
-      discount: 0, // Não existe no backend
-      total: backendOrder.total || subtotal,
-      status: this.mapBackendToFrontendStatus(backendOrder.status),
-      priority: 'normal' as OrderPriority, // Não existe no backend
-      paymentMethod: backendOrder.paymentMethod || 'Dinheiro',
-      paymentStatus: 'pending' as const, // Não existe no backend
-      notes: backendOrder.observations || undefined,
-      createdAt: new Date(backendOrder.created_at),
-      updatedAt: new Date(backendOrder.updatedAt)
-    };
+    return normalizeOrder(backendOrder);
   }
 
   /**
@@ -213,7 +128,7 @@ export class ApiAdapter {
     message?: string
   ): Promise<ApiResponse<Order>> {
     try {
-      const backendStatus = this.mapFrontendToBackendStatus(status);
+      const backendStatus = mapFrontendToBackendStatus(status);
       
       const data = await postJSON<UpdateStatusResponse>(`${this.API_BASE}/update-order-status`, {
         id: orderId,
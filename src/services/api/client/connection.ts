@@ -4,14 +4,31 @@
  */
 
 import { API_CONFIG } from '../config';
-import { SyncResult, ConnectionStatus } from '../types';
+import { SyncResult, ConnectionStatus, SyncContext, SyncMode, ConnectionStatusRecord, HealthCheckRecord } from '../types';
 import { checkApiHealth } from './health';
+import { isOrdersDelta, applyOrdersDelta } from './delta';
+import { webSocketTransport, sseTransport, PushTransport, RealtimeState, TransportKind } from './realtime';
+import { tabCoordinator, TabMessage } from './tabCoordinator';
+import { backendWakeUp } from './wakeUp';
+import { SocketEvent } from '../../../types';
 
 // Tipo para função de callback na sincronização
 type SyncCallback<T = any> = (result: SyncResult<T>) => void;
 
-// Tipo para função que realiza a sincronização com a API
-type SyncFunction<T = any> = () => Promise<T>;
+// Tipo para função de callback nos eventos de tempo real
+type EventCallback = (event: SocketEvent) => void;
+
+// Tipo para função de callback nas mudanças de status
+type StatusCallback = (status: ConnectionStatus) => void;
+
+// Tipo para função que realiza a sincronização com a API.
+// Pode devolver a lista completa ou um OrdersDelta quando o contexto permitir.
+type SyncFunction<T = any> = (context: SyncContext) => Promise<T>;
+
+export interface SyncOptions {
+  // Ignora o modo incremental e busca a lista completa
+  full?: boolean;
+}
 
 /**
  * Gerenciador de conexão único para todas as operações com a API
@@ -22,7 +39,12 @@ class ConnectionManager {
     lastCheck: null,
     lastSuccessfulSync: null,
     retryCount: 0,
-    error: null
+    error: null,
+    syncCursor: null,
+    pushActive: false,
+    transport: 'polling',
+    lastEventAt: null,
+    wakingSince: null
   };
   
   private syncInterval: number = API_CONFIG.SYNC_INTERVAL;
@@ -33,22 +55,52 @@ class ConnectionManager {
   
   private syncing: boolean = false;
   private syncCallbacks: SyncCallback[] = [];
+  private eventCallbacks: EventCallback[] = [];
+  private statusCallbacks: StatusCallback[] = [];
   private syncFunction: SyncFunction | null = null;
   
   private lastData: any = null;
   
+  // Sincronizações incrementais desde a última completa
+  private deltaSyncsSinceFull: number = 0;
+  
+  // Transportes de push em ordem de preferência; sem nenhum, só polling
+  private transports: PushTransport[] = [webSocketTransport, sseTransport];
+  private activeTransport: PushTransport | null = null;
+  private renegotiateTimer: NodeJS.Timeout | null = null;
+  
+  // Abas seguidoras: sincronizações pedidas à líder aguardando resultado
+  private pendingRemoteSyncs: Array<(result: SyncResult) => void> = [];
+  
+  // Diagnóstico: histórico desta sessão, do mais recente para o mais antigo
+  private readonly MAX_HISTORY = 100;
+  private statusHistory: ConnectionStatusRecord[] = [];
+  private healthHistory: HealthCheckRecord[] = [];
+  
   constructor() {
     // Iniciar os timers quando a conexão estiver disponível
     if (typeof window !== 'undefined') {
+      this.transports.forEach(transport => {
+        transport.subscribe(this.handleSocketEvent);
+        transport.onStateChange(state => this.handleTransportState(transport, state));
+      });
+      
       window.addEventListener('online', this.handleOnline);
       window.addEventListener('offline', this.handleOffline);
       
+      // Só a aba líder conversa com a API; as outras recebem os resultados dela
+      tabCoordinator.onMessage(this.handleTabMessage);
+      tabCoordinator.onLeadershipChange(this.handleLeadershipChange);
+      tabCoordinator.start();
+      
       // Verificar a conexão inicial
       this.isOnline = navigator.onLine;
       
       // Iniciar os timers se estiver online
-      if (this.isOnline) {
+      if (this.isOnline && tabCoordinator.isLeader()) {
         this.startTimers();
+      } else if (!tabCoordinator.isLeader()) {
+        tabCoordinator.post({ type: 'hello' });
       }
     }
   }
@@ -79,7 +131,10 @@ class ConnectionManager {
   private handleOnline = () => {
     console.log('🌐 Dispositivo está online');
     this.isOnline = true;
-    this.startTimers();
+    
+    if (tabCoordinator.isLeader()) {
+      this.startTimers();
+    }
   }
   
   /**
@@ -89,6 +144,224 @@ class ConnectionManager {
     console.log('🔌 Dispositivo está offline');
     this.isOnline = false;
     this.stopTimers();
+    this.stopPush();
+  }
+  
+  // ==================== COORDENAÇÃO ENTRE ABAS ====================
+  
+  /**
+   * Assumiu a liderança (aba anterior fechou): começar a sincronizar.
+   * Perdeu: parar timers e tempo real, que passam a vir da outra aba.
+   */
+  private handleLeadershipChange = (isLeader: boolean) => {
+    if (isLeader) {
+      if (this.isOnline) this.startTimers();
+    } else {
+      this.stopTimers();
+      this.stopPush();
+    }
+  }
+  
+  private handleTabMessage = (message: TabMessage) => {
+    if (tabCoordinator.isLeader()) {
+      // Pedidos das seguidoras
+      if (message.type === 'request-sync') {
+        this.syncWithApi({ full: message.full });
+      } else if (message.type === 'hello' && Array.isArray(this.lastData)) {
+        tabCoordinator.post({
+          type: 'sync-result',
+          result: { success: true, data: this.lastData, cached: true, mode: 'full' },
+          status: this.getStatus()
+        });
+      }
+      return;
+    }
+    
+    switch (message.type) {
+      case 'sync-result':
+        this.applyRemoteResult(message.result, message.status);
+        break;
+      case 'socket-event':
+        this.applySocketEvent(message.event);
+        break;
+      case 'status':
+        this.status = { ...message.status, isOnline: this.status.isOnline };
+        this.notifyStatus();
+        break;
+    }
+  }
+  
+  /**
+   * Seguidora: aplica o resultado de sincronização recebido da aba líder
+   */
+  private applyRemoteResult(result: SyncResult, status: ConnectionStatus) {
+    if (result.success && result.mode === 'delta') {
+      this.lastData = applyOrdersDelta(this.lastData || [], result.data || [], result.deletedIds || []);
+    } else if (result.success && Array.isArray(result.data)) {
+      this.lastData = result.data;
+    }
+    
+    this.status = { ...status, isOnline: this.status.isOnline };
+    this.notifyCallbacks(result);
+    this.notifyStatus();
+    
+    const pending = this.pendingRemoteSyncs;
+    this.pendingRemoteSyncs = [];
+    pending.forEach(resolve => resolve(result));
+  }
+  
+  /**
+   * Seguidora: pede à líder uma sincronização e aguarda o resultado
+   */
+  private requestSyncFromLeader(options: SyncOptions): Promise<SyncResult> {
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.pendingRemoteSyncs = this.pendingRemoteSyncs.filter(pending => pending !== finish);
+        resolve({
+          success: false,
+          error: 'A aba responsável pela sincronização não respondeu',
+          cached: !!this.lastData,
+          data: this.lastData
+        });
+      }, API_CONFIG.TIMEOUT);
+      
+      const finish = (result: SyncResult) => {
+        clearTimeout(timeout);
+        resolve(result);
+      };
+      
+      this.pendingRemoteSyncs.push(finish);
+      tabCoordinator.post({ type: 'request-sync', full: options.full });
+    });
+  }
+  
+  /**
+   * Líder: notifica os assinantes desta aba e repassa o resultado às outras
+   */
+  private publishResult(result: SyncResult) {
+    this.notifyCallbacks(result);
+    tabCoordinator.post({ type: 'sync-result', result, status: this.getStatus() });
+  }
+  
+  // ==================== NEGOCIAÇÃO DE TRANSPORTE ====================
+  
+  /**
+   * Ativa o transporte de push na posição indicada (0 = WebSocket, 1 = SSE)
+   */
+  private startPush(index: number = 0) {
+    if (this.renegotiateTimer) {
+      clearTimeout(this.renegotiateTimer);
+      this.renegotiateTimer = null;
+    }
+    
+    this.transports.forEach((transport, position) => {
+      if (position !== index) transport.stop();
+    });
+    
+    this.activeTransport = this.transports[index] || null;
+    this.activeTransport?.start();
+  }
+  
+  private stopPush() {
+    if (this.renegotiateTimer) {
+      clearTimeout(this.renegotiateTimer);
+      this.renegotiateTimer = null;
+    }
+    
+    this.transports.forEach(transport => transport.stop());
+    this.activeTransport = null;
+    this.setPushActive('polling');
+  }
+  
+  /**
+   * Conectado: o polling passa a ser só rede de segurança e sincronizamos
+   * para cobrir o que chegou durante a queda. Sem conseguir conectar depois
+   * de algumas tentativas, passa para o próximo transporte (WebSocket → SSE →
+   * polling) e volta a tentar o WebSocket mais tarde.
+   */
+  private handleTransportState(transport: PushTransport, state: RealtimeState) {
+    if (transport !== this.activeTransport) return;
+    
+    if (state === 'open') {
+      this.setPushActive(transport.kind);
+      this.forceSync();
+      return;
+    }
+    
+    if (state !== 'closed') return;
+    
+    this.setPushActive('polling');
+    
+    if (transport.getFailedAttempts() < API_CONFIG.REALTIME.MAX_FAILED_ATTEMPTS) return;
+    
+    const nextIndex = this.transports.indexOf(transport) + 1;
+    transport.stop();
+    
+    if (nextIndex < this.transports.length) {
+      console.log(`🔁 ${transport.kind} indisponível, tentando ${this.transports[nextIndex].kind}`);
+      this.startPush(nextIndex);
+      return;
+    }
+    
+    console.log('🔁 Nenhum transporte de tempo real disponível, usando só polling');
+    this.activeTransport = null;
+    this.renegotiateTimer = setTimeout(() => {
+      this.renegotiateTimer = null;
+      if (this.isOnline) this.startPush(0);
+    }, API_CONFIG.REALTIME.RENEGOTIATE_INTERVAL);
+  }
+  
+  /**
+   * Atualiza o transporte ativo e ajusta o intervalo do polling
+   */
+  private setPushActive(transport: TransportKind) {
+    if (this.status.transport === transport) return;
+    
+    const pushActive = transport !== 'polling';
+    this.status.transport = transport;
+    this.status.pushActive = pushActive;
+    
+    if (this.syncTimer) {
+      this.startSyncTimer();
+    }
+    
+    console.log(pushActive
+      ? `⚡ Tempo real ativo (${transport}): polling reduzido para fallback`
+      : '🔁 Tempo real indisponível: voltando ao polling normal');
+    this.notifyStatus();
+  }
+  
+  /**
+   * Mantém o cache coerente com os eventos e repassa aos assinantes
+   */
+  private handleSocketEvent = (event: SocketEvent) => {
+    this.applySocketEvent(event);
+    tabCoordinator.post({ type: 'socket-event', event });
+  }
+  
+  private applySocketEvent(event: SocketEvent) {
+    this.status.lastEventAt = new Date();
+    
+    if (Array.isArray(this.lastData)) {
+      if (event.type === 'order_deleted') {
+        this.lastData = applyOrdersDelta(this.lastData, [], [event.orderId]);
+      } else {
+        const existing = this.lastData.find((order: any) => order.id === event.orderId);
+        if (existing) {
+          this.lastData = applyOrdersDelta(this.lastData, [{ ...existing, ...event.data }], []);
+        }
+      }
+    }
+    
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Erro ao executar callback de evento:', error);
+      }
+    });
+    
+    this.notifyStatus();
   }
   
   /**
@@ -99,9 +372,7 @@ class ConnectionManager {
     this.stopTimers();
     
     // Iniciar timer de sincronização
-    this.syncTimer = setInterval(() => {
-      this.syncWithApi();
-    }, this.syncInterval);
+    this.startSyncTimer();
     
     // Iniciar timer de verificação de saúde
     this.healthTimer = setInterval(() => {
@@ -112,6 +383,28 @@ class ConnectionManager {
     setTimeout(() => {
       this.syncWithApi();
     }, 1000);
+    
+    // Conectar o tempo real, se ainda não estiver negociado
+    if (!this.activeTransport && !this.renegotiateTimer) {
+      this.startPush(0);
+    }
+  }
+  
+  /**
+   * (Re)inicia o polling no intervalo adequado ao estado do tempo real
+   */
+  private startSyncTimer() {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+    }
+    
+    const interval = this.status.pushActive
+      ? API_CONFIG.REALTIME.FALLBACK_SYNC_INTERVAL
+      : this.syncInterval;
+    
+    this.syncTimer = setInterval(() => {
+      this.syncWithApi();
+    }, interval);
   }
   
   /**
@@ -133,7 +426,10 @@ class ConnectionManager {
    * Verifica a saúde da API
    */
   private async checkHealth() {
-    if (!this.isOnline) return;
+    // Durante o wake-up os pings já fazem esse papel
+    if (!this.isOnline || this.status.wakingSince) return;
+    
+    const startedAt = Date.now();
     
     try {
       const isHealthy = await checkApiHealth();
@@ -152,12 +448,49 @@ class ConnectionManager {
       this.status.error = error instanceof Error ? error.message : 'Erro na verificação de saúde';
       this.isOnline = false;
     }
+    
+    this.healthHistory = [{
+      at: new Date(startedAt),
+      healthy: this.isOnline,
+      latencyMs: Date.now() - startedAt,
+      error: this.status.error
+    }, ...this.healthHistory].slice(0, this.MAX_HISTORY);
+  }
+  
+  /**
+   * Decide entre sincronização completa e incremental.
+   * A incremental usa o cursor do backend ou lastSuccessfulSync (com margem).
+   */
+  private buildSyncContext(options: SyncOptions): SyncContext {
+    const { DELTA_SYNC } = API_CONFIG;
+    const lastSync = this.status.lastSuccessfulSync;
+    
+    const full = options.full ||
+      !DELTA_SYNC.ENABLED ||
+      !lastSync ||
+      !Array.isArray(this.lastData) ||
+      this.deltaSyncsSinceFull >= DELTA_SYNC.FULL_SYNC_EVERY;
+    
+    if (full) {
+      return { mode: 'full', since: null, cursor: null };
+    }
+    
+    return {
+      mode: 'delta',
+      since: new Date(lastSync.getTime() - DELTA_SYNC.OVERLAP),
+      cursor: this.status.syncCursor || null
+    };
   }
   
   /**
    * Realiza a sincronização com a API
    */
-  private async syncWithApi(): Promise<SyncResult> {
+  private async syncWithApi(options: SyncOptions = {}): Promise<SyncResult> {
+    // Outra aba é a líder: ela sincroniza e repassa o resultado
+    if (!tabCoordinator.isLeader()) {
+      return this.requestSyncFromLeader(options);
+    }
+    
     // Se já está sincronizando, aguardar
     if (this.syncing) {
       return {
@@ -185,8 +518,37 @@ class ConnectionManager {
     };
     
     try {
+      // Backend dormindo: esperar acordar antes de sincronizar (e antes de cair
+      // para os dados de demonstração). Passado o prazo, segue normalmente.
+      if (navigator.onLine && !backendWakeUp.isAwake()) {
+        await this.waitForBackend();
+      }
+      
+      // Marcar o início: o que mudar durante a requisição entra na próxima rodada
+      const startedAt = new Date();
+      const context = this.buildSyncContext(options);
+      
       // Executar a função de sincronização
-      const data = await this.syncFunction();
+      const data = await this.syncFunction(context);
+      
+      // Resposta incremental: mesclar por id sobre os dados em cache
+      if (isOrdersDelta(data)) {
+        console.log(`🔁 Sincronização incremental: ${data.changed.length} alterados, ${data.deletedIds.length} excluídos`);
+        
+        this.lastData = applyOrdersDelta(this.lastData || [], data.changed, data.deletedIds);
+        this.deltaSyncsSinceFull += 1;
+        this.markSynced('delta', data.serverTime || startedAt, data.cursor ?? null);
+        
+        result = {
+          success: true,
+          data: data.changed,
+          deletedIds: data.deletedIds,
+          mode: 'delta'
+        };
+        
+        this.publishResult(result);
+        return result;
+      }
       
       // Verificar e garantir que os dados são válidos
       console.log('🔍 Dados recebidos da função de sync:', data ? (Array.isArray(data) ? `Array com ${data.length} itens` : typeof data) : 'null/undefined');
@@ -227,20 +589,20 @@ class ConnectionManager {
       
       // Armazenar os dados validados
       this.lastData = validData;
+      this.deltaSyncsSinceFull = 0;
       
       // Atualizar status
-      this.status.lastSuccessfulSync = new Date();
-      this.status.retryCount = 0;
-      this.status.error = null;
+      this.markSynced('full', startedAt, null);
       
       // Criar resultado de sucesso
       result = {
         success: true,
-        data: validData
+        data: validData,
+        mode: 'full'
       };
       
       // Notificar callbacks
-      this.notifyCallbacks(result);
+      this.publishResult(result);
       
     } catch (error) {
       console.warn('⚠️ Erro na sincronização:', error);
@@ -258,7 +620,7 @@ class ConnectionManager {
       };
       
       // Notificar callbacks mesmo em caso de erro
-      this.notifyCallbacks(result);
+      this.publishResult(result);
       
     } finally {
       this.syncing = false;
@@ -267,6 +629,73 @@ class ConnectionManager {
     return result;
   }
   
+  /**
+   * Fase de wake-up: expõe no status desde quando estamos esperando
+   */
+  private async waitForBackend(): Promise<boolean> {
+    this.status.wakingSince = new Date();
+    this.notifyStatus();
+    
+    try {
+      return await backendWakeUp.wakeUp();
+    } finally {
+      this.status.wakingSince = null;
+      this.notifyStatus();
+    }
+  }
+  
+  /**
+   * Atualiza o status após uma sincronização bem-sucedida
+   */
+  private markSynced(mode: SyncMode, syncedAt: Date, cursor: string | null) {
+    this.status.lastSuccessfulSync = syncedAt;
+    this.status.syncCursor = cursor;
+    this.status.lastSyncMode = mode;
+    this.status.retryCount = 0;
+    this.status.error = null;
+    this.notifyStatus();
+  }
+  
+  /**
+   * Notifica quem acompanha o status (ex.: PWAStatus)
+   */
+  private notifyStatus() {
+    const status = this.getStatus();
+    this.recordStatus(status);
+    
+    if (tabCoordinator.isLeader()) {
+      tabCoordinator.post({ type: 'status', status });
+    }
+    
+    this.statusCallbacks.forEach(callback => {
+      try {
+        callback(status);
+      } catch (error) {
+        console.error('Erro ao executar callback de status:', error);
+      }
+    });
+  }
+  
+  /**
+   * Guarda o status no histórico quando algo relevante mudou
+   * (a hora do último evento muda o tempo todo e não conta)
+   */
+  private recordStatus(status: ConnectionStatus) {
+    const last = this.statusHistory[0]?.status;
+    const changed = !last ||
+      last.isOnline !== status.isOnline ||
+      last.error !== status.error ||
+      last.transport !== status.transport ||
+      last.pushActive !== status.pushActive ||
+      last.lastSyncMode !== status.lastSyncMode ||
+      !!last.wakingSince !== !!status.wakingSince ||
+      last.lastSuccessfulSync?.getTime() !== status.lastSuccessfulSync?.getTime();
+    
+    if (changed) {
+      this.statusHistory = [{ at: new Date(), status }, ...this.statusHistory].slice(0, this.MAX_HISTORY);
+    }
+  }
+  
   /**
    * Notifica os callbacks registrados
    */
@@ -301,7 +730,8 @@ class ConnectionManager {
         callback({
           success: true,
           data: this.lastData,
-          cached: true
+          cached: true,
+          mode: 'full'
         });
       } catch (error) {
         console.error('Erro ao executar callback inicial:', error);
@@ -315,10 +745,48 @@ class ConnectionManager {
   }
   
   /**
-   * Força uma sincronização imediata
+   * Registra um callback para os eventos de tempo real (SocketEvent)
+   */
+  subscribeToEvents(callback: EventCallback): () => void {
+    this.eventCallbacks.push(callback);
+    
+    return () => {
+      this.eventCallbacks = this.eventCallbacks.filter(cb => cb !== callback);
+    };
+  }
+  
+  /**
+   * Registra um callback para mudanças de status (transporte, último evento, sincronização)
+   */
+  subscribeToStatus(callback: StatusCallback): () => void {
+    this.statusCallbacks.push(callback);
+    
+    return () => {
+      this.statusCallbacks = this.statusCallbacks.filter(cb => cb !== callback);
+    };
+  }
+  
+  /**
+   * Esta aba é a líder (a que conversa com a API pelas outras)?
+   */
+  isLeader(): boolean {
+    return tabCoordinator.isLeader();
+  }
+  
+  /**
+   * Líder: repassa às seguidoras um evento completado aqui (ex.: com
+   * o pedido buscado na API), para que elas não busquem o mesmo pedido
    */
-  async forceSync(): Promise<SyncResult> {
-    return await this.syncWithApi();
+  shareEvent(event: SocketEvent) {
+    if (!tabCoordinator.isLeader()) return;
+    tabCoordinator.post({ type: 'socket-event', event });
+  }
+  
+  /**
+   * Força uma sincronização imediata (incremental, salvo se pedir a completa)
+   */
+  async forceSync(options: SyncOptions = {}): Promise<SyncResult> {
+    return await this.syncWithApi(options);
   }
   
   /**
@@ -328,6 +796,20 @@ class ConnectionManager {
     return { ...this.status };
   }
   
+  /**
+   * Mudanças de status desta sessão (mais recente primeiro)
+   */
+  getStatusHistory(): ConnectionStatusRecord[] {
+    return [...this.statusHistory];
+  }
+  
+  /**
+   * Verificações de saúde desta sessão com a latência de cada uma
+   */
+  getHealthHistory(): HealthCheckRecord[] {
+    return [...this.healthHistory];
+  }
+  
   /**
    * Verifica se há dados em cache
    */
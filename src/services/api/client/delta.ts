@@ -0,0 +1,38 @@
+/**
+ * @fileoverview Utilitários da sincronização incremental
+ * @module services/api/client/delta
+ */
+
+import { OrdersDelta } from '../types';
+
+/**
+ * Verifica se o retorno da função de sincronização é um delta
+ */
+export function isOrdersDelta(data: any): data is OrdersDelta {
+  return !!data && typeof data === 'object' && data.kind === 'delta' && Array.isArray(data.changed);
+}
+
+/**
+ * Aplica um delta sobre a lista atual: substitui por id, acrescenta os novos
+ * no início e remove os excluídos no servidor
+ */
+export function applyOrdersDelta<T extends { id: string }>(
+  current: T[],
+  changed: T[],
+  deletedIds: string[]
+): T[] {
+  const deleted = new Set(deletedIds);
+  const changedById = new Map(changed.map(item => [item.id, item]));
+
+  const updated = current
+    .filter(item => !deleted.has(item.id))
+    .map(item => {
+      const next = changedById.get(item.id);
+      if (next) changedById.delete(item.id);
+      return next || item;
+    });
+
+  const added = Array.from(changedById.values()).filter(item => !deleted.has(item.id));
+
+  return [...added, ...updated];
+}
@@ -4,6 +4,8 @@
  */
 
 import { API_CONFIG } from '../config';
+import { resilience, backoffDelay, isBreakerFailureStatus } from './resilience';
+import { backendWakeUp } from './wakeUp';
 
 /**
  * Interface para opções de fetch
@@ -30,7 +32,7 @@ const isDev = process.env.NODE_ENV === 'development' || window.location.hostname
 export async function fetchWithConfig(url: string, options: FetchOptions = {}): Promise<Response> {
   // Valores padrão das opções
   const timeout = options.timeout || API_CONFIG.TIMEOUT;
-  const maxRetries = options.retries || API_CONFIG.MAX_RETRIES;
+  const maxRetries = options.retries ?? API_CONFIG.MAX_RETRIES;
   const retryDelay = options.retryDelay || API_CONFIG.RETRY_DELAY;
   
   // Não logar erros de health check para não encher o console
@@ -76,22 +78,25 @@ export async function fetchWithConfig(url: string, options: FetchOptions = {}):
     ...options.headers,
   };
 
-  // Configurar AbortController para timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => {
-    controller.abort();
-    if (shouldLogErrors) {
-      console.warn(`⏱️ Timeout excedido (${timeout}ms) para ${url}`);
-    }
-  }, timeout);
-  
-  // Configurar sinal
-  const signal = options.signal || controller.signal;
-  
   // Tentativas de requisição
   let lastError: Error | null = null;
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    // Circuito aberto: falhar na hora, sem ir à rede (não conta como tentativa)
+    resilience.beforeRequest(url);
+    
+    // Configurar AbortController para timeout (um por tentativa)
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+      if (shouldLogErrors) {
+        console.warn(`⏱️ Timeout excedido (${timeout}ms) para ${url}`);
+      }
+    }, timeout);
+    
+    // Configurar sinal
+    const signal = options.signal || controller.signal;
+    
     try {
       if (attempt > 0 && shouldLogErrors) {
         console.log(`🔄 Tentativa ${attempt}/${maxRetries} para ${url}`);
@@ -108,6 +113,7 @@ export async function fetchWithConfig(url: string, options: FetchOptions = {}):
       delete cleanOptions.retries;
       delete cleanOptions.retryDelay;
       delete cleanOptions.skipErrorLogging;
+      delete cleanOptions.headers; // Já mesclados com os padrões acima
       
       // Preparar opções de fetch com CORS adequado
       const fetchOptions: RequestInit = {
@@ -151,6 +157,14 @@ export async function fetchWithConfig(url: string, options: FetchOptions = {}):
         }
       }
       
+      // Registrar no circuit breaker: só erros do servidor contam como falha
+      if (isBreakerFailureStatus(response.status)) {
+        resilience.recordFailure(url, new Error(`HTTP ${response.status}: ${response.statusText}`));
+      } else {
+        resilience.recordSuccess(url);
+        backendWakeUp.markAwake();
+      }
+      
       // Verificar se a resposta é ok
       if (!response.ok && response.status !== 304) { // 304 Not Modified ainda é ok
         if (shouldLogErrors) {
@@ -196,12 +210,28 @@ export async function fetchWithConfig(url: string, options: FetchOptions = {}):
       
       return response;
     } catch (error) {
+      clearTimeout(timeoutId);
       lastError = error as Error;
       
+      // Falha de rede ou timeout (erros HTTP já foram registrados acima)
+      if (!(error instanceof Error && error.message.startsWith('HTTP '))) {
+        resilience.recordFailure(url, error);
+      }
+      
       if (shouldLogErrors) {
         console.error(`❌ Erro na requisição para ${url}:`, error);
       }
       
+      // Erros de cliente (4xx) não melhoram com nova tentativa
+      if (error instanceof Error && /^HTTP (400|401|403|404|405|422)\b/.test(error.message)) {
+        break;
+      }
+      
+      // O circuito abriu durante as tentativas: parar por aqui
+      if (resilience.isOpen(url)) {
+        break;
+      }
+      
       // Se for a última tentativa, propagar o erro
       if (attempt === maxRetries) {
         if (shouldLogErrors) {
@@ -215,21 +245,17 @@ export async function fetchWithConfig(url: string, options: FetchOptions = {}):
         break;
       }
       
-      // Aguardar antes da próxima tentativa com backoff exponencial
-      const waitTime = retryDelay * Math.pow(1.5, attempt); // Backoff exponencial mais suave
-      const cappedWaitTime = Math.min(waitTime, 30000); // Cap em 30 segundos
+      // Aguardar antes da próxima tentativa com backoff exponencial e jitter
+      const waitTime = backoffDelay(attempt, retryDelay);
       
       if (shouldLogErrors) {
-        console.log(`⏳ Aguardando ${Math.round(cappedWaitTime/1000)}s antes da próxima tentativa...`);
+        console.log(`⏳ Aguardando ${Math.round(waitTime/1000)}s antes da próxima tentativa...`);
       }
       
-      await new Promise(resolve => setTimeout(resolve, cappedWaitTime));
+      await new Promise(resolve => setTimeout(resolve, waitTime));
     }
   }
   
-  // Limpar timeout se chegou aqui
-  clearTimeout(timeoutId);
-  
   // Propagar o último erro
   throw lastError || new Error(`Falha após ${maxRetries} tentativas de requisição para ${url}`);
 }
@@ -241,6 +267,11 @@ async function extractJSONData<T = any>(response: Response, url: string): Promis
   // Verificar se é uma resposta JSON pelo content-type
   const contentType = response.headers.get('content-type');
   
+  // 204 (ex.: exclusão) não tem corpo por definição
+  if (response.status === 204) {
+    return null as T;
+  }
+  
   // Obter o texto da resposta
   const text = await response.text();
   
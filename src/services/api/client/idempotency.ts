@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Chaves de idempotência das mutações de pedido
+ * @module services/api/client/idempotency
+ *
+ * Cada mutação lógica (uma mudança de status, uma edição de itens) recebe uma
+ * chave gerada no cliente. A mesma chave vai em todas as tentativas: retries
+ * do fetchWithConfig, fallback REST → legado e reenvios da fila offline, para
+ * o backend reconhecer e ignorar as repetições.
+ *
+ * O cabeçalho só vai quando o backend o aceita: na mesma origem não há CORS;
+ * em outra origem, uma sondagem por família de endpoint (REST ou legado)
+ * descobre se o preflight libera o cabeçalho (Access-Control-Allow-Headers).
+ * Sem isso, toda mutação com o cabeçalho falharia no preflight.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { API_CONFIG } from '../config';
+import { EndpointFamily, endpointKey } from './resilience';
+
+// ==================== TIPOS ====================
+interface SupportRecord {
+  supported: boolean;
+  checkedAt: number;
+}
+
+type SupportMap = Partial<Record<EndpointFamily, SupportRecord>>;
+
+// ==================== SUPORTE DO BACKEND ====================
+const SUPPORT_KEY = 'idempotencySupport';
+
+// Uma requisição de leitura de cada família; o preflight vale para a rota inteira
+const PROBES: Record<EndpointFamily, { method: string; path: string; body?: string }> = {
+  rest: { method: 'GET', path: '/orders?limit=1' },
+  legacy: { method: 'POST', path: '/list-orders', body: '{}' }
+};
+
+let probePromise: Promise<void> | null = null;
+
+const loadSupport = (): SupportMap => {
+  try {
+    return JSON.parse(localStorage.getItem(SUPPORT_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveSupport = (family: EndpointFamily, supported: boolean) => {
+  try {
+    localStorage.setItem(SUPPORT_KEY, JSON.stringify({
+      ...loadSupport(),
+      [family]: { supported, checkedAt: Date.now() }
+    }));
+  } catch (error) {
+    console.error('❌ Erro ao salvar suporte à idempotência:', error);
+  }
+};
+
+const isFresh = (record?: SupportRecord): record is SupportRecord =>
+  !!record && Date.now() - record.checkedAt < API_CONFIG.IDEMPOTENCY.SUPPORT_TTL;
+
+const isSameOrigin = (url: string): boolean => {
+  try {
+    return new URL(url, window.location.href).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Família do endpoint pela rota: /orders... é o RESTful; o resto
+ * (/update-order-status, /list-orders...) é o legado
+ */
+export function endpointFamilyOf(url: string): EndpointFamily {
+  return /\/orders(\/|$)/.test(endpointKey(url)) ? 'rest' : 'legacy';
+}
+
+const probeRequest = async (family: EndpointFamily, withHeader: boolean): Promise<boolean> => {
+  const probe = PROBES[family];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), API_CONFIG.IDEMPOTENCY.PROBE_TIMEOUT);
+
+  try {
+    // Qualquer resposta HTTP (até 404) mostra que o preflight passou;
+    // só o bloqueio de CORS ou a rede fazem o fetch rejeitar
+    await fetch(`${API_CONFIG.BASE_URL}${probe.path}`, {
+      method: probe.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(withHeader ? { [API_CONFIG.IDEMPOTENCY.HEADER]: createIdempotencyKey() } : {})
+      },
+      body: probe.body,
+      signal: controller.signal
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const probeFamily = async (family: EndpointFamily): Promise<void> => {
+  if (await probeRequest(family, true)) {
+    saveSupport(family, true);
+    return;
+  }
+
+  // Sem o cabeçalho passa: é o CORS que recusa. Também falha: rede fora, tentar depois
+  if (await probeRequest(family, false)) {
+    saveSupport(family, false);
+    console.warn(`⚠️ Backend não aceita ${API_CONFIG.IDEMPOTENCY.HEADER} no CORS (${family}): mutações vão sem a chave`);
+  }
+};
+
+/**
+ * Sonda as famílias sem resultado recente. Uma sondagem por vez; na mesma
+ * origem não há o que sondar.
+ */
+export function probeIdempotencySupport(): Promise<void> {
+  if (isSameOrigin(API_CONFIG.BASE_URL) || typeof fetch !== 'function') return Promise.resolve();
+  if (probePromise) return probePromise;
+
+  const support = loadSupport();
+  const stale = (Object.keys(PROBES) as EndpointFamily[]).filter(family => !isFresh(support[family]));
+  if (stale.length === 0) return Promise.resolve();
+
+  probePromise = Promise.all(stale.map(probeFamily))
+    .then(() => undefined)
+    .finally(() => {
+      probePromise = null;
+    });
+  return probePromise;
+}
+
+// ==================== CHAVES ====================
+export function createIdempotencyKey(): string {
+  return uuidv4();
+}
+
+/**
+ * A chave vai para esta URL? Na mesma origem sempre; em outra, se a sondagem
+ * da família confirmou o suporte. O localStorage ("idempotencyEnabled")
+ * força ligado ou desligado, para depurar.
+ */
+export function isIdempotencyEnabled(url: string): boolean {
+  const override = localStorage.getItem('idempotencyEnabled');
+  if (override !== null) return override === 'true';
+  if (isSameOrigin(url)) return true;
+
+  const record = loadSupport()[endpointFamilyOf(url)];
+  return !!record && record.supported;
+}
+
+/**
+ * Cabeçalho com a chave para a URL (vazio se o backend não aceita ou sem chave)
+ */
+export function idempotencyHeaders(key: string | undefined, url: string): Record<string, string> {
+  return key && isIdempotencyEnabled(url) ? { [API_CONFIG.IDEMPOTENCY.HEADER]: key } : {};
+}
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Transportes de tempo real (WebSocket e SSE) para eventos de pedidos
+ * @module services/api/client/realtime
+ *
+ * Os dois transportes entregam os mesmos SocketEvents (order_created,
+ * order_updated, order_deleted, status_changed) e reconectam sozinhos com
+ * backoff exponencial. Qual deles fica ativo é decidido pelo ConnectionManager:
+ * WebSocket, depois SSE, depois só polling.
+ */
+
+import { API_CONFIG } from '../config';
+import { Order, SocketEvent } from '../../../types';
+import { mapBackendToFrontendStatus, normalizeOrder } from '../normalizer';
+import { screenBackendOrder } from '../orderValidation';
+
+export type RealtimeState = 'idle' | 'connecting' | 'open' | 'closed';
+
+// 'polling' quando nenhum transporte de push está disponível
+export type TransportKind = 'websocket' | 'sse' | 'polling';
+
+type EventListener = (event: SocketEvent) => void;
+type StateListener = (state: RealtimeState) => void;
+
+export interface PushTransport {
+  readonly kind: Exclude<TransportKind, 'polling'>;
+  start(): void;
+  stop(): void;
+  getState(): RealtimeState;
+  // Tentativas seguidas sem conseguir abrir a conexão
+  getFailedAttempts(): number;
+  subscribe(listener: EventListener): () => void;
+  onStateChange(listener: StateListener): () => void;
+}
+
+const SOCKET_EVENT_TYPES: SocketEvent['type'][] = [
+  'order_created',
+  'order_updated',
+  'order_deleted',
+  'status_changed'
+];
+
+/**
+ * Os eventos trazem o pedido no formato do backend. Pedido completo passa
+ * pela mesma validação e normalização do polling (inválido vai para a
+ * quarentena); de um evento parcial só o status é aproveitado, e o resto
+ * deve ser buscado do backend.
+ */
+function normalizeEventData(data: any, orderId: string, type: SocketEvent['type']): Partial<Order> {
+  if (!data || typeof data !== 'object') return {};
+
+  if (Array.isArray(data.items)) {
+    const raw = data._id || data.id ? data : { ...data, _id: orderId };
+    try {
+      return normalizeOrder(screenBackendOrder(raw, `realtime.${type}`));
+    } catch (error) {
+      console.warn(`⚠️ Evento ${type} do pedido ${orderId} ignorado:`, error);
+      return {};
+    }
+  }
+
+  return typeof data.status === 'string' ? { status: mapBackendToFrontendStatus(data.status) } : {};
+}
+
+/**
+ * Converte uma mensagem do socket em SocketEvent.
+ * Mensagens de controle (ping, hello) e formatos desconhecidos retornam null.
+ */
+export function parseSocketEvent(raw: string): SocketEvent | null {
+  try {
+    const message = JSON.parse(raw);
+    if (!message || !SOCKET_EVENT_TYPES.includes(message.type) || !message.orderId) {
+      return null;
+    }
+
+    const orderId = String(message.orderId);
+
+    return {
+      type: message.type,
+      orderId,
+      data: normalizeEventData(message.data, orderId, message.type),
+      timestamp: message.timestamp ? new Date(message.timestamp) : new Date(),
+      userId: message.userId
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ==================== BASE ====================
+
+/**
+ * Reconexão, heartbeat e distribuição de eventos comuns aos transportes.
+ * Cada transporte só sabe abrir e fechar a sua conexão.
+ */
+abstract class ReconnectingTransport implements PushTransport {
+  abstract readonly kind: Exclude<TransportKind, 'polling'>;
+
+  private state: RealtimeState = 'idle';
+  private shouldRun: boolean = false;
+  private connected: boolean = false;
+
+  private reconnectAttempts: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private eventListeners = new Set<EventListener>();
+  private stateListeners = new Set<StateListener>();
+
+  protected abstract isSupported(): boolean;
+  protected abstract openConnection(): void;
+  protected abstract closeConnection(): void;
+
+  start(): void {
+    if (!API_CONFIG.REALTIME.ENABLED || !this.isSupported()) return;
+
+    this.shouldRun = true;
+    if (this.connected || this.reconnectTimer || this.state === 'connecting') return;
+    this.connect();
+  }
+
+  stop(): void {
+    this.shouldRun = false;
+    this.clearTimers();
+    this.reconnectAttempts = 0;
+
+    if (this.connected || this.state === 'connecting') {
+      this.connected = false;
+      this.closeConnection();
+    }
+    this.setState('idle');
+  }
+
+  getState(): RealtimeState {
+    return this.state;
+  }
+
+  getFailedAttempts(): number {
+    return this.reconnectAttempts;
+  }
+
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // ==================== CALLBACKS DOS TRANSPORTES ====================
+
+  protected handleOpen(): void {
+    console.log(`⚡ Tempo real conectado (${this.kind})`);
+    this.connected = true;
+    this.reconnectAttempts = 0;
+    this.resetHeartbeat();
+    this.setState('open');
+  }
+
+  protected handleMessage(raw: unknown): void {
+    // Qualquer mensagem (inclusive ping) prova que a conexão está viva
+    this.resetHeartbeat();
+
+    const event = typeof raw === 'string' ? parseSocketEvent(raw) : null;
+    if (event) this.emit(event);
+  }
+
+  protected handleClose(): void {
+    if (!this.shouldRun) return;
+
+    this.connected = false;
+    this.closeConnection();
+    this.clearTimers();
+    this.setState('closed');
+    this.scheduleReconnect();
+  }
+
+  // ==================== CONEXÃO ====================
+
+  private connect(): void {
+    this.reconnectTimer = null;
+    this.setState('connecting');
+
+    try {
+      this.openConnection();
+    } catch (error) {
+      console.warn(`⚠️ Não foi possível abrir o ${this.kind}:`, error);
+      this.setState('closed');
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.shouldRun || this.reconnectTimer) return;
+
+    const { RECONNECT_BASE_DELAY, RECONNECT_MAX_DELAY } = API_CONFIG.REALTIME;
+    const exponential = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts));
+    // Jitter para várias abas/lojas não reconectarem todas no mesmo instante
+    const delay = exponential / 2 + Math.random() * exponential / 2;
+
+    this.reconnectAttempts += 1;
+    console.log(`🔌 ${this.kind} desconectado. Nova tentativa em ${Math.round(delay / 1000)}s`);
+
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  /**
+   * Se nada chegar dentro do limite, a conexão é considerada morta
+   * (proxies às vezes derrubam a conexão sem avisar)
+   */
+  private resetHeartbeat(): void {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+
+    this.heartbeatTimer = setTimeout(() => {
+      console.warn(`⚠️ ${this.kind} sem sinal, reconectando...`);
+      this.handleClose();
+    }, API_CONFIG.REALTIME.HEARTBEAT_TIMEOUT);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  private setState(state: RealtimeState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  private emit(event: SocketEvent): void {
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Erro ao processar evento de tempo real:', error);
+      }
+    });
+  }
+}
+
+// ==================== WEBSOCKET ====================
+
+class WebSocketTransport extends ReconnectingTransport {
+  readonly kind = 'websocket' as const;
+  private socket: WebSocket | null = null;
+
+  /**
+   * URL do socket. Pode ser trocada pelo localStorage ("realtimeUrl"),
+   * por exemplo para usar o servidor local de testes (mock-server.js).
+   */
+  private get url(): string {
+    return localStorage.getItem('realtimeUrl') || API_CONFIG.REALTIME.URL;
+  }
+
+  protected isSupported(): boolean {
+    return typeof WebSocket !== 'undefined';
+  }
+
+  protected openConnection(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => this.handleOpen();
+    socket.onmessage = (message: MessageEvent) => this.handleMessage(message.data);
+    socket.onclose = () => {
+      if (this.socket === socket) this.handleClose();
+    };
+    socket.onerror = () => {
+      // O onclose vem em seguida e cuida da reconexão
+      console.warn('⚠️ Erro no WebSocket de tempo real');
+    };
+  }
+
+  protected closeConnection(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+}
+
+// ==================== SSE ====================
+
+/**
+ * Server-Sent Events: só leitura, sobre HTTP comum. Funciona atrás de
+ * proxies que derrubam WebSockets.
+ */
+class EventSourceTransport extends ReconnectingTransport {
+  readonly kind = 'sse' as const;
+  private source: EventSource | null = null;
+
+  // Pode ser trocada pelo localStorage ("realtimeSseUrl")
+  private get url(): string {
+    return localStorage.getItem('realtimeSseUrl') || API_CONFIG.REALTIME.SSE_URL;
+  }
+
+  protected isSupported(): boolean {
+    return typeof EventSource !== 'undefined';
+  }
+
+  protected openConnection(): void {
+    const source = new EventSource(this.url);
+    this.source = source;
+
+    source.onopen = () => this.handleOpen();
+    source.onmessage = (message: MessageEvent) => this.handleMessage(message.data);
+    source.onerror = () => {
+      // O EventSource reconectaria sozinho sem backoff; fechamos e usamos o nosso
+      if (this.source === source) this.handleClose();
+    };
+  }
+
+  protected closeConnection(): void {
+    const source = this.source;
+    this.source = null;
+    source?.close();
+  }
+}
+
+export const webSocketTransport: PushTransport = new WebSocketTransport();
+export const sseTransport: PushTransport = new EventSourceTransport();
@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Camada de resiliência compartilhada: backoff com jitter,
+ * circuit breaker por endpoint e memória da família de endpoint (REST ou legado)
+ * @module services/api/client/resilience
+ *
+ * Usada por fetchWithConfig, CompleteApiAdapter.request e OrdersService.
+ * Um endpoint que falha seguidamente tem o circuito aberto: as chamadas
+ * falham na hora, sem ir à rede, até o tempo de espera acabar. Depois disso
+ * uma única chamada de teste (meio-aberto) decide se ele volta ou não.
+ */
+
+import { API_CONFIG } from '../config';
+
+// ==================== TIPOS ====================
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export type EndpointFamily = 'rest' | 'legacy';
+
+export interface BreakerSnapshot {
+  endpoint: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  // Quando o circuito aberto aceita a próxima chamada de teste
+  nextAttemptAt: number | null;
+}
+
+export interface ResilienceSnapshot {
+  breakers: BreakerSnapshot[];
+  families: Record<string, EndpointFamily>;
+}
+
+/**
+ * Erro lançado sem ir à rede quando o circuito do endpoint está aberto
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly endpoint: string, public readonly retryAt: number) {
+    super(`Circuito aberto para ${endpoint}: nova tentativa em ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Backoff exponencial com jitter ("equal jitter"): metade fixa, metade
+ * aleatória, para clientes diferentes não tentarem no mesmo instante
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelay: number = API_CONFIG.RETRY_DELAY,
+  maxDelay: number = API_CONFIG.RESILIENCE.MAX_BACKOFF
+): number {
+  const exponential = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+/**
+ * Normaliza a URL para agrupar o breaker por rota: sem origem, query e ids
+ * (ex.: https://.../api/orders/65f0c1.../status → /api/orders/:id/status)
+ */
+export function endpointKey(url: string): string {
+  const path = url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+
+  return path
+    .split('/')
+    .map(segment => (/\d/.test(segment) && segment.length >= 6) || /^\d+$/.test(segment) ? ':id' : segment)
+    .join('/') || '/';
+}
+
+/**
+ * Só falhas do servidor ou da rede contam para o breaker; um 404 ou 422
+ * mostra que o endpoint está respondendo
+ */
+export function isBreakerFailureStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+// ==================== REGISTRO ====================
+
+class ResilienceRegistry {
+  private readonly FAMILIES_KEY = 'mercado_endpoint_families';
+
+  private breakers = new Map<string, BreakerSnapshot>();
+  private trialsInFlight = new Set<string>();
+  private families: Record<string, EndpointFamily> = this.loadFamilies();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Chamado antes de cada requisição. Lança CircuitOpenError se o circuito
+   * está aberto ou se a chamada de teste do meio-aberto já está em andamento.
+   */
+  beforeRequest(url: string): void {
+    const key = endpointKey(url);
+    const breaker = this.breakers.get(key);
+    if (!breaker || breaker.state === 'closed') return;
+
+    const now = Date.now();
+
+    if (breaker.state === 'open') {
+      if (breaker.nextAttemptAt && now < breaker.nextAttemptAt) {
+        throw new CircuitOpenError(key, breaker.nextAttemptAt);
+      }
+      breaker.state = 'half-open';
+      this.notify();
+    }
+
+    if (this.trialsInFlight.has(key)) {
+      throw new CircuitOpenError(key, now + API_CONFIG.RESILIENCE.OPEN_DURATION);
+    }
+    this.trialsInFlight.add(key);
+  }
+
+  recordSuccess(url: string): void {
+    const key = endpointKey(url);
+    const breaker = this.getBreaker(key);
+
+    this.trialsInFlight.delete(key);
+    breaker.state = 'closed';
+    breaker.consecutiveFailures = 0;
+    breaker.totalSuccesses += 1;
+    breaker.lastSuccessAt = Date.now();
+    breaker.nextAttemptAt = null;
+    this.notify();
+  }
+
+  recordFailure(url: string, error: unknown): void {
+    const key = endpointKey(url);
+    const breaker = this.getBreaker(key);
+    const { FAILURE_THRESHOLD, OPEN_DURATION } = API_CONFIG.RESILIENCE;
+
+    this.trialsInFlight.delete(key);
+    breaker.consecutiveFailures += 1;
+    breaker.totalFailures += 1;
+    breaker.lastFailureAt = Date.now();
+    breaker.lastError = error instanceof Error ? error.message : String(error);
+
+    // Falha no teste do meio-aberto reabre na hora
+    if (breaker.state === 'half-open' || breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (breaker.state !== 'open') {
+        console.warn(`🚧 Circuito aberto para ${key} após ${breaker.consecutiveFailures} falhas`);
+      }
+      breaker.state = 'open';
+      breaker.nextAttemptAt = Date.now() + OPEN_DURATION;
+    }
+    this.notify();
+  }
+
+  isOpen(url: string): boolean {
+    return this.breakers.get(endpointKey(url))?.state === 'open';
+  }
+
+  // ==================== FAMÍLIA DE ENDPOINT ====================
+
+  getPreferredFamily(operation: string): EndpointFamily {
+    return this.families[operation] || 'rest';
+  }
+
+  /**
+   * Tenta primeiro a família (REST ou legado) que funcionou por último para
+   * a operação e só então a outra. A que responder passa a ser a preferida.
+   */
+  async withEndpointFallback<T>(
+    operation: string,
+    attempts: Record<EndpointFamily, () => Promise<T>>
+  ): Promise<T> {
+    const preferred = this.getPreferredFamily(operation);
+    const order: EndpointFamily[] = preferred === 'rest' ? ['rest', 'legacy'] : ['legacy', 'rest'];
+    let lastError: unknown = null;
+
+    for (const family of order) {
+      try {
+        const result = await attempts[family]();
+        this.rememberFamily(operation, family);
+        return result;
+      } catch (error) {
+        lastError = error;
+        console.warn(`Falha no endpoint ${family === 'rest' ? 'RESTful' : 'legado'} (${operation}):`, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Registra a família que respondeu para a operação
+   */
+  rememberFamily(operation: string, family: EndpointFamily): void {
+    if (this.families[operation] === family) return;
+    this.families[operation] = family;
+    this.saveFamilies();
+    this.notify();
+  }
+
+  // ==================== DIAGNÓSTICO ====================
+
+  getSnapshot(): ResilienceSnapshot {
+    return {
+      breakers: Array.from(this.breakers.values()).map(breaker => ({ ...breaker })),
+      families: { ...this.families }
+    };
+  }
+
+  /**
+   * Fecha um circuito (ou todos) manualmente e esquece as famílias aprendidas
+   */
+  reset(endpoint?: string): void {
+    if (endpoint) {
+      this.breakers.delete(endpoint);
+      this.trialsInFlight.delete(endpoint);
+    } else {
+      this.breakers.clear();
+      this.trialsInFlight.clear();
+      this.families = {};
+      this.saveFamilies();
+    }
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getBreaker(key: string): BreakerSnapshot {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = {
+        endpoint: key,
+        state: 'closed',
+        consecutiveFailures: 0,
+        totalFailures: 0,
+        totalSuccesses: 0,
+        lastError: null,
+        lastFailureAt: null,
+        lastSuccessAt: null,
+        nextAttemptAt: null
+      };
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  private loadFamilies(): Record<string, EndpointFamily> {
+    try {
+      return JSON.parse(localStorage.getItem(this.FAMILIES_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveFamilies(): void {
+    try {
+      localStorage.setItem(this.FAMILIES_KEY, JSON.stringify(this.families));
+    } catch (error) {
+      console.error('❌ Erro ao salvar famílias de endpoint:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const resilience = new ResilienceRegistry();
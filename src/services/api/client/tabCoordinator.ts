@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Coordenação entre abas: só uma (a líder) conversa com a API
+ * @module services/api/client/tabCoordinator
+ *
+ * A liderança é um lock no localStorage renovado periodicamente; se a líder
+ * fecha (ou para de renovar), outra aba assume. As mensagens entre abas vão
+ * pelo BroadcastChannel ou, sem ele, por eventos "storage" do localStorage.
+ */
+
+import { SocketEvent } from '../../../types';
+import { ConnectionStatus, SyncResult } from '../types';
+import { SyncEntryResult } from '../../cache/indexedDBService';
+
+export type TabMessage =
+  | { type: 'sync-result'; result: SyncResult; status: ConnectionStatus }
+  | { type: 'socket-event'; event: SocketEvent }
+  | { type: 'status'; status: ConnectionStatus }
+  | { type: 'request-sync'; full?: boolean }
+  | { type: 'request-queue-sync' }
+  | { type: 'queue-changed' }
+  | { type: 'queue-entry-result'; result: SyncEntryResult }
+  | { type: 'hello' }
+  | { type: 'resign' };
+
+type MessageListener = (message: TabMessage) => void;
+type LeadershipListener = (isLeader: boolean) => void;
+
+interface LeaderLock {
+  tabId: string;
+  expiresAt: number;
+}
+
+const LOCK_KEY = 'mercado_tab_leader';
+const MESSAGE_KEY = 'mercado_tab_message';
+const CHANNEL_NAME = 'mercado_tabs';
+
+const HEARTBEAT_INTERVAL = 2000;
+const LOCK_TTL = 8000; // Abas em segundo plano podem atrasar a renovação
+
+// Sem BroadcastChannel as mensagens passam por JSON: recuperar as datas
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+const reviveDates = (_key: string, value: any) =>
+  typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+
+class TabCoordinator {
+  private readonly tabId = `tab_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  private channel: BroadcastChannel | null = null;
+  private leader: boolean = false;
+  private started: boolean = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private messageListeners = new Set<MessageListener>();
+  private leadershipListeners = new Set<LeadershipListener>();
+
+  /**
+   * Entra na eleição. Sem localStorage (ou fora do navegador) a aba é sempre líder.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (typeof window === 'undefined' || !this.hasLocalStorage()) {
+      this.leader = true;
+      return;
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent) => this.receive(message.data);
+    } else {
+      window.addEventListener('storage', this.handleStorage);
+    }
+
+    window.addEventListener('pagehide', this.resign);
+
+    this.tick();
+    this.heartbeatTimer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL);
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  getTabId(): string {
+    return this.tabId;
+  }
+
+  post(message: TabMessage): void {
+    if (!this.started) return;
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(message);
+      } else if (this.hasLocalStorage()) {
+        // O valor precisa mudar a cada envio para disparar o evento nas outras abas
+        localStorage.setItem(MESSAGE_KEY, JSON.stringify({ from: this.tabId, sentAt: Date.now(), message }));
+      }
+    } catch (error) {
+      console.warn('⚠️ Não foi possível avisar as outras abas:', error);
+    }
+  }
+
+  onMessage(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => {
+      this.messageListeners.delete(listener);
+    };
+  }
+
+  onLeadershipChange(listener: LeadershipListener): () => void {
+    this.leadershipListeners.add(listener);
+    return () => {
+      this.leadershipListeners.delete(listener);
+    };
+  }
+
+  // ==================== ELEIÇÃO ====================
+
+  /**
+   * Líder renova o lock; as demais assumem se ele expirou.
+   * Se duas abas assumirem juntas, a que não ficou com o lock desiste no próximo ciclo.
+   */
+  private tick(): void {
+    const lock = this.readLock();
+    const now = Date.now();
+
+    if (lock && lock.tabId !== this.tabId && lock.expiresAt > now) {
+      this.setLeader(false);
+      return;
+    }
+
+    this.writeLock({ tabId: this.tabId, expiresAt: now + LOCK_TTL });
+    this.setLeader(true);
+  }
+
+  private resign = () => {
+    if (!this.leader) return;
+
+    const lock = this.readLock();
+    if (lock?.tabId === this.tabId) {
+      localStorage.removeItem(LOCK_KEY);
+    }
+    this.post({ type: 'resign' });
+    this.setLeader(false);
+  }
+
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader) return;
+    this.leader = leader;
+
+    console.log(leader ? '👑 Esta aba assumiu a sincronização' : '👥 Outra aba está sincronizando');
+    this.leadershipListeners.forEach(listener => listener(leader));
+  }
+
+  // ==================== MENSAGENS ====================
+
+  private receive(message: TabMessage): void {
+    // Líder saiu: tentar assumir já, com um atraso aleatório para evitar empate
+    if (message.type === 'resign') {
+      setTimeout(() => this.tick(), Math.random() * 300);
+    }
+
+    this.messageListeners.forEach(listener => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('Erro ao processar mensagem de outra aba:', error);
+      }
+    });
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== MESSAGE_KEY || !event.newValue) return;
+
+    try {
+      const envelope = JSON.parse(event.newValue, reviveDates);
+      if (envelope.from !== this.tabId) this.receive(envelope.message);
+    } catch (error) {
+      console.warn('⚠️ Mensagem inválida de outra aba:', error);
+    }
+  }
+
+  // ==================== LOCK ====================
+
+  private readLock(): LeaderLock | null {
+    try {
+      const value = localStorage.getItem(LOCK_KEY);
+      return value ? JSON.parse(value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeLock(lock: LeaderLock): void {
+    try {
+      localStorage.setItem(LOCK_KEY, JSON.stringify(lock));
+    } catch (error) {
+      console.warn('⚠️ Não foi possível renovar a liderança da aba:', error);
+    }
+  }
+
+  private hasLocalStorage(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const tabCoordinator = new TabCoordinator();
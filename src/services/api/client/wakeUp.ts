@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Fase de "acordar" o backend hospedado no Render
+ * @module services/api/client/wakeUp
+ *
+ * No plano gratuito o Render desliga o servidor depois de um tempo sem uso e
+ * a primeira requisição pode levar dezenas de segundos. Antes de sincronizar,
+ * mandamos pings leves até o servidor responder ou o prazo acabar; só então a
+ * sincronização normal (e o fallback para dados de demonstração) acontece.
+ */
+
+import { API_CONFIG } from '../config';
+
+export interface ColdStartRecord {
+  startedAt: string;
+  durationMs: number;
+  attempts: number;
+  outcome: 'awake' | 'timeout';
+}
+
+class BackendWakeUp {
+  private readonly HISTORY_KEY = 'mercado_cold_starts';
+  private readonly MAX_HISTORY = 50;
+
+  private lastContactAt: number = 0;
+  private pending: Promise<boolean> | null = null;
+
+  private get pingUrl(): string {
+    return `${API_CONFIG.BASE_URL.split('/api')[0]}/health`;
+  }
+
+  /**
+   * Backend respondeu há pouco: não precisa de fase de wake-up
+   */
+  isAwake(): boolean {
+    return Date.now() - this.lastContactAt < API_CONFIG.WAKE_UP.AWAKE_TTL;
+  }
+
+  /**
+   * Chamado a cada resposta do backend (qualquer status abaixo de 500)
+   */
+  markAwake(): void {
+    this.lastContactAt = Date.now();
+  }
+
+  /**
+   * Faz pings até o backend responder ou o prazo acabar.
+   * Chamadas simultâneas compartilham a mesma fase.
+   */
+  wakeUp(): Promise<boolean> {
+    if (this.isAwake()) return Promise.resolve(true);
+
+    if (!this.pending) {
+      this.pending = this.run().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  getHistory(): ColdStartRecord[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.HISTORY_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private async run(): Promise<boolean> {
+    const { DEADLINE, PING_INTERVAL, COLD_START_THRESHOLD } = API_CONFIG.WAKE_UP;
+    const startedAt = Date.now();
+    let attempts = 0;
+
+    console.log('😴 Verificando se o servidor está acordado...');
+
+    while (Date.now() - startedAt < DEADLINE) {
+      attempts += 1;
+
+      if (await this.ping(DEADLINE - (Date.now() - startedAt))) {
+        const durationMs = Date.now() - startedAt;
+        this.markAwake();
+
+        if (durationMs >= COLD_START_THRESHOLD) {
+          console.log(`☀️ Servidor acordou em ${Math.round(durationMs / 1000)}s`);
+          this.record({ startedAt: new Date(startedAt).toISOString(), durationMs, attempts, outcome: 'awake' });
+        }
+        return true;
+      }
+
+      const remaining = DEADLINE - (Date.now() - startedAt);
+      if (remaining <= 0) break;
+      await new Promise(resolve => setTimeout(resolve, Math.min(PING_INTERVAL, remaining)));
+    }
+
+    const durationMs = Date.now() - startedAt;
+    console.warn(`⏰ Servidor não acordou em ${Math.round(durationMs / 1000)}s`);
+    this.record({ startedAt: new Date(startedAt).toISOString(), durationMs, attempts, outcome: 'timeout' });
+    return false;
+  }
+
+  /**
+   * Ping direto, sem retries nem circuit breaker: o servidor dormindo
+   * responde com erro ou demora, e isso é esperado aqui
+   */
+  private async ping(remaining: number): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), Math.min(API_CONFIG.WAKE_UP.PING_TIMEOUT, remaining));
+
+    try {
+      const response = await fetch(`${this.pingUrl}?_nocache=${Date.now()}`, {
+        method: 'GET',
+        mode: 'cors',
+        credentials: 'omit',
+        signal: controller.signal
+      });
+      return response.status < 500;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private record(entry: ColdStartRecord): void {
+    try {
+      const history = [entry, ...this.getHistory()].slice(0, this.MAX_HISTORY);
+      localStorage.setItem(this.HISTORY_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.error('❌ Erro ao registrar partida a frio:', error);
+    }
+  }
+}
+
+export const backendWakeUp = new BackendWakeUp();
@@ -19,6 +19,52 @@ export const API_CONFIG = {
   MAX_RETRIES: 3,
   RETRY_DELAY: 2000, // 2 segundos
   
+  // Wake-up do backend no Render (client/wakeUp.ts)
+  WAKE_UP: {
+    DEADLINE: 90 * 1000, // Depois disso segue a sincronização normal (e o modo demonstração)
+    PING_TIMEOUT: 10 * 1000,
+    PING_INTERVAL: 3 * 1000,
+    COLD_START_THRESHOLD: 5 * 1000, // Respostas mais lentas que isso contam como partida a frio
+    AWAKE_TTL: 10 * 60 * 1000 // O Render dorme após ~15 min sem requisições
+  },
+  
+  // Circuit breaker e backoff (client/resilience.ts)
+  RESILIENCE: {
+    FAILURE_THRESHOLD: 5, // Falhas seguidas para abrir o circuito
+    OPEN_DURATION: 30 * 1000, // Tempo aberto antes da chamada de teste
+    MAX_BACKOFF: 30 * 1000
+  },
+  
+  // Sincronização incremental (?updatedSince= / ?cursor=)
+  DELTA_SYNC: {
+    ENABLED: true,
+    OVERLAP: 30 * 1000, // Margem para diferença de relógio com o servidor
+    FULL_SYNC_EVERY: 15 // A cada N incrementais, uma completa para corrigir desvios
+  },
+  
+  // Tempo real (WebSocket, com SSE como alternativa). Com o socket saudável, o polling vira só uma rede de segurança.
+  REALTIME: {
+    ENABLED: true,
+    URL: 'wss://mercado-api-9sw5.onrender.com/ws',
+    SSE_URL: 'https://mercado-api-9sw5.onrender.com/api/events',
+    RECONNECT_BASE_DELAY: 1000,
+    RECONNECT_MAX_DELAY: 30 * 1000,
+    HEARTBEAT_TIMEOUT: 45 * 1000, // O servidor manda ping a cada ~20s
+    MAX_FAILED_ATTEMPTS: 3, // Falhas seguidas antes de passar ao próximo transporte
+    RENEGOTIATE_INTERVAL: 10 * 60 * 1000, // Só polling: tentar o WebSocket de novo depois disso
+    FALLBACK_SYNC_INTERVAL: 5 * 60 * 1000 // Polling enquanto o socket está conectado
+  },
+  
+  // Chave de idempotência nas mutações de pedido (client/idempotency.ts).
+  // Em outra origem o cabeçalho só vai se o backend o liberar no CORS
+  // (Access-Control-Allow-Headers): uma sondagem por família de endpoint
+  // descobre isso e o resultado vale por SUPPORT_TTL.
+  IDEMPOTENCY: {
+    HEADER: 'Idempotency-Key',
+    SUPPORT_TTL: 24 * 60 * 60 * 1000, // 24 horas
+    PROBE_TIMEOUT: 5000
+  },
+  
   // Cache
   CACHE_DURATION: 5 * 60 * 1000, // 5 minutos
   
@@ -9,8 +9,8 @@ import { CompleteApiAdapter } from './api-adapter-complete';
 // Configuração
 export { API_CONFIG } from '../../config/api.config';
 
-// Adaptadores
-export { ApiAdapter } from './adapter';
+// Normalização e cliente HTTP
+export { normalizeOrder, normalizeOrders, mapBackendToFrontendStatus, mapFrontendToBackendStatus } from './normalizer';
 export { CompleteApiAdapter } from './api-adapter-complete';
 
 // Serviços
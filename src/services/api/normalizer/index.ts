@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Normalizador único dos pedidos do backend
+ * @module services/api/normalizer
+ *
+ * Todo pedido que chega do backend (lista, delta, resposta de mutação,
+ * conflito da fila offline) passa por normalizeOrder. O formato é
+ * reconhecido por um perfil (ver profiles.ts) e cada parte do pedido é
+ * montada pelo resolvedor daquele perfil (ver resolvers.ts).
+ */
+
+import { Order, OrderPriority } from '../../../types';
+import { BackendProfileName, detectProfile, getProfile } from './profiles';
+import {
+  buildVariationCatalog,
+  firstNumber,
+  firstString,
+  resolveServerVersion,
+  resolveStatusHistory,
+  resolveStatusMessages,
+  ResolverContext
+} from './resolvers';
+import { mapBackendToFrontendStatus } from './status';
+
+export { mapBackendToFrontendStatus, mapFrontendToBackendStatus } from './status';
+export { parseItemUnit, toBackendWeightFields } from './units';
+export { BACKEND_PROFILES, detectProfile, getProfile } from './profiles';
+export type { BackendProfile, BackendProfileName } from './profiles';
+export type { OrderResolvers, FieldResolver, ResolverContext, ResolvedVariations } from './resolvers';
+
+/**
+ * Converte um pedido do backend para o formato do frontend. Sem perfil,
+ * usa o primeiro que reconhece o pedido.
+ */
+export function normalizeOrder(raw: any, profileName?: BackendProfileName): Order {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Dados de pedido inválidos: ${JSON.stringify(raw)}`);
+  }
+
+  // Respostas de mutação do backend vêm como { success, order }
+  if (!raw._id && !raw.id && raw.order && typeof raw.order === 'object') {
+    return normalizeOrder(raw.order, profileName);
+  }
+
+  const id = raw._id || raw.id;
+  if (!id) {
+    throw new Error('Pedido sem id na resposta do backend');
+  }
+
+  const profile = profileName ? getProfile(profileName) : detectProfile(raw);
+  const context: ResolverContext = {
+    orderId: String(id),
+    catalog: buildVariationCatalog(raw),
+    resolvers: profile.resolvers
+  };
+  const { resolvers } = profile;
+
+  const items = resolvers.items(raw, context);
+  const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+  return {
+    id: context.orderId,
+    orderNumber: firstNumber(raw.orderNumber, raw.number) ?? undefined,
+    customer: resolvers.customer(raw, context),
+    items,
+    subtotal,
+    deliveryFee: firstNumber(raw.deliveryFee, raw.delivery_fee) ?? 0,
+    discount: firstNumber(raw.discount) ?? 0,
+    total: firstNumber(raw.total, raw.totalPrice) || subtotal,
+    status: mapBackendToFrontendStatus(raw.status),
+    priority: (raw.priority || 'normal') as OrderPriority,
+    ...resolvers.payment(raw, context),
+    notes: firstString(raw.observations, raw.observation, raw.notes, raw.note),
+    ...resolvers.dates(raw, context),
+    ...(profile.source ? { source: profile.source } : {}),
+    ...resolveServerVersion(raw),
+    statusHistory: resolveStatusHistory(raw.statusChanges),
+    statusMessages: resolveStatusMessages(raw.statusMessages)
+  };
+}
+
+export function normalizeOrders(rawOrders: any[], profileName?: BackendProfileName): Order[] {
+  return rawOrders.map(raw => normalizeOrder(raw, profileName));
+}
@@ -0,0 +1,63 @@
+/**
+ * Corpus de arquivos dourados do normalizador: cada <nome>.raw.json em
+ * __fixtures__ é um pedido bruto de um perfil de backend e o
+ * <nome>.expected.json ao lado é o pedido normalizado esperado (datas em ISO).
+ *
+ * Mudança intencional na normalização? Regerar os esperados com
+ * UPDATE_GOLDEN=1 npm test -- normalizer e revisar o diff.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { normalizeOrder, detectProfile, BackendProfileName } from './index';
+
+// O catálogo sincronizado fica vazio: as variações vêm só das listas do pedido
+jest.mock('../../cache/ordersStorage', () => ({ ordersStorage: {} }));
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+// Perfil que cada pedido do corpus deve reconhecer
+const PROFILES: Record<string, BackendProfileName> = {
+  mongo: 'mongo',
+  legacy: 'legacy',
+  whatsapp: 'whatsapp'
+};
+
+const readJSON = (file: string) => JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8'));
+
+// Como o pedido fica depois de salvo (Date vira texto, undefined some)
+const serialize = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const cases = fs.readdirSync(FIXTURES_DIR)
+  .filter(file => file.endsWith('.raw.json'))
+  .map(file => file.replace('.raw.json', ''))
+  .sort();
+
+describe('normalizeOrder (arquivos dourados)', () => {
+  it('tem um caso para cada perfil de backend', () => {
+    expect(cases).toEqual(Object.keys(PROFILES).sort());
+  });
+
+  describe.each(cases)('%s', name => {
+    const raw = readJSON(`${name}.raw.json`);
+    const expectedFile = `${name}.expected.json`;
+
+    it('é reconhecido pelo perfil certo', () => {
+      expect(detectProfile(raw).name).toBe(PROFILES[name]);
+    });
+
+    it('normaliza como no arquivo esperado', () => {
+      const normalized = serialize(normalizeOrder(raw));
+
+      if (process.env.UPDATE_GOLDEN) {
+        fs.writeFileSync(path.join(FIXTURES_DIR, expectedFile), `${JSON.stringify(normalized, null, 2)}\n`);
+      }
+
+      expect(normalized).toEqual(readJSON(expectedFile));
+    });
+
+    it('dá o mesmo resultado com o perfil explícito', () => {
+      expect(serialize(normalizeOrder(raw, PROFILES[name]))).toEqual(readJSON(expectedFile));
+    });
+  });
+});
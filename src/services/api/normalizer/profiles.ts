@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Perfis de backend do normalizador de pedidos
+ * @module services/api/normalizer/profiles
+ *
+ * Um perfil diz como reconhecer um formato de pedido e quais resolvedores
+ * usar nele. Novo formato? Crie um perfil trocando só os resolvedores que
+ * mudam e coloque-o em BACKEND_PROFILES antes do "mongo", que aceita tudo.
+ */
+
+import { Order } from '../../../types';
+import { defaultResolvers, firstString, FieldResolver, OrderResolvers, toDate } from './resolvers';
+
+// ==================== TIPOS ====================
+export type BackendProfileName = 'mongo' | 'legacy' | 'whatsapp';
+
+export interface BackendProfile {
+  name: BackendProfileName;
+  description: string;
+  matches: (raw: any) => boolean;
+  resolvers: OrderResolvers;
+  // Origem registrada no pedido normalizado
+  source?: Order['source'];
+}
+
+// ==================== LEGADO (/list-orders) ====================
+
+// Cliente em camelCase e, às vezes, só com "phone"
+const legacyCustomer: FieldResolver<Order['customer']> = (raw, context) => ({
+  ...defaultResolvers.customer(raw, context),
+  name: firstString(raw.customerName, raw.customer?.name, raw.customer_name) || 'Cliente',
+  phone: firstString(raw.customerPhone, raw.phone, raw.customer?.phone) || ''
+});
+
+// "date" é a data do pedido; não há data de atualização
+const legacyDates: FieldResolver<Pick<Order, 'createdAt' | 'updatedAt'>> = raw => {
+  const createdAt = toDate(raw.date) || toDate(raw.createdAt) || toDate(raw.created_at) || new Date();
+  return { createdAt, updatedAt: toDate(raw.updatedAt) || createdAt };
+};
+
+// ==================== WHATSAPP ====================
+
+// O chat do WhatsApp ("5511999999999@c.us") é o telefone quando o bot não preenche
+const whatsappCustomer: FieldResolver<Order['customer']> = (raw, context) => {
+  const customer = defaultResolvers.customer(raw, context);
+  const chatPhone = typeof raw.whatsapp_chat_id === 'string' ? raw.whatsapp_chat_id.split('@')[0] : '';
+  return { ...customer, phone: customer.phone || chatPhone };
+};
+
+// ==================== REGISTRO ====================
+export const BACKEND_PROFILES: BackendProfile[] = [
+  {
+    name: 'whatsapp',
+    description: 'Pedidos feitos pelo bot de WhatsApp',
+    matches: raw => raw.source === 'whatsapp' || !!raw.whatsapp_chat_id || !!raw.whatsapp_message_id,
+    resolvers: { ...defaultResolvers, customer: whatsappCustomer },
+    source: 'whatsapp'
+  },
+  {
+    name: 'legacy',
+    description: 'Formato do endpoint legado /list-orders',
+    matches: raw => 'customerName' in raw && !('customer_name' in raw),
+    resolvers: { ...defaultResolvers, customer: legacyCustomer, dates: legacyDates }
+  },
+  {
+    name: 'mongo',
+    description: 'API atual (MongoDB)',
+    matches: () => true,
+    resolvers: defaultResolvers
+  }
+];
+
+export function getProfile(name: BackendProfileName): BackendProfile {
+  const profile = BACKEND_PROFILES.find(candidate => candidate.name === name);
+  if (!profile) throw new Error(`Perfil de backend desconhecido: ${name}`);
+  return profile;
+}
+
+/**
+ * Primeiro perfil que reconhece o pedido
+ */
+export function detectProfile(raw: any): BackendProfile {
+  return BACKEND_PROFILES.find(profile => profile.matches(raw)) || getProfile('mongo');
+}
@@ -0,0 +1,367 @@
+/**
+ * @fileoverview Resolvedores de campo do normalizador de pedidos
+ * @module services/api/normalizer/resolvers
+ *
+ * Cada resolvedor lê um pedaço do pedido bruto (cliente, endereço, itens,
+ * variações, pagamento e datas). Os perfis de backend combinam os padrões
+ * daqui com os seus próprios, trocando só o que muda naquele formato.
+ */
+
+import { Customer, Order, OrderItem, OrderStatusChange, OrderStatusMessage } from '../../../types';
+import { isLikelyID, variationCatalog } from '../../persistence/variationCatalog';
+import { mapBackendToFrontendStatus } from './status';
+import { parseItemUnit } from './units';
+import { lineTotal, priceFactor } from '../../../utils/itemUnits';
+
+// ==================== TIPOS ====================
+export interface VariationEntry {
+  name: string;
+  price: number;
+  kind: 'flavor' | 'option' | 'unknown';
+}
+
+// Variações enviadas junto com o pedido (listas de sabores, opções...), por id
+export type VariationCatalog = Map<string, VariationEntry>;
+
+export interface ResolvedVariations {
+  // Acrescentado ao nome do item (sabor, tamanho)
+  nameSuffix: string;
+  notes: string[];
+  // Preço da variação, usado quando o item não traz preço
+  price: number | null;
+}
+
+export interface ResolverContext {
+  orderId: string;
+  catalog: VariationCatalog;
+  resolvers: OrderResolvers;
+}
+
+export type FieldResolver<T> = (raw: any, context: ResolverContext) => T;
+
+export interface OrderResolvers {
+  customer: FieldResolver<Customer>;
+  address: FieldResolver<string>;
+  items: FieldResolver<OrderItem[]>;
+  // Recebe o item bruto, não o pedido
+  variations: FieldResolver<ResolvedVariations>;
+  payment: FieldResolver<Pick<Order, 'paymentMethod' | 'paymentStatus'>>;
+  dates: FieldResolver<Pick<Order, 'createdAt' | 'updatedAt'>>;
+}
+
+// ==================== HELPERS ====================
+export const firstString = (...values: any[]): string | undefined =>
+  values.find(value => typeof value === 'string' && value.trim() !== '');
+
+/**
+ * Número ou texto numérico ("12,50" vale); null se não houver valor
+ */
+export function toNumber(value: any): number | null {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+}
+
+export const firstNumber = (...values: any[]): number | null => {
+  for (const value of values) {
+    const parsed = toNumber(value);
+    if (parsed !== null) return parsed;
+  }
+  return null;
+};
+
+export function toDate(value: any): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const nameOf = (obj: any): string | undefined =>
+  firstString(obj?.name, obj?.nome, obj?.title, obj?.titulo, obj?.description, obj?.descricao, obj?.label);
+
+const priceOf = (obj: any): number | null =>
+  firstNumber(obj?.price, obj?.preco, obj?.valor, obj?.value, obj?.cost, obj?.custo);
+
+// ==================== CATÁLOGO DE VARIAÇÕES ====================
+const CATALOG_KEYS = [
+  'flavors', 'sabores', 'options', 'opcoes', 'variations', 'variacoes', 'variants',
+  'attributes', 'product_attributes', 'extras', 'additionals', 'adicionais'
+];
+
+/**
+ * Monta o catálogo a partir das listas de variações que alguns backends
+ * mandam junto com o pedido. Só olha essas listas: os itens do pedido
+ * também têm id e nome e não são variações.
+ */
+export function buildVariationCatalog(raw: any): VariationCatalog {
+  const catalog: VariationCatalog = new Map();
+
+  CATALOG_KEYS.forEach(key => {
+    const list = raw[key];
+    const entries: any[] = Array.isArray(list) ? list : list && typeof list === 'object' ? Object.values(list) : [];
+
+    entries.forEach(entry => {
+      const id = entry?.id || entry?._id;
+      const name = nameOf(entry);
+      if (!id || !name) return;
+
+      const isFlavor = ['flavors', 'sabores'].includes(key) || entry.type === 'flavor' || entry.tipo === 'sabor';
+      const isOption = ['options', 'opcoes'].includes(key) || entry.type === 'option' || entry.tipo === 'opcao';
+
+      catalog.set(String(id), {
+        name,
+        price: priceOf(entry) ?? 0,
+        kind: isFlavor ? 'flavor' : isOption ? 'option' : 'unknown'
+      });
+    });
+  });
+
+  return catalog;
+}
+
+// ==================== RESOLVEDORES PADRÃO ====================
+
+/**
+ * Campos de variação do item. O sabor e o tamanho entram no nome; os demais,
+ * nas notas. Id sem nome conhecido vira "<Rótulo>_ID: <id>" para a
+ * interface resolver depois.
+ */
+const VARIATION_FIELDS: Array<{ field: string; label: string; idLabel: string; inName?: 'dash' | 'paren' }> = [
+  { field: 'flavor', label: 'Sabor', idLabel: 'Sabor_ID', inName: 'dash' },
+  { field: 'sabor', label: 'Sabor', idLabel: 'Sabor_ID', inName: 'dash' },
+  { field: 'size', label: 'Tamanho', idLabel: 'Variação_ID', inName: 'paren' },
+  { field: 'tamanho', label: 'Tamanho', idLabel: 'Variação_ID', inName: 'paren' },
+  { field: 'option', label: 'Opção', idLabel: 'Opção_ID' },
+  { field: 'variation', label: 'Variação', idLabel: 'Variação_ID' },
+  { field: 'variacao', label: 'Variação', idLabel: 'Variação_ID' },
+  { field: 'variationId', label: 'Variação', idLabel: 'Variação_ID' },
+  { field: 'variation_id', label: 'Variação', idLabel: 'Variação_ID' },
+  { field: 'variant', label: 'Variante', idLabel: 'Variação_ID' },
+  { field: 'tipo', label: 'Tipo', idLabel: 'Variação_ID' },
+  { field: 'type', label: 'Tipo', idLabel: 'Variação_ID' }
+];
+
+const NOTE_FIELDS = ['notes', 'note', 'observation', 'observations', 'observacao', 'obs', 'comments'];
+
+// Campos do item que não são variação nem observação
+const ITEM_FIELDS = [
+  '_id', 'id', 'name', 'product', 'description', 'quantity', 'price', 'unitPrice', 'unit_price',
+  'preco', 'valor', 'total', 'totalPrice', 'total_price', 'category', 'image', 'imageUrl', 'sku',
+  'unit', 'unit_type', 'weight', 'peso', 'actual_weight', 'price_per_kg'
+];
+
+// Palavras soltas que aparecem como chave em alguns payloads e não dizem nada
+const NOISE_KEYS = ['a', 'o', 'e', 'de', 'do', 'da', 'para'];
+
+const defaultVariations: FieldResolver<ResolvedVariations> = (rawItem, context) => {
+  const result: ResolvedVariations = { nameSuffix: '', notes: [], price: null };
+
+  const addName = (inName: 'dash' | 'paren' | undefined, label: string, name: string) => {
+    if (inName === 'dash') result.nameSuffix += ` - ${name}`;
+    else if (inName === 'paren') result.nameSuffix += ` (${name})`;
+    else result.notes.push(`${label}: ${name}`);
+  };
+
+  VARIATION_FIELDS.forEach(({ field, label, idLabel, inName }) => {
+    const value = rawItem[field];
+    if (!value) return;
+
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      const name = nameOf(value);
+      const price = priceOf(value);
+      if (price !== null && price > 0 && result.price === null) result.price = price;
+      if (name) {
+        addName(inName, label, name);
+        return;
+      }
+      // Objeto só com id: resolver como id
+      const id = value.id || value._id;
+      if (id) result.notes.push(`${idLabel}: ${id}`);
+      return;
+    }
+
+    if (typeof value !== 'string' || value.trim() === '') return;
+    const text = value.trim();
+
+    if (!isLikelyID(text)) {
+      addName(inName, label, text);
+      return;
+    }
+
+    // Catálogo sincronizado (ou nome dado pelo operador), depois as listas do próprio pedido
+    const known = variationCatalog.resolve(text);
+    const fromOrder = context.catalog.get(text);
+    const name = known?.name || fromOrder?.name;
+
+    if (!name) {
+      variationCatalog.noteUnresolved(text, firstString(rawItem.name, rawItem.product?.name));
+      result.notes.push(`${idLabel}: ${text}`);
+      return;
+    }
+    const price = fromOrder?.price || known?.price;
+    if (price && price > 0 && result.price === null) result.price = price;
+    addName(inName, label, name);
+  });
+
+  NOTE_FIELDS.forEach(field => {
+    const note = firstString(rawItem[field]);
+    if (note) result.notes.push(note);
+  });
+
+  // Outros campos de texto do item também podem ser variações
+  const known = new Set([...ITEM_FIELDS, ...NOTE_FIELDS, ...VARIATION_FIELDS.map(v => v.field)]);
+  Object.keys(rawItem).forEach(key => {
+    if (known.has(key) || NOISE_KEYS.includes(key.toLowerCase())) return;
+    const text = firstString(rawItem[key]);
+    if (text) result.notes.push(`${key}: ${text}`);
+  });
+
+  return result;
+};
+
+// Alguns backends mandam só o id do produto no lugar do nome
+const resolveItemName = (rawItem: any): string => {
+  const name = firstString(rawItem.name, rawItem.product, rawItem.product?.name, rawItem.description);
+  if (!name) return 'Item sem nome';
+  if (!isLikelyID(name)) return name;
+
+  const known = variationCatalog.resolveName(name);
+  if (!known) variationCatalog.noteUnresolved(name);
+  return known || name;
+};
+
+const defaultItems: FieldResolver<OrderItem[]> = (raw, context) => {
+  const rawItems: any[] = Array.isArray(raw.items) ? raw.items : [];
+
+  return rawItems.map((rawItem, index) => {
+    const variations = context.resolvers.variations(rawItem, context);
+    const unit = parseItemUnit(rawItem.unit_type ?? rawItem.unit);
+    const weighed = unit !== 'un';
+
+    // Nos itens pesados, "weight" é o peso pedido da linha inteira e a quantidade cobrada é o peso
+    const requestedWeight = weighed ? firstNumber(rawItem.weight, rawItem.peso, rawItem.quantity) ?? 0 : null;
+    const actualWeight = weighed ? firstNumber(rawItem.actual_weight) : null;
+    const quantity = weighed ? actualWeight ?? (requestedWeight as number) : toNumber(rawItem.quantity) ?? 1;
+
+    const pricePerKg = weighed ? firstNumber(rawItem.price_per_kg) : null;
+    let unitPrice = pricePerKg !== null
+      ? pricePerKg / priceFactor(unit)
+      : firstNumber(rawItem.price, rawItem.unitPrice, rawItem.unit_price, rawItem.preco, rawItem.valor);
+    const total = firstNumber(rawItem.totalPrice, rawItem.total_price, rawItem.total);
+    if (unitPrice === null && total !== null && quantity > 0) unitPrice = total / quantity;
+    if (unitPrice === null) unitPrice = variations.price ?? 0;
+
+    const baseName = resolveItemName(rawItem);
+    const option = rawItem.option;
+
+    return {
+      // Id estável entre sincronizações quando o backend não manda um
+      id: String(rawItem._id || rawItem.id || `${context.orderId}-item-${index}`),
+      name: baseName + variations.nameSuffix,
+      quantity,
+      unitPrice,
+      totalPrice: total ?? lineTotal(quantity, unitPrice),
+      ...(weighed
+        ? { unit, requestedWeight: requestedWeight as number, ...(actualWeight !== null ? { actualWeight } : {}) }
+        : {}),
+      // O id da opção volta ao backend como "option" ao editar os itens
+      category: (typeof option === 'string' && option) || option?.id || option?._id || rawItem.category || 'Outros',
+      notes: variations.notes.join(', ') || undefined
+    };
+  });
+};
+
+const defaultAddress: FieldResolver<string> = raw => {
+  const address = raw.address ?? raw.customer?.address;
+  if (typeof address === 'string') return address;
+  if (!address || typeof address !== 'object') return '';
+
+  let text = `${address.street || ''}, ${address.number || ''}, ${address.neighborhood || ''}`;
+  if (address.reference) text += ` - ${address.reference}`;
+  if (address.city && address.state) text += `, ${address.city}/${address.state}`;
+  return text;
+};
+
+const defaultCustomer: FieldResolver<Customer> = (raw, context) => ({
+  id: String(raw.customer?.id || raw.customer?._id || context.orderId),
+  name: firstString(raw.customer_name, raw.customerName, raw.customer?.name) || 'Cliente',
+  phone: firstString(raw.customerPhone, raw.customer_phone, raw.customer?.phone) || '',
+  address: context.resolvers.address(raw, context),
+  email: firstString(raw.customerEmail, raw.customer?.email),
+  isFrequent: false
+});
+
+const defaultPayment: FieldResolver<Pick<Order, 'paymentMethod' | 'paymentStatus'>> = raw => ({
+  paymentMethod: firstString(raw.paymentMethod, raw.payment_method, raw.payment) || 'Dinheiro',
+  paymentStatus: raw.paymentStatus || raw.payment_status || 'pending'
+});
+
+/**
+ * Sem data de atualização, vale a de criação (nunca o relógio deste aparelho,
+ * que mudaria a cada sincronização)
+ */
+const defaultDates: FieldResolver<Pick<Order, 'createdAt' | 'updatedAt'>> = raw => {
+  const createdAt = toDate(raw.created_at) || toDate(raw.createdAt) || toDate(raw.date) || new Date();
+  const updatedAt = toDate(raw.updatedAt) || toDate(raw.updated_at) || toDate(raw.lastUpdate) || createdAt;
+  return { createdAt, updatedAt };
+};
+
+export const defaultResolvers: OrderResolvers = {
+  customer: defaultCustomer,
+  address: defaultAddress,
+  items: defaultItems,
+  variations: defaultVariations,
+  payment: defaultPayment,
+  dates: defaultDates
+};
+
+// ==================== CAMPOS COMUNS ====================
+
+/**
+ * Versão do pedido no servidor (base para detectar conflitos).
+ * Só usa datas que vieram do backend: nunca o relógio deste aparelho.
+ */
+export function resolveServerVersion(raw: any): Pick<Order, 'serverVersion' | 'serverUpdatedAt'> {
+  const rawVersion = raw?.__v ?? raw?.version;
+  return {
+    serverVersion: typeof rawVersion === 'number' ? rawVersion : undefined,
+    serverUpdatedAt: toDate(raw?.updatedAt || raw?.updated_at || raw?.lastUpdate) || undefined
+  };
+}
+
+/**
+ * Converte statusChanges em histórico tipado
+ */
+export function resolveStatusHistory(rawChanges: any): OrderStatusChange[] {
+  if (!Array.isArray(rawChanges)) return [];
+
+  return rawChanges
+    .filter(change => change && (change.to || change.status))
+    .map((change, index) => ({
+      id: change._id || change.id || `change-${index}`,
+      from: change.from ? mapBackendToFrontendStatus(change.from) : null,
+      to: mapBackendToFrontendStatus(change.to || change.status),
+      by: change.by || change.user || undefined,
+      timestamp: new Date(change.timestamp || change.date || change.createdAt || Date.now()),
+      source: 'backend' as const
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Converte statusMessages em mensagens tipadas
+ */
+export function resolveStatusMessages(rawMessages: any): OrderStatusMessage[] {
+  if (!Array.isArray(rawMessages)) return [];
+
+  return rawMessages
+    .filter(message => message && typeof message.message === 'string')
+    .map((message, index) => ({
+      id: message._id || message.id || `message-${index}`,
+      status: mapBackendToFrontendStatus(message.status),
+      message: message.message,
+      timestamp: new Date(message.timestamp || message.date || message.createdAt || Date.now())
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
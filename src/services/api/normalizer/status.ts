@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Mapeamento de status entre backend e frontend
+ * @module services/api/normalizer/status
+ */
+
+import { OrderStatus } from '../../../types';
+
+const BACKEND_TO_FRONTEND: Record<string, OrderStatus> = {
+  'pending': OrderStatus.PENDING,
+  'novo': OrderStatus.PENDING,
+  'new': OrderStatus.PENDING,
+  'pendente': OrderStatus.PENDING,
+
+  'confirmed': OrderStatus.CONFIRMED,
+  'confirmado': OrderStatus.CONFIRMED,
+
+  'preparing': OrderStatus.PREPARING,
+  'preparando': OrderStatus.PREPARING,
+  'em preparo': OrderStatus.PREPARING,
+  'in progress': OrderStatus.PREPARING,
+  'em andamento': OrderStatus.PREPARING,
+
+  'ready': OrderStatus.READY,
+  'pronto': OrderStatus.READY,
+
+  'delivering': OrderStatus.OUT_FOR_DELIVERY,
+  'out for delivery': OrderStatus.OUT_FOR_DELIVERY,
+  'em entrega': OrderStatus.OUT_FOR_DELIVERY,
+  'enviado': OrderStatus.OUT_FOR_DELIVERY,
+
+  'completed': OrderStatus.DELIVERED,
+  'delivered': OrderStatus.DELIVERED,
+  'entregue': OrderStatus.DELIVERED,
+  'concluído': OrderStatus.DELIVERED,
+  'concluido': OrderStatus.DELIVERED,
+
+  'cancelled': OrderStatus.CANCELLED,
+  'canceled': OrderStatus.CANCELLED,
+  'cancelado': OrderStatus.CANCELLED
+};
+
+// O backend só conhece cinco status
+const FRONTEND_TO_BACKEND: Record<OrderStatus, string> = {
+  [OrderStatus.PENDING]: 'pending',
+  [OrderStatus.CONFIRMED]: 'pending',
+  [OrderStatus.PREPARING]: 'preparing',
+  [OrderStatus.READY]: 'preparing',
+  [OrderStatus.OUT_FOR_DELIVERY]: 'delivering',
+  [OrderStatus.DELIVERED]: 'completed',
+  [OrderStatus.CANCELLED]: 'cancelled'
+};
+
+/**
+ * Converte status do backend para frontend
+ */
+export function mapBackendToFrontendStatus(backendStatus: string | undefined | null): OrderStatus {
+  return BACKEND_TO_FRONTEND[String(backendStatus || '').toLowerCase().trim()] || OrderStatus.PENDING;
+}
+
+/**
+ * Converte status do frontend para backend
+ */
+export function mapFrontendToBackendStatus(frontendStatus: OrderStatus): string {
+  return FRONTEND_TO_BACKEND[frontendStatus] || 'pending';
+}
@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Unidade e peso dos itens entre backend e frontend
+ * @module services/api/normalizer/units
+ *
+ * O backend manda unit_type, weight (peso pedido) e price_per_kg; o painel
+ * devolve actual_weight depois da pesagem para que o peso conferido não se
+ * perca na próxima sincronização.
+ */
+
+import { ItemUnit, OrderItem } from '../../../types';
+import { isWeighed, priceFactor } from '../../../utils/itemUnits';
+
+const BACKEND_TO_UNIT: Record<string, ItemUnit> = {
+  'kg': 'kg',
+  'kilo': 'kg',
+  'quilo': 'kg',
+  'weight': 'kg',
+  'peso': 'kg',
+
+  'g': 'g',
+  'gr': 'g',
+  'gram': 'g',
+  'grama': 'g',
+  'gramas': 'g'
+};
+
+/**
+ * Unidade do item; desconhecida ou ausente vale como unidade
+ */
+export function parseItemUnit(value: unknown): ItemUnit {
+  if (typeof value !== 'string') return 'un';
+  return BACKEND_TO_UNIT[value.trim().toLowerCase()] || 'un';
+}
+
+/**
+ * Campos de peso do item no formato do backend (vazio nos itens por unidade)
+ */
+export function toBackendWeightFields(item: OrderItem): Record<string, string | number> {
+  if (!isWeighed(item)) return {};
+
+  const fields: Record<string, string | number> = {
+    unit_type: item.unit as ItemUnit,
+    weight: item.requestedWeight ?? item.quantity,
+    price_per_kg: item.unitPrice * priceFactor(item.unit)
+  };
+  if (item.actualWeight !== undefined) fields.actual_weight = item.actualWeight;
+  return fields;
+}
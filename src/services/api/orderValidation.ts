@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Validação dos pedidos recebidos do backend (JSON Schema / ajv)
+ * @module services/api/orderValidation
+ *
+ * Os pedidos brutos são validados antes da adaptação. Um pedido que não
+ * passa vai para a quarentena (com o payload e os erros) em vez de virar um
+ * pedido inventado no quadro. Cada formato conhecido tem seu schema; o
+ * formato é escolhido pelos campos presentes para que os erros apontem o
+ * que falta naquele formato, e não uma mistura dos três.
+ */
+
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { quarantine, QuarantineIssue } from '../persistence/quarantine';
+
+// ==================== TIPOS ====================
+export type BackendOrderVariant = 'backend' | 'rest' | 'legacy';
+
+export type OrderValidationResult =
+  | { valid: true; variant: BackendOrderVariant }
+  | { valid: false; variant: BackendOrderVariant | null; issues: QuarantineIssue[] };
+
+// ==================== SCHEMAS ====================
+const nonEmptyString = { type: 'string', minLength: 1, pattern: '\\S' };
+
+// Número ou texto numérico ("12,50" também vale: o adaptador converte)
+const numeric = {
+  anyOf: [
+    { type: 'number' },
+    { type: 'string', pattern: '^\\s*-?\\d+([.,]\\d+)?\\s*$' }
+  ]
+};
+
+const positiveQuantity = {
+  anyOf: [
+    { type: 'number', exclusiveMinimum: 0 },
+    { type: 'string', pattern: '^\\s*\\d+([.,]\\d+)?\\s*$' }
+  ]
+};
+
+const dateLike = { type: ['string', 'number'] };
+
+const itemNameRequired = {
+  anyOf: [
+    { required: ['name'], properties: { name: nonEmptyString } },
+    { required: ['product'], properties: { product: nonEmptyString } },
+    { required: ['description'], properties: { description: nonEmptyString } }
+  ]
+};
+
+/**
+ * BackendOrder: formato do bot de WhatsApp (MongoDB)
+ */
+export const backendOrderSchema = {
+  $id: 'BackendOrder',
+  type: 'object',
+  required: ['_id', 'customer_name', 'items'],
+  properties: {
+    _id: nonEmptyString,
+    customer_name: nonEmptyString,
+    customerPhone: { type: 'string' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'quantity', 'price'],
+        properties: {
+          name: nonEmptyString,
+          quantity: positiveQuantity,
+          price: numeric,
+          unit_type: { type: 'string' },
+          weight: positiveQuantity,
+          actual_weight: positiveQuantity,
+          price_per_kg: numeric
+        }
+      }
+    },
+    total: numeric,
+    status: nonEmptyString,
+    created_at: dateLike,
+    createdAt: dateLike,
+    updatedAt: dateLike,
+    __v: { type: 'number' }
+  }
+};
+
+/**
+ * Formato RESTful com o cliente como objeto
+ */
+export const restOrderSchema = {
+  $id: 'RestOrder',
+  type: 'object',
+  required: ['customer', 'items'],
+  anyOf: [
+    { required: ['id'], properties: { id: nonEmptyString } },
+    { required: ['_id'], properties: { _id: nonEmptyString } }
+  ],
+  properties: {
+    customer: {
+      type: 'object',
+      required: ['name'],
+      properties: {
+        name: nonEmptyString,
+        phone: { type: 'string' }
+      }
+    },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['quantity'],
+        allOf: [
+          itemNameRequired,
+          {
+            anyOf: [
+              { required: ['price'], properties: { price: numeric } },
+              { required: ['unitPrice'], properties: { unitPrice: numeric } }
+            ]
+          }
+        ],
+        properties: { quantity: positiveQuantity }
+      }
+    },
+    total: numeric,
+    status: nonEmptyString,
+    createdAt: dateLike,
+    updatedAt: dateLike
+  }
+};
+
+/**
+ * Formato legado (camelCase, itens com "product")
+ */
+export const legacyOrderSchema = {
+  $id: 'LegacyOrder',
+  type: 'object',
+  required: ['customerName', 'items'],
+  anyOf: [
+    { required: ['id'], properties: { id: nonEmptyString } },
+    { required: ['_id'], properties: { _id: nonEmptyString } }
+  ],
+  properties: {
+    customerName: nonEmptyString,
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['quantity', 'price'],
+        allOf: [itemNameRequired],
+        properties: {
+          quantity: positiveQuantity,
+          price: numeric
+        }
+      }
+    },
+    total: numeric,
+    status: nonEmptyString,
+    date: dateLike,
+    created_at: dateLike,
+    createdAt: dateLike
+  }
+};
+
+// ==================== VALIDADORES ====================
+const ajv = new Ajv({ allErrors: true, allowUnionTypes: true });
+
+const validators: Record<BackendOrderVariant, ValidateFunction> = {
+  backend: ajv.compile(backendOrderSchema),
+  rest: ajv.compile(restOrderSchema),
+  legacy: ajv.compile(legacyOrderSchema)
+};
+
+/**
+ * Escolhe o formato pelos campos presentes
+ */
+export function detectVariant(raw: any): BackendOrderVariant {
+  if (raw.customer && typeof raw.customer === 'object') return 'rest';
+  if ('customerName' in raw && !('customer_name' in raw)) return 'legacy';
+  return 'backend';
+}
+
+/**
+ * Tipo de falha usado na contagem: palavra-chave + caminho sem índices
+ * (ex.: "required /items/*" para item sem nome em qualquer posição)
+ */
+function toIssue(error: ErrorObject): QuarantineIssue {
+  const path = error.instancePath.replace(/\/\d+/g, '/*') || '/';
+  const missing = error.keyword === 'required' ? ` ${(error.params as any).missingProperty}` : '';
+
+  return {
+    type: `${error.keyword}${missing} ${path}`,
+    path: error.instancePath || '/',
+    message: error.message || error.keyword
+  };
+}
+
+export function validateBackendOrder(raw: unknown): OrderValidationResult {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      valid: false,
+      variant: null,
+      issues: [{ type: 'type /', path: '/', message: 'pedido não é um objeto' }]
+    };
+  }
+
+  const variant = detectVariant(raw);
+  const validate = validators[variant];
+  if (validate(raw)) return { valid: true, variant };
+
+  // anyOf repete os erros de cada alternativa; uma linha por tipo basta
+  const seen = new Set<string>();
+  const issues = (validate.errors || [])
+    .map(toIssue)
+    .filter(issue => {
+      const key = `${issue.type}|${issue.path}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return { valid: false, variant, issues };
+}
+
+/**
+ * Separa os pedidos válidos; os inválidos vão para a quarentena. Um pedido
+ * que volta válido sai da quarentena.
+ */
+export function screenBackendOrders<T = any>(rawOrders: T[], source: string): T[] {
+  const accepted: T[] = [];
+
+  rawOrders.forEach(raw => {
+    const result = validateBackendOrder(raw);
+    const id = raw && typeof raw === 'object' ? (raw as any)._id || (raw as any).id : undefined;
+
+    if (result.valid) {
+      if (id) quarantine.release(String(id));
+      accepted.push(raw);
+    } else {
+      quarantine.add(raw, result.issues, { source, variant: result.variant });
+    }
+  });
+
+  if (accepted.length < rawOrders.length) {
+    console.warn(`🚫 ${rawOrders.length - accepted.length} pedido(s) inválido(s) em quarentena (${source})`);
+  }
+  return accepted;
+}
+
+// Tem cara de pedido: um envelope só com success/message não tem
+const looksLikeOrder = (value: any): boolean =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  (value._id !== undefined || value.id !== undefined || Array.isArray(value.items));
+
+/**
+ * Tira o pedido dos envelopes de resposta: { success, order } das mutações e
+ * { success, data, message } do formato padronizado (ADAPTADOR_API_COMPLETO.md).
+ * Sem pedido no corpo (ex.: { success: true }), devolve null.
+ */
+export function extractBackendOrder(raw: any): unknown | null {
+  let current = raw;
+  // No máximo dois níveis: { success, data: { order } }
+  for (let depth = 0; depth < 3; depth++) {
+    if (looksLikeOrder(current)) return current;
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return null;
+
+    const inner = current.order !== undefined ? current.order : current.data;
+    if (inner === undefined || inner === null) return null;
+    current = inner;
+  }
+  return null;
+}
+
+/**
+ * Pedido único (GET de um pedido, evento de tempo real): a mesma triagem das
+ * listas. Inválido vai para a quarentena e lança erro, para a operação falhar
+ * em vez de virar um pedido inventado; resposta sem pedido também falha.
+ */
+export function screenBackendOrder<T = any>(raw: any, source: string): T {
+  const order = extractBackendOrder(raw);
+  if (order === null) {
+    throw new Error(`Resposta do backend sem pedido (${source})`);
+  }
+
+  const [accepted] = screenBackendOrders([order], source);
+  if (!accepted) {
+    throw new Error(`Pedido inválido na resposta do backend (${source}), enviado para a quarentena`);
+  }
+  return accepted as T;
+}
+
+/**
+ * Resposta 2xx de mutação: o backend pode devolver o pedido atualizado ou só
+ * confirmar ({ success: true }). Sem pedido é sucesso sem versão do servidor
+ * (null), e o estado local fica como está; pedido inválido lança como acima.
+ */
+export function screenMutationResponse<T = any>(raw: any, source: string): T | null {
+  return extractBackendOrder(raw) === null ? null : screenBackendOrder<T>(raw, source);
+}
@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Serviço do catálogo de produtos e variações
+ * @module services/api/services/catalog
+ */
+
+import { fetchWithConfig } from '../client/fetch';
+import { API_CONFIG } from '../config';
+import { resilience } from '../client/resilience';
+import { CatalogEntry } from '../../cache/ordersStorage';
+
+export type CatalogDownload =
+  | { notModified: true }
+  | { notModified: false; entries: CatalogEntry[]; version: string | null; etag: string | null };
+
+// Listas de variações dentro de um produto
+const VARIATION_KEYS: Array<{ key: string; kind: CatalogEntry['kind'] }> = [
+  { key: 'variations', kind: 'unknown' },
+  { key: 'variacoes', kind: 'unknown' },
+  { key: 'variants', kind: 'unknown' },
+  { key: 'flavors', kind: 'flavor' },
+  { key: 'sabores', kind: 'flavor' },
+  { key: 'options', kind: 'option' },
+  { key: 'opcoes', kind: 'option' }
+];
+
+const toPrice = (value: any): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const nameOf = (raw: any): string | undefined =>
+  [raw?.name, raw?.nome, raw?.title, raw?.description]
+    .find(value => typeof value === 'string' && value.trim() !== '');
+
+/**
+ * Serviço para baixar o catálogo
+ */
+export class CatalogService {
+  /**
+   * Baixa o catálogo inteiro. Com etag, o backend pode responder 304 e nada
+   * é baixado de novo.
+   */
+  static async fetchCatalog(etag: string | null): Promise<CatalogDownload> {
+    const headers: Record<string, string> = etag ? { 'If-None-Match': etag } : {};
+
+    const download = async (url: string): Promise<CatalogDownload> => {
+      const response = await fetchWithConfig(url, { method: 'GET', headers, retries: 1 });
+      if (response.status === 304) return { notModified: true };
+
+      const data = await response.json();
+      return {
+        notModified: false,
+        entries: CatalogService.parseCatalog(data),
+        version: data && !Array.isArray(data) && data.version != null ? String(data.version) : null,
+        etag: response.headers.get('ETag')
+      };
+    };
+
+    // Endpoint do catálogo ou a lista de produtos, começando pelo que funcionou por último
+    return resilience.withEndpointFallback('catalog.get', {
+      rest: () => download(`${API_CONFIG.BASE_URL}/catalog`),
+      legacy: () => download(`${API_CONFIG.BASE_URL}/products`)
+    });
+  }
+
+  /**
+   * Produtos (com as variações dentro) ou uma lista solta de variações
+   */
+  static parseCatalog(data: any): CatalogEntry[] {
+    const list = (key: string): any[] => (data && Array.isArray(data[key]) ? data[key] : []);
+    const products: any[] = Array.isArray(data) ? data : [...list('products'), ...list('produtos'), ...list('data')];
+    const entries: CatalogEntry[] = [];
+
+    products.forEach(product => {
+      const productId = product?._id || product?.id;
+      const productName = nameOf(product);
+      if (!productId || !productName) return;
+
+      entries.push({ id: String(productId), type: 'product', name: productName, kind: 'unknown', price: toPrice(product.price) });
+
+      VARIATION_KEYS.forEach(({ key, kind }) => {
+        (Array.isArray(product[key]) ? product[key] : []).forEach((variation: any) => {
+          const id = variation?._id || variation?.id;
+          const name = nameOf(variation);
+          if (!id || !name) return;
+          entries.push({
+            id: String(id),
+            type: 'variation',
+            name,
+            kind: variation.type === 'flavor' || variation.tipo === 'sabor' ? 'flavor' : kind,
+            price: toPrice(variation.price),
+            productId: String(productId),
+            productName
+          });
+        });
+      });
+    });
+
+    // Variações fora dos produtos (o produto vem só pelo id)
+    list('variations').forEach(variation => {
+      const id = variation?._id || variation?.id;
+      const name = nameOf(variation);
+      if (!id || !name) return;
+      entries.push({
+        id: String(id),
+        type: 'variation',
+        name,
+        kind: variation.type === 'flavor' || variation.tipo === 'sabor' ? 'flavor' : 'unknown',
+        price: toPrice(variation.price),
+        productId: variation.productId || variation.product_id || undefined
+      });
+    });
+
+    return entries;
+  }
+}
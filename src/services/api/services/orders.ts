@@ -6,90 +6,107 @@
 import { Order, OrderStatus, OrderItem } from '../../../types';
 import { postJSON, getJSON } from '../client/fetch';
 import { API_CONFIG } from '../config';
-import { ApiResponse, BackendOrder } from '../types';
-import { ApiAdapter } from '../adapter';
+import { ApiResponse, BackendOrder, OrdersDelta, MutationOptions } from '../types';
+import { normalizeOrder, mapFrontendToBackendStatus, toBackendWeightFields } from '../normalizer';
+import { screenBackendOrder, screenBackendOrders, screenMutationResponse } from '../orderValidation';
+import { resilience } from '../client/resilience';
+import { createIdempotencyKey, idempotencyHeaders } from '../client/idempotency';
+import { OrderMutationOperation, QueuedRequest } from '../../cache/indexedDBService';
+import { lineTotal } from '../../../utils/itemUnits';
+
+const sendRequest = <T>(request: QueuedRequest): Promise<T> =>
+  postJSON<T>(request.url, request.body, { method: request.method, headers: request.headers });
+
+// Mutação aceita sem o pedido no corpo: data fica vazio e o estado local vale
+const normalizeMutationResponse = (response: unknown, source: string): Order | undefined => {
+  const order = screenMutationResponse(response, source);
+  return order ? normalizeOrder(order) : undefined;
+};
 
 /**
  * Serviço para operações com pedidos
  */
 export class OrdersService {
+  // null = ainda não testado; false = backend ignora updatedSince/cursor nesta sessão
+  private static deltaSupported: boolean | null = null;
+  
   /**
    * Obtém todos os pedidos
    */
   static async fetchOrders(): Promise<ApiResponse<Order[]>> {
     try {
-      // Tentar primeiro o endpoint RESTful
-      try {
-        const response = await getJSON<any>(`${API_CONFIG.BASE_URL}/orders`);
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      return await resilience.withEndpointFallback('orders.list', {
+        rest: async () => {
+          const response = await getJSON<any>(`${API_CONFIG.BASE_URL}/orders`);
         
-        // Adicionar logs detalhados para debug
-        console.log('🔍 Resposta crua da API:', JSON.stringify(response).substring(0, 500) + '...');
+          // Adicionar logs detalhados para debug
+          console.log('🔍 Resposta crua da API:', JSON.stringify(response).substring(0, 500) + '...');
         
-        // Verificar e processar resposta em diferentes formatos
-        let ordersData: any[] = [];
+          // Verificar e processar resposta em diferentes formatos
+          let ordersData: any[] = [];
         
-        if (Array.isArray(response)) {
-          console.log(`📦 Resposta é um array direto com ${response.length} itens`);
-          ordersData = response;
-        } 
-        else if (response && typeof response === 'object') {
-          // Verificar várias propriedades possíveis que podem conter os dados
-          for (const key of ['data', 'orders', 'results', 'pedidos', 'items']) {
-            if (response[key] && Array.isArray(response[key])) {
-              console.log(`📦 Dados encontrados na propriedade '${key}' com ${response[key].length} itens`);
-              ordersData = response[key];
-              break;
+          if (Array.isArray(response)) {
+            console.log(`📦 Resposta é um array direto com ${response.length} itens`);
+            ordersData = response;
+          } 
+          else if (response && typeof response === 'object') {
+            // Verificar várias propriedades possíveis que podem conter os dados
+            for (const key of ['data', 'orders', 'results', 'pedidos', 'items']) {
+              if (response[key] && Array.isArray(response[key])) {
+                console.log(`📦 Dados encontrados na propriedade '${key}' com ${response[key].length} itens`);
+                ordersData = response[key];
+                break;
+              }
             }
           }
-        }
         
-        // Logar resultado antes de normalizar
-        console.log(`⚙️ Processando ${ordersData.length} pedidos antes da normalização`);
+          // Logar resultado antes de normalizar
+          console.log(`⚙️ Processando ${ordersData.length} pedidos antes da normalização`);
         
-        // Normalizar a resposta
-        const adaptedOrders = ordersData.map(order => ApiAdapter.adaptOrder(order));
-        console.log(`✅ ${adaptedOrders.length} pedidos normalizados com sucesso`);
+          // Validar e normalizar a resposta (inválidos vão para a quarentena)
+          const adaptedOrders = screenBackendOrders(ordersData, 'orders.list').map(order => normalizeOrder(order));
+          console.log(`✅ ${adaptedOrders.length} pedidos normalizados com sucesso`);
         
-        return {
-          success: true,
-          data: adaptedOrders,
-          message: `${adaptedOrders.length} pedidos obtidos com sucesso`
-        };
-      } catch (restError) {
-        console.warn('Falha ao usar endpoint RESTful para pedidos:', restError);
+          return {
+            success: true,
+            data: adaptedOrders,
+            message: `${adaptedOrders.length} pedidos obtidos com sucesso`
+          };
+        },
+        legacy: async () => {
+          const response = await postJSON<any>(`${API_CONFIG.BASE_URL}/list-orders`, {});
         
-        // Tentar endpoint legado
-        const response = await postJSON<any>(`${API_CONFIG.BASE_URL}/list-orders`, {});
+          // Logs detalhados também para o endpoint legado
+          console.log('🔍 Resposta crua da API (legado):', JSON.stringify(response).substring(0, 500) + '...');
         
-        // Logs detalhados também para o endpoint legado
-        console.log('🔍 Resposta crua da API (legado):', JSON.stringify(response).substring(0, 500) + '...');
+          // Mesmo processo de extração de dados
+          let ordersData: any[] = [];
         
-        // Mesmo processo de extração de dados
-        let ordersData: any[] = [];
-        
-        if (Array.isArray(response)) {
-          console.log(`📦 Resposta legado é um array direto com ${response.length} itens`);
-          ordersData = response;
-        } 
-        else if (response && typeof response === 'object') {
-          for (const key of ['data', 'orders', 'results', 'pedidos', 'items']) {
-            if (response[key] && Array.isArray(response[key])) {
-              console.log(`📦 Dados legado encontrados na propriedade '${key}' com ${response[key].length} itens`);
-              ordersData = response[key];
-              break;
+          if (Array.isArray(response)) {
+            console.log(`📦 Resposta legado é um array direto com ${response.length} itens`);
+            ordersData = response;
+          } 
+          else if (response && typeof response === 'object') {
+            for (const key of ['data', 'orders', 'results', 'pedidos', 'items']) {
+              if (response[key] && Array.isArray(response[key])) {
+                console.log(`📦 Dados legado encontrados na propriedade '${key}' com ${response[key].length} itens`);
+                ordersData = response[key];
+                break;
+              }
             }
           }
-        }
         
-        const adaptedOrders = ordersData.map(order => ApiAdapter.adaptOrder(order));
-        console.log(`✅ ${adaptedOrders.length} pedidos normalizados com sucesso (via endpoint legado)`);
+          const adaptedOrders = screenBackendOrders(ordersData, 'orders.legacy').map(order => normalizeOrder(order));
+          console.log(`✅ ${adaptedOrders.length} pedidos normalizados com sucesso (via endpoint legado)`);
         
-        return {
-          success: true,
-          data: adaptedOrders,
-          message: `${adaptedOrders.length} pedidos obtidos com sucesso (via endpoint legado)`
-        };
-      }
+          return {
+            success: true,
+            data: adaptedOrders,
+            message: `${adaptedOrders.length} pedidos obtidos com sucesso (via endpoint legado)`
+          };
+        }
+      });
     } catch (error) {
       console.error('Erro ao obter pedidos:', error);
       
@@ -108,27 +125,24 @@ export class OrdersService {
    */
   static async fetchOrder(orderId: string): Promise<ApiResponse<Order>> {
     try {
-      // Tentar primeiro o endpoint RESTful
-      try {
-        const response = await getJSON<BackendOrder>(`${API_CONFIG.BASE_URL}/orders/${orderId}`);
-        
-        return {
-          success: true,
-          data: ApiAdapter.adaptOrder(response),
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      const { response, message } = await resilience.withEndpointFallback('orders.get', {
+        rest: async () => ({
+          response: await getJSON<BackendOrder>(`${API_CONFIG.BASE_URL}/orders/${orderId}`),
           message: 'Pedido obtido com sucesso'
-        };
-      } catch (restError) {
-        console.warn('Falha ao usar endpoint RESTful para pedido:', restError);
-        
-        // Tentar endpoint legado
-        const response = await postJSON<BackendOrder>(`${API_CONFIG.BASE_URL}/get-order`, { id: orderId });
-        
-        return {
-          success: true,
-          data: ApiAdapter.adaptOrder(response),
+        }),
+        legacy: async () => ({
+          response: await postJSON<BackendOrder>(`${API_CONFIG.BASE_URL}/get-order`, { id: orderId }),
           message: 'Pedido obtido com sucesso (via endpoint legado)'
-        };
-      }
+        })
+      });
+      
+      // Validado fora do fallback: resposta inválida não é motivo para repetir no outro endpoint
+      return {
+        success: true,
+        data: normalizeOrder(screenBackendOrder(response, 'orders.get')),
+        message
+      };
     } catch (error) {
       console.error('Erro ao obter pedido:', error);
       
@@ -142,44 +156,101 @@ export class OrdersService {
     }
   }
   
+  /**
+   * Obtém só os pedidos alterados desde `since` (ou a partir de `cursor`).
+   * Retorna null quando o backend não suporta sincronização incremental:
+   * nesse caso o chamador deve fazer a sincronização completa.
+   */
+  static async fetchOrdersDelta(since: Date | null, cursor: string | null): Promise<OrdersDelta<Order> | null> {
+    if (OrdersService.deltaSupported === false || (!since && !cursor)) {
+      return null;
+    }
+    
+    const params = cursor
+      ? `cursor=${encodeURIComponent(cursor)}`
+      : `updatedSince=${encodeURIComponent(since!.toISOString())}`;
+    
+    const response = await getJSON<any>(`${API_CONFIG.BASE_URL}/orders?${params}&includeDeleted=true`);
+    
+    // Backend sem suporte ignora os parâmetros e devolve a lista completa
+    const isDeltaEnvelope = response && typeof response === 'object' && !Array.isArray(response) &&
+      ['deletedIds', 'deleted', 'tombstones', 'cursor', 'nextCursor', 'serverTime', 'updatedSince']
+        .some(key => key in response);
+    
+    if (!isDeltaEnvelope) {
+      console.log('ℹ️ Backend não suporta sincronização incremental, usando sincronização completa');
+      OrdersService.deltaSupported = false;
+      return null;
+    }
+    
+    OrdersService.deltaSupported = true;
+    
+    const rawOrders: any[] = ['orders', 'data', 'changed', 'results']
+      .map(key => response[key])
+      .find(Array.isArray) || [];
+    
+    // Tombstones podem vir em lista separada (ids ou objetos) ou marcados no próprio pedido
+    const rawTombstones: any[] = [response.deletedIds, response.deleted, response.tombstones]
+      .filter(Array.isArray)
+      .reduce((all: any[], list: any[]) => all.concat(list), []);
+    
+    const deletedIds = rawTombstones
+      .map(tombstone => typeof tombstone === 'object' && tombstone !== null
+        ? tombstone._id || tombstone.id || tombstone.orderId
+        : tombstone)
+      .filter(Boolean)
+      .map(String);
+    
+    const upserts: any[] = [];
+    rawOrders.forEach(rawOrder => {
+      if (rawOrder && (rawOrder.deleted === true || rawOrder.deletedAt || rawOrder.isDeleted)) {
+        deletedIds.push(String(rawOrder._id || rawOrder.id));
+      } else {
+        upserts.push(rawOrder);
+      }
+    });
+    
+    const changed: Order[] = screenBackendOrders(upserts, 'orders.delta').map(order => normalizeOrder(order));
+    
+    return {
+      kind: 'delta',
+      changed,
+      deletedIds,
+      cursor: response.nextCursor || response.cursor || null,
+      serverTime: response.serverTime ? new Date(response.serverTime) : null
+    };
+  }
+  
   /**
    * Atualiza o status de um pedido
    */
   static async updateOrderStatus(
     orderId: string, 
-    status: OrderStatus
+    status: OrderStatus,
+    options: MutationOptions = {}
   ): Promise<ApiResponse<Order>> {
     try {
-      // Mapear o status para o formato do backend
-      const backendStatus = ApiAdapter.mapFrontendToBackendStatus(status);
+      // A mesma chave vale para o endpoint RESTful e para o legado
+      const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
+      const requests = OrdersService.buildMutationRequests('updateStatus', orderId, { status }, idempotencyKey);
       
-      // Tentar primeiro o endpoint RESTful
-      try {
-        const response = await postJSON<BackendOrder>(
-          `${API_CONFIG.BASE_URL}/orders/${orderId}/status`,
-          { status: backendStatus }
-        );
-        
-        return {
-          success: true,
-          data: ApiAdapter.adaptOrder(response),
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      const { response, message } = await resilience.withEndpointFallback('orders.updateStatus', {
+        rest: async () => ({
+          response: await sendRequest<BackendOrder>(requests.rest),
           message: 'Status atualizado com sucesso'
-        };
-      } catch (restError) {
-        console.warn('Falha ao usar endpoint RESTful para atualizar status:', restError);
-        
-        // Tentar endpoint legado
-        const response = await postJSON<BackendOrder>(
-          `${API_CONFIG.BASE_URL}/update-order-status`,
-          { id: orderId, status: backendStatus }
-        );
-        
-        return {
-          success: true,
-          data: ApiAdapter.adaptOrder(response),
+        }),
+        legacy: async () => ({
+          response: await sendRequest<BackendOrder>(requests.legacy),
           message: 'Status atualizado com sucesso (via endpoint legado)'
-        };
-      }
+        })
+      });
+      
+      return {
+        success: true,
+        data: normalizeMutationResponse(response, 'orders.updateStatus'),
+        message
+      };
     } catch (error) {
       console.error('Erro ao atualizar status:', error);
       
@@ -193,35 +264,227 @@ export class OrdersService {
     }
   }
   
+  /**
+   * Atualiza campos simples de um pedido (etiquetas, responsável)
+   */
+  static async updateOrderFields(
+    orderId: string,
+    fields: Partial<Pick<Order, 'tags' | 'assignedTo'>>,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<Order>> {
+    try {
+      const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
+      const requests = OrdersService.buildMutationRequests('updateFields', orderId, fields, idempotencyKey);
+      
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      const { response, message } = await resilience.withEndpointFallback('orders.updateFields', {
+        rest: async () => ({
+          response: await sendRequest<BackendOrder>(requests.rest),
+          message: 'Pedido atualizado com sucesso'
+        }),
+        legacy: async () => ({
+          response: await sendRequest<BackendOrder>(requests.legacy),
+          message: 'Pedido atualizado com sucesso (via endpoint legado)'
+        })
+      });
+      
+      return {
+        success: true,
+        data: normalizeMutationResponse(response, 'orders.updateFields'),
+        message
+      };
+    } catch (error) {
+      console.error('Erro ao atualizar pedido:', error);
+      
+      return {
+        success: false,
+        error: {
+          code: 'UPDATE_ERROR',
+          message: error instanceof Error ? error.message : 'Erro ao atualizar pedido'
+        }
+      };
+    }
+  }
+
+  /**
+   * Exclui um pedido (no endpoint legado, cancela)
+   */
+  static async deleteOrder(
+    orderId: string,
+    options: MutationOptions = {}
+  ): Promise<ApiResponse<Order>> {
+    try {
+      const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
+      const requests = OrdersService.buildMutationRequests('delete', orderId, {}, idempotencyKey);
+      
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      const { response, message } = await resilience.withEndpointFallback('orders.delete', {
+        rest: async () => ({
+          response: await sendRequest<unknown>(requests.rest),
+          message: 'Pedido excluído com sucesso'
+        }),
+        legacy: async () => ({
+          response: await sendRequest<unknown>(requests.legacy),
+          message: 'Pedido cancelado com sucesso (via endpoint legado)'
+        })
+      });
+      
+      return {
+        success: true,
+        data: normalizeMutationResponse(response, 'orders.delete'),
+        message
+      };
+    } catch (error) {
+      console.error('Erro ao excluir pedido:', error);
+      
+      return {
+        success: false,
+        error: {
+          code: 'DELETE_ERROR',
+          message: error instanceof Error ? error.message : 'Erro ao excluir pedido'
+        }
+      };
+    }
+  }
+  
+  /**
+   * Monta as requisições de uma mutação no formato do backend, para o
+   * endpoint RESTful e para o legado. Ficam gravadas na fila de
+   * sincronização para o service worker reenviar com a aba fechada.
+   */
+  static buildMutationRequests(
+    operation: OrderMutationOperation,
+    orderId: string,
+    data: any,
+    idempotencyKey?: string
+  ): { rest: QueuedRequest; legacy: QueuedRequest } {
+    const { rest, legacy } = OrdersService.backendRequests(operation, orderId, data);
+    
+    // Cada família decide se leva a chave (o backend pode aceitá-la só em uma)
+    return {
+      rest: { ...rest, headers: idempotencyHeaders(idempotencyKey, rest.url) },
+      legacy: { ...legacy, headers: idempotencyHeaders(idempotencyKey, legacy.url) }
+    };
+  }
+  
+  private static backendRequests(
+    operation: OrderMutationOperation,
+    orderId: string,
+    data: any
+  ): { rest: QueuedRequest; legacy: QueuedRequest } {
+    switch (operation) {
+      case 'updateStatus': {
+        // Mapear o status para o formato do backend
+        const status = mapFrontendToBackendStatus(data.status);
+        return {
+          rest: { method: 'POST', url: `${API_CONFIG.BASE_URL}/orders/${orderId}/status`, body: { status } },
+          legacy: { method: 'POST', url: `${API_CONFIG.BASE_URL}/update-order-status`, body: { id: orderId, status } }
+        };
+      }
+      case 'updateItems': {
+        const items: OrderItem[] = data.items;
+        
+        // Adaptar itens para o formato do backend
+        const backendItems = items.map(item => ({
+          id: item.id,
+          name: item.name,
+          quantity: item.quantity,
+          price: item.unitPrice,
+          ...toBackendWeightFields(item)
+        }));
+        
+        // Calcular o novo total
+        const total = items.reduce((sum, item) => sum + lineTotal(item.quantity, item.unitPrice), 0);
+        
+        return {
+          rest: { method: 'PATCH', url: `${API_CONFIG.BASE_URL}/orders/${orderId}`, body: { items: backendItems, total } },
+          legacy: { method: 'POST', url: `${API_CONFIG.BASE_URL}/update-order`, body: { id: orderId, items: backendItems, total } }
+        };
+      }
+      case 'updateFields':
+        return {
+          rest: { method: 'PATCH', url: `${API_CONFIG.BASE_URL}/orders/${orderId}`, body: data },
+          legacy: { method: 'POST', url: `${API_CONFIG.BASE_URL}/update-order`, body: { id: orderId, ...data } }
+        };
+      case 'delete': {
+        // O endpoint legado não exclui: o pedido é cancelado
+        const status = mapFrontendToBackendStatus(OrderStatus.CANCELLED);
+        return {
+          rest: { method: 'DELETE', url: `${API_CONFIG.BASE_URL}/orders/${orderId}` },
+          legacy: { method: 'POST', url: `${API_CONFIG.BASE_URL}/update-order-status`, body: { id: orderId, status } }
+        };
+      }
+      default:
+        throw new Error(`Operação desconhecida na fila: ${operation}`);
+    }
+  }
+
+  /**
+   * Reenvia uma mutação da fila de sincronização offline.
+   * Lança erro se o backend recusar, para que a fila conte a tentativa;
+   * devolve o pedido do servidor quando a resposta o traz.
+   */
+  static async replayMutation(
+    operation: OrderMutationOperation,
+    orderId: string,
+    data: any,
+    idempotencyKey?: string
+  ): Promise<Order | undefined> {
+    const options: MutationOptions = { idempotencyKey };
+    let response: ApiResponse<Order>;
+
+    switch (operation) {
+      case 'updateStatus':
+        response = await OrdersService.updateOrderStatus(orderId, data.status, options);
+        break;
+      case 'updateItems':
+        response = await OrdersService.updateOrderItems(orderId, data.items, options);
+        break;
+      case 'updateFields':
+        response = await OrdersService.updateOrderFields(orderId, data, options);
+        break;
+      case 'delete':
+        response = await OrdersService.deleteOrder(orderId, options);
+        break;
+      default:
+        throw new Error(`Operação desconhecida na fila: ${operation}`);
+    }
+
+    if (!response.success) {
+      throw new Error(response.error?.message || 'Erro ao sincronizar pedido');
+    }
+
+    return response.data;
+  }
+
   /**
    * Atualiza os itens de um pedido
    */
   static async updateOrderItems(
     orderId: string,
-    items: OrderItem[]
+    items: OrderItem[],
+    options: MutationOptions = {}
   ): Promise<ApiResponse<Order>> {
     try {
-      // Adaptar itens para o formato do backend
-      const backendItems = items.map(item => ({
-        id: item.id,
-        name: item.name,
-        quantity: item.quantity,
-        price: item.unitPrice
-      }));
-      
-      // Calcular o novo total
-      const total = items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
+      const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
+      const requests = OrdersService.buildMutationRequests('updateItems', orderId, { items }, idempotencyKey);
       
-      // Tentar endpoint para atualizar itens
-      const response = await postJSON<BackendOrder>(
-        `${API_CONFIG.BASE_URL}/update-order`,
-        { id: orderId, items: backendItems, total }
-      );
+      // Endpoint RESTful ou legado, começando pelo que funcionou por último
+      const { response, message } = await resilience.withEndpointFallback('orders.updateItems', {
+        rest: async () => ({
+          response: await sendRequest<BackendOrder>(requests.rest),
+          message: 'Itens atualizados com sucesso'
+        }),
+        legacy: async () => ({
+          response: await sendRequest<BackendOrder>(requests.legacy),
+          message: 'Itens atualizados com sucesso (via endpoint legado)'
+        })
+      });
       
       return {
         success: true,
-        data: ApiAdapter.adaptOrder(response),
-        message: 'Itens atualizados com sucesso'
+        data: normalizeMutationResponse(response, 'orders.updateItems'),
+        message
       };
     } catch (error) {
       console.error('Erro ao atualizar itens:', error);
@@ -57,7 +57,9 @@ export interface BackendOrder {
     price: number;
     option?: string;
     unit_type?: string;
+    // Peso pedido; actual_weight é o conferido na balança (devolvido pelo painel)
     weight?: number;
+    actual_weight?: number;
     price_per_kg?: number;
     _id: string;
   }>;
@@ -104,6 +106,11 @@ export interface BackendApiResponse<T = any> {
   error?: string;
 }
 
+export interface MutationOptions {
+  // Reenvios da fila usam a chave gravada na entrada; sem ela uma nova é gerada
+  idempotencyKey?: string;
+}
+
 // ==================== TIPOS DE CONEXÃO ====================
 
 export interface ConnectionStatus {
@@ -112,6 +119,52 @@ export interface ConnectionStatus {
   lastSuccessfulSync: Date | null;
   retryCount: number;
   error: string | null;
+  // Cursor devolvido pela última sincronização incremental (se o backend usar cursor)
+  syncCursor?: string | null;
+  lastSyncMode?: SyncMode;
+  // Eventos chegando por WebSocket ou SSE (polling reduzido)
+  pushActive?: boolean;
+  transport?: 'websocket' | 'sse' | 'polling';
+  lastEventAt?: Date | null;
+  // Início da fase de wake-up do backend em andamento
+  wakingSince?: Date | null;
+}
+
+// Diagnóstico: mudanças de status e verificações de saúde desta sessão
+export interface ConnectionStatusRecord {
+  at: Date;
+  status: ConnectionStatus;
+}
+
+export interface HealthCheckRecord {
+  at: Date;
+  healthy: boolean;
+  latencyMs: number;
+  error: string | null;
+}
+
+// 'full' traz a lista completa; 'delta' só o que mudou desde a última sincronização
+export type SyncMode = 'full' | 'delta';
+
+/**
+ * Parâmetros passados à função de sincronização a cada rodada
+ */
+export interface SyncContext {
+  mode: SyncMode;
+  since: Date | null;
+  cursor: string | null;
+}
+
+/**
+ * Resposta de uma sincronização incremental: pedidos alterados e
+ * tombstones (ids excluídos no servidor)
+ */
+export interface OrdersDelta<T = any> {
+  kind: 'delta';
+  changed: T[];
+  deletedIds: string[];
+  cursor?: string | null;
+  serverTime?: Date | null;
 }
 
 export interface SyncResult<T = any> {
@@ -119,4 +172,7 @@ export interface SyncResult<T = any> {
   data?: T;
   cached?: boolean;
   error?: string;
+  mode?: SyncMode;
+  // Só em sincronizações incrementais
+  deletedIds?: string[];
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 // IndexedDB Service para cache persistente
+import { v4 as uuidv4 } from 'uuid';
+
 export interface CacheEntry {
   id: string;
   url: string;
@@ -8,6 +10,16 @@ export interface CacheEntry {
   version: number;
 }
 
+export type OrderMutationOperation = 'updateStatus' | 'updateItems' | 'updateFields' | 'delete';
+
+// Requisição já no formato do backend: o service worker reenvia sem precisar do app
+export interface QueuedRequest {
+  method: string;
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
 export interface SyncQueueEntry {
   id: string;
   method: string;
@@ -16,8 +28,38 @@ export interface SyncQueueEntry {
   timestamp: number;
   retryCount: number;
   maxRetries: number;
+  // Mutações de pedido são reenviadas pelo OrdersService (REST com fallback legado)
+  orderId?: string;
+  operation?: OrderMutationOperation;
+  // Requisições prontas por família de endpoint, tentadas nesta ordem (REST, legado)
+  requests?: { rest: QueuedRequest; legacy: QueuedRequest };
+  // Versão do servidor sobre a qual a mutação foi feita (conferida antes do reenvio)
+  base?: { version?: number; updatedAt?: string };
+  // Mesma chave em todos os reenvios: o backend descarta as repetições
+  idempotencyKey?: string;
+  // Cabeçalhos das entradas avulsas (sem requests) montados pela aba para o service worker
+  headers?: Record<string, string>;
+  // Gravada na janela de desfazer: só é enviada a partir deste instante (ms)
+  notBefore?: number;
+  // 'failed' quando esgotou as tentativas: fica na fila até uma nova tentativa manual
+  status?: 'pending' | 'failed';
+  lastError?: string;
+}
+
+/**
+ * Resultado de uma entrada numa rodada da fila: enviada, recusada pelo
+ * servidor (fica para nova tentativa), em conflito ou ainda na fila
+ * (sem conexão, atrás de outra do mesmo pedido, rodada ainda não chegou nela)
+ */
+export interface SyncEntryResult {
+  entryId: string;
+  orderId?: string;
+  outcome: 'sent' | 'failed' | 'conflict' | 'queued';
+  error?: string;
 }
 
+export type SyncMutationInfo = Pick<SyncQueueEntry, 'orderId' | 'operation' | 'requests' | 'base' | 'idempotencyKey' | 'notBefore'>;
+
 class IndexedDBService {
   private dbName = 'PainelPedidosCache';
   private version = 1;
@@ -178,7 +220,8 @@ class IndexedDBService {
     method: string,
     url: string,
     data?: any,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    mutation: SyncMutationInfo = {}
   ): Promise<string> {
     const db = await this.ensureDB();
     const transaction = db.transaction(['syncQueue'], 'readwrite');
@@ -192,7 +235,10 @@ class IndexedDBService {
       data,
       timestamp: Date.now(),
       retryCount: 0,
-      maxRetries
+      maxRetries,
+      status: 'pending',
+      idempotencyKey: uuidv4(),
+      ...mutation
     };
 
     return new Promise((resolve, reject) => {
@@ -12,6 +12,64 @@ export interface StoredOrder extends Order {
   version: number;
 }
 
+// Ações registradas no sync_log: gravações locais, reenvios da fila e arquivamento
+export type SyncLogAction = 'create' | 'update' | 'replace' | 'delete' | 'replay' | 'archive';
+export type SyncLogOutcome = 'success' | 'failure' | 'conflict';
+
+export interface SyncLogEntry {
+  id?: number;
+  orderId: string; // '*' para operações sobre todos os pedidos
+  action: SyncLogAction;
+  timestamp: Date;
+  // Registros antigos não têm resultado: foram gravações bem-sucedidas
+  outcome?: SyncLogOutcome;
+  data?: any;
+}
+
+// Resumo compacto guardado no lugar de um pedido removido pela retenção
+export interface ArchivedOrder {
+  id: string;
+  orderNumber?: number;
+  customerName: string;
+  customerPhone?: string;
+  itemCount: number;
+  total: number;
+  status: OrderStatus;
+  paymentMethod: string;
+  createdAt: Date;
+  updatedAt: Date;
+  archivedAt: Date;
+  reason: 'age' | 'count';
+}
+
+// Cópia dos pedidos guardada no store "backup" enquanto uma migração roda
+export interface MigrationRollbackCopy {
+  id: string;
+  orders: StoredOrder[];
+  fromVersion: number;
+  backupDate: Date;
+  count: number;
+}
+
+// Produto ou variação do catálogo baixado do backend
+export interface CatalogEntry {
+  id: string;
+  type: 'product' | 'variation';
+  name: string;
+  kind: 'flavor' | 'option' | 'unknown';
+  price?: number;
+  productId?: string;
+  productName?: string;
+}
+
+// Versão do catálogo salvo, para a próxima atualização condicional
+export interface CatalogMeta {
+  version: string | null;
+  etag: string | null;
+  syncedAt: string;
+  count: number;
+}
+
 export interface OrdersStorageStats {
   totalOrders: number;
   pendingSync: number;
@@ -23,7 +81,7 @@ export interface OrdersStorageStats {
 
 class OrdersStorageService {
   private dbName = 'MercadoExpressPedidos';
-  private version = 3;
+  private version = 5;
   private db: IDBDatabase | null = null;
 
   async init(): Promise<void> {
@@ -77,6 +135,20 @@ class OrdersStorageService {
           backupStore.createIndex('backupDate', 'backupDate', { unique: false });
           console.log('💾 Store de backup criado');
         }
+
+        // Store de pedidos arquivados pela política de retenção (resumo compacto)
+        if (!db.objectStoreNames.contains('archive')) {
+          const archiveStore = db.createObjectStore('archive', { keyPath: 'id' });
+          archiveStore.createIndex('archivedAt', 'archivedAt', { unique: false });
+          console.log('🗄️ Store de arquivo criado');
+        }
+
+        // Store do catálogo de produtos e variações (nomes dos ids dos itens)
+        if (!db.objectStoreNames.contains('catalog')) {
+          const catalogStore = db.createObjectStore('catalog', { keyPath: 'id' });
+          catalogStore.createIndex('type', 'type', { unique: false });
+          console.log('🏷️ Store de catálogo criado');
+        }
       };
     });
   }
@@ -123,8 +195,9 @@ class OrdersStorageService {
         orderId: order.id,
         action: existingOrder ? 'update' : 'create',
         timestamp: new Date(),
+        outcome: 'success',
         data: { orderNumber: order.orderNumber, status: order.status }
-      });
+      } as SyncLogEntry);
 
       orderRequest.onsuccess = () => {
         console.log(`💾 Pedido ${order.id} salvo permanentemente`);
@@ -169,6 +242,117 @@ class OrdersStorageService {
     return savedCount;
   }
 
+  /**
+   * Substitui o conjunto de pedidos salvos numa única transação.
+   * Pedidos ausentes da lista são removidos; os demais têm a versão incrementada.
+   */
+  async replaceAllOrders(orders: Order[]): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['orders', 'sync_log'], 'readwrite');
+    const ordersStore = transaction.objectStore('orders');
+    const syncStore = transaction.objectStore('sync_log');
+
+    return new Promise((resolve, reject) => {
+      const request = ordersStore.getAll();
+
+      request.onsuccess = () => {
+        const existingById = new Map<string, StoredOrder>(
+          (request.result as StoredOrder[]).map(order => [order.id, order])
+        );
+        const incomingIds = new Set(orders.map(order => order.id));
+
+        existingById.forEach((_, orderId) => {
+          if (!incomingIds.has(orderId)) ordersStore.delete(orderId);
+        });
+
+        orders.forEach(order => {
+          const existing = existingById.get(order.id);
+          const storedOrder: StoredOrder = {
+            ...order,
+            storedAt: existing?.storedAt || new Date(),
+            lastSyncAt: new Date(),
+            syncStatus: 'synced',
+            version: existing ? existing.version + 1 : 1
+          };
+          ordersStore.put(storedOrder);
+        });
+
+        syncStore.add({
+          orderId: '*',
+          action: 'replace',
+          timestamp: new Date(),
+          outcome: 'success',
+          data: { count: orders.length }
+        } as SyncLogEntry);
+      };
+
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Remove um pedido
+   */
+  async deleteOrder(orderId: string): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['orders', 'sync_log'], 'readwrite');
+    const store = transaction.objectStore('orders');
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(orderId);
+      transaction.objectStore('sync_log').add({
+        orderId,
+        action: 'delete',
+        timestamp: new Date(),
+        outcome: 'success'
+      } as SyncLogEntry);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Registra um evento de sincronização que não passa por saveOrder
+   * (ex.: reenvio de uma mutação da fila)
+   */
+  async addSyncLog(entry: Omit<SyncLogEntry, 'id'>): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['sync_log'], 'readwrite');
+
+    return new Promise((resolve, reject) => {
+      const request = transaction.objectStore('sync_log').add(entry);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Eventos mais recentes do sync_log, do mais novo para o mais antigo
+   */
+  async getSyncLog(limit: number = 500): Promise<SyncLogEntry[]> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['sync_log'], 'readonly');
+    const index = transaction.objectStore('sync_log').index('timestamp');
+    const entries: SyncLogEntry[] = [];
+
+    return new Promise((resolve, reject) => {
+      const request = index.openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && entries.length < limit) {
+          entries.push(cursor.value as SyncLogEntry);
+          cursor.continue();
+        } else {
+          resolve(entries);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Recupera um pedido específico
    */
@@ -350,6 +534,91 @@ class OrdersStorageService {
     });
   }
 
+  /**
+   * Cópia de segurança de uma migração (mantida até a migração terminar)
+   */
+  async saveRollbackCopy(copy: MigrationRollbackCopy): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['backup'], 'readwrite');
+
+    return new Promise((resolve, reject) => {
+      transaction.objectStore('backup').put(copy);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getRollbackCopy(id: string): Promise<MigrationRollbackCopy | null> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['backup'], 'readonly');
+
+    return new Promise((resolve, reject) => {
+      const request = transaction.objectStore('backup').get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteRollbackCopy(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['backup'], 'readwrite');
+
+    return new Promise((resolve, reject) => {
+      transaction.objectStore('backup').delete(id);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Regrava os pedidos exatamente como recebidos (sem mexer em versão ou
+   * datas de controle) e a versão do esquema, numa única transação
+   */
+  async rewriteOrders(orders: StoredOrder[], schemaVersion: number): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['orders', 'metadata'], 'readwrite');
+    const ordersStore = transaction.objectStore('orders');
+
+    return new Promise((resolve, reject) => {
+      ordersStore.clear();
+      orders.forEach(order => ordersStore.put(order));
+      transaction.objectStore('metadata').put({ key: 'schemaVersion', value: schemaVersion, timestamp: Date.now() });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Troca o catálogo inteiro e a sua versão numa única transação
+   */
+  async replaceCatalog(entries: CatalogEntry[], meta: CatalogMeta): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['catalog', 'metadata'], 'readwrite');
+    const catalogStore = transaction.objectStore('catalog');
+
+    return new Promise((resolve, reject) => {
+      catalogStore.clear();
+      entries.forEach(entry => catalogStore.put(entry));
+      transaction.objectStore('metadata').put({ key: 'catalog', value: meta, timestamp: Date.now() });
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getCatalog(): Promise<{ entries: CatalogEntry[]; meta: CatalogMeta | undefined }> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['catalog'], 'readonly');
+
+    const entries = await new Promise<CatalogEntry[]>((resolve, reject) => {
+      const request = transaction.objectStore('catalog').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return { entries, meta: await this.getMetadata<CatalogMeta>('catalog') };
+  }
+
   /**
    * Limpa todos os pedidos (use com cuidado!)
    */
@@ -368,6 +637,36 @@ class OrdersStorageService {
     });
   }
 
+  /**
+   * Salva um valor de metadados
+   */
+  async setMetadata(key: string, value: any): Promise<void> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['metadata'], 'readwrite');
+    const store = transaction.objectStore('metadata');
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ key, value, timestamp: Date.now() });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Recupera um valor de metadados
+   */
+  async getMetadata<T = any>(key: string): Promise<T | undefined> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['metadata'], 'readonly');
+    const store = transaction.objectStore('metadata');
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(key);
+      request.onsuccess = () => resolve(request.result?.value);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Salva configuração de última sincronização
    */
@@ -473,44 +772,54 @@ class OrdersStorageService {
   }
 
   /**
-   * Mantém apenas os pedidos mais recentes (por exemplo, últimos 1000)
+   * Troca os pedidos pelo resumo arquivado numa única transação
    */
-  async cleanupOldOrders(maxOrders: number = 1000): Promise<number> {
-    try {
-      const allOrders = await this.getAllOrders();
-      
-      if (allOrders.length <= maxOrders) {
-        return 0; // Nada para limpar
-      }
-      
-      // Ordenar por data e manter apenas os mais recentes
-      const sortedOrders = allOrders.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-        const ordersToRemove = sortedOrders.slice(maxOrders);
-      
-      // Remover pedidos antigos
-      const db = await this.ensureDB();
-      const transaction = db.transaction(['orders'], 'readwrite');
-      const store = transaction.objectStore('orders');
-      
-      let deletedCount = 0;
-      for (const order of ordersToRemove) {
-        await new Promise<void>((resolve, reject) => {
-          const request = store.delete(order.id);
-          request.onsuccess = () => {
-            deletedCount++;
-            resolve();
-          };
-          request.onerror = () => reject(request.error);
-        });
-      }
-        console.log(`🧹 ${deletedCount} pedidos antigos removidos para otimizar armazenamento`);
-      return deletedCount;
-    } catch (error) {
-      console.error('❌ Erro na limpeza de pedidos antigos:', error);
-      return 0;
-    }
+  async archiveOrders(entries: ArchivedOrder[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['orders', 'archive', 'sync_log'], 'readwrite');
+    const ordersStore = transaction.objectStore('orders');
+    const archiveStore = transaction.objectStore('archive');
+
+    return new Promise((resolve, reject) => {
+      entries.forEach(entry => {
+        archiveStore.put(entry);
+        ordersStore.delete(entry.id);
+      });
+
+      transaction.objectStore('sync_log').add({
+        orderId: '*',
+        action: 'archive',
+        timestamp: new Date(),
+        outcome: 'success',
+        data: {
+          count: entries.length,
+          age: entries.filter(entry => entry.reason === 'age').length,
+          limit: entries.filter(entry => entry.reason === 'count').length
+        }
+      } as SyncLogEntry);
+
+      transaction.oncomplete = () => {
+        console.log(`🗄️ ${entries.length} pedidos antigos arquivados`);
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Resumos dos pedidos arquivados
+   */
+  async getArchivedOrders(): Promise<ArchivedOrder[]> {
+    const db = await this.ensureDB();
+    const transaction = db.transaction(['archive'], 'readonly');
+
+    return new Promise((resolve, reject) => {
+      const request = transaction.objectStore('archive').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   /**
@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Backup automático agendado (somente no aplicativo desktop)
+ * @module services/persistence/autoBackup
+ *
+ * No Electron o processo principal grava o arquivo numa pasta escolhida pelo
+ * operador e apaga os mais antigos além do limite. No navegador não há acesso
+ * ao sistema de arquivos e o agendamento fica desativado.
+ */
+
+import { tabCoordinator } from '../api/client/tabCoordinator';
+import { backupFileName, createBackup, serializeBackup } from './backup';
+
+export interface AutoBackupConfig {
+  enabled: boolean;
+  folder: string | null;
+  intervalHours: number;
+  // Quantos arquivos manter na pasta
+  keep: number;
+  lastRunAt: string | null;
+  lastFile: string | null;
+  lastError: string | null;
+}
+
+interface ElectronBackupAPI {
+  escolherPasta: () => Promise<string | null>;
+  salvar: (arquivo: { pasta: string; nome: string; conteudo: string; manter: number }) => Promise<string>;
+}
+
+// O tipo global de window.electronAPI (ElectronStatus) não conhece o backup
+interface ElectronBackupWindow {
+  electronAPI?: {
+    backup?: ElectronBackupAPI;
+  };
+}
+
+const DEFAULT_CONFIG: AutoBackupConfig = {
+  enabled: false,
+  folder: null,
+  intervalHours: 24,
+  keep: 14,
+  lastRunAt: null,
+  lastFile: null,
+  lastError: null
+};
+
+class AutoBackupScheduler {
+  private readonly STORAGE_KEY = 'mercado_auto_backup';
+  private readonly CHECK_INTERVAL = 60 * 1000;
+
+  private config: AutoBackupConfig = this.load();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private listeners = new Set<() => void>();
+
+  private get api(): ElectronBackupAPI | undefined {
+    return (window as unknown as ElectronBackupWindow).electronAPI?.backup;
+  }
+
+  isAvailable(): boolean {
+    return !!this.api;
+  }
+
+  getConfig(): AutoBackupConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Abre o seletor de pasta do sistema; retorna null se o operador cancelar
+   */
+  async chooseFolder(): Promise<string | null> {
+    const folder = await this.api?.escolherPasta() ?? null;
+    if (folder) this.update({ folder });
+    return folder;
+  }
+
+  update(changes: Partial<AutoBackupConfig>): void {
+    this.config = { ...this.config, ...changes };
+    this.save();
+    this.notify();
+  }
+
+  /**
+   * Verifica a cada minuto se o próximo backup já venceu. Só a aba líder grava.
+   */
+  start(): () => void {
+    if (!this.isAvailable() || this.timer) return () => this.stop();
+
+    this.timer = setInterval(() => {
+      if (this.isDue() && tabCoordinator.isLeader()) {
+        this.runNow().catch(() => undefined);
+      }
+    }, this.CHECK_INTERVAL);
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runNow(): Promise<string> {
+    const api = this.api;
+    const { folder, keep } = this.config;
+    if (!api || !folder) throw new Error('Escolha a pasta do backup automático');
+    if (this.running) throw new Error('Backup automático já em andamento');
+
+    this.running = true;
+    try {
+      const backup = await createBackup();
+      const path = await api.salvar({
+        pasta: folder,
+        nome: backupFileName(backup),
+        conteudo: serializeBackup(backup),
+        manter: keep
+      });
+
+      console.log(`💾 Backup automático salvo em ${path}`);
+      this.update({ lastRunAt: backup.createdAt, lastFile: path, lastError: null });
+      return path;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error('❌ Erro no backup automático:', error);
+      // Conta como tentativa para não repetir a cada minuto
+      this.update({ lastRunAt: new Date().toISOString(), lastError: message });
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isDue(): boolean {
+    const { enabled, folder, intervalHours, lastRunAt } = this.config;
+    if (!enabled || !folder || this.running) return false;
+    if (!lastRunAt) return true;
+    return Date.now() - new Date(lastRunAt).getTime() >= intervalHours * 60 * 60 * 1000;
+  }
+
+  private load(): AutoBackupConfig {
+    try {
+      return { ...DEFAULT_CONFIG, ...JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}') };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.config));
+    } catch (error) {
+      console.error('❌ Erro ao salvar configuração do backup automático:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const autoBackup = new AutoBackupScheduler();
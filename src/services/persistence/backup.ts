@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Backup completo dos dados locais em arquivo e restauração
+ * @module services/persistence/backup
+ *
+ * O arquivo é um JSON versionado com pedidos (incluindo o histórico de
+ * preços de cada um), fila de sincronização e preferências guardadas no
+ * localStorage. O checksum cobre o conteúdo inteiro: um arquivo editado à
+ * mão ou truncado é recusado antes de qualquer gravação.
+ */
+
+import { Order } from '../../types';
+import { SyncQueueEntry } from '../cache/indexedDBService';
+import { orderRepository } from './orderRepository';
+import { CURRENT_SCHEMA_VERSION, migrateRecords } from './migrations';
+
+// ==================== TIPOS ====================
+export const BACKUP_FORMAT = 'mercado-express-backup';
+export const BACKUP_VERSION = 1;
+
+export type ChecksumAlgorithm = 'SHA-256' | 'FNV-1a';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupPayload {
+  orders: Order[];
+  syncQueue: SyncQueueEntry[];
+  // Chaves do localStorage (preferências, edições locais, overlay de status)
+  settings: Record<string, string>;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  // Versão do formato dos pedidos (ver migrations); ausente nos primeiros backups
+  schemaVersion?: number;
+  createdAt: string;
+  checksum: {
+    algorithm: ChecksumAlgorithm;
+    value: string;
+  };
+  payload: BackupPayload;
+}
+
+export interface RestorePreview {
+  mode: RestoreMode;
+  createdAt: string;
+  orders: {
+    added: number;
+    updated: number;
+    unchanged: number;
+    // Pedidos locais que não estão no backup (só apagados no modo substituir)
+    removed: number;
+  };
+  syncQueue: {
+    added: number;
+    removed: number;
+  };
+  settings: {
+    changed: string[];
+    removed: string[];
+  };
+}
+
+/**
+ * Arquivo recusado na validação (formato, versão ou checksum)
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// ==================== CONSTANTES ====================
+const SETTING_KEYS = [
+  'theme',
+  'savedSearchFilters',
+  'boardColumns',
+  'realtimeUrl',
+  'realtimeSseUrl',
+  'idempotencyEnabled',
+  'mercado_catalog_manual',
+  'mercado_local_edits',
+  'mercado_status_overlay',
+  'mercado_endpoint_families'
+];
+
+const DATE_FIELDS: Array<keyof Order> = [
+  'createdAt',
+  'updatedAt',
+  'estimatedDeliveryTime',
+  'actualDeliveryTime',
+  'serverUpdatedAt'
+];
+
+// ==================== HELPERS ====================
+
+/**
+ * SHA-256 quando o navegador expõe crypto.subtle (contexto seguro);
+ * FNV-1a em páginas servidas por http na rede local
+ */
+async function computeChecksum(
+  text: string,
+  algorithm: ChecksumAlgorithm = typeof crypto !== 'undefined' && crypto.subtle ? 'SHA-256' : 'FNV-1a'
+): Promise<BackupFile['checksum']> {
+  if (algorithm === 'SHA-256') {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new BackupError('Este navegador não consegue verificar backups SHA-256 fora de HTTPS');
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    const value = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+    return { algorithm, value };
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return { algorithm, value: hash.toString(16).padStart(8, '0') };
+}
+
+// JSON devolve datas como string; o app espera Date nos campos principais
+function reviveOrder(order: any): Order {
+  const revived = { ...order };
+  DATE_FIELDS.forEach(field => {
+    if (revived[field]) revived[field] = new Date(revived[field]);
+  });
+  return revived as Order;
+}
+
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const timeOf = (date: Date | string | undefined) => (date ? new Date(date).getTime() : 0);
+
+/**
+ * Na mesclagem, o pedido do backup só substitui o local se for mais recente
+ */
+function shouldMergeOrder(local: Order | undefined, incoming: Order): boolean {
+  if (!local) return true;
+  if (sameContent(local, incoming)) return false;
+  return timeOf(incoming.updatedAt) > timeOf(local.updatedAt);
+}
+
+function readSettings(): Record<string, string> {
+  const settings: Record<string, string> = {};
+  SETTING_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+  return settings;
+}
+
+// ==================== EXPORTAÇÃO ====================
+
+export async function createBackup(): Promise<BackupFile> {
+  const [orders, syncQueue] = await Promise.all([
+    orderRepository.getAll(),
+    orderRepository.getSyncQueue()
+  ]);
+
+  const payload: BackupPayload = { orders, syncQueue, settings: readSettings() };
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await computeChecksum(JSON.stringify(payload)),
+    payload
+  };
+}
+
+export function serializeBackup(backup: BackupFile): string {
+  return JSON.stringify(backup);
+}
+
+export function backupFileName(backup: BackupFile): string {
+  return `backup-painel-${backup.createdAt.replace(/[:.]/g, '-')}.json`;
+}
+
+/**
+ * Baixa o backup como arquivo JSON
+ */
+export function downloadBackup(backup: BackupFile): void {
+  const blob = new Blob([serializeBackup(backup)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = backupFileName(backup);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ==================== VALIDAÇÃO ====================
+
+/**
+ * Lê e valida o arquivo: formato, versão, estrutura e checksum
+ */
+export async function parseBackup(text: string): Promise<BackupFile> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('O arquivo não é um JSON válido');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('O arquivo não é um backup do painel de pedidos');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError(`Versão de backup não suportada (${parsed.version}); atualize o aplicativo`);
+  }
+
+  const payload = parsed.payload;
+  if (
+    !payload ||
+    !Array.isArray(payload.orders) ||
+    !Array.isArray(payload.syncQueue) ||
+    typeof payload.settings !== 'object' ||
+    payload.orders.some((order: any) => !order || typeof order.id !== 'string') ||
+    payload.syncQueue.some((entry: any) => !entry || typeof entry.id !== 'string')
+  ) {
+    throw new BackupError('Estrutura do backup inválida');
+  }
+
+  const algorithm = parsed.checksum?.algorithm;
+  if (algorithm !== 'SHA-256' && algorithm !== 'FNV-1a') {
+    throw new BackupError('Backup sem checksum reconhecido');
+  }
+
+  const expected = await computeChecksum(JSON.stringify(payload), algorithm);
+  if (expected.value !== parsed.checksum.value) {
+    throw new BackupError('Checksum não confere: o arquivo foi alterado ou está incompleto');
+  }
+
+  // Pedidos de um backup antigo passam pelas mesmas migrações do armazenamento
+  const schemaVersion = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 1;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupError('Backup feito por uma versão mais nova do aplicativo');
+  }
+  if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    const migrated = migrateRecords(payload.orders, schemaVersion);
+    if (migrated.errors.length > 0) {
+      throw new BackupError(`Não foi possível atualizar ${migrated.errors.length} pedido(s) do backup`);
+    }
+    parsed.payload = { ...payload, orders: migrated.records };
+    parsed.schemaVersion = CURRENT_SCHEMA_VERSION;
+  }
+
+  return parsed as BackupFile;
+}
+
+// ==================== RESTAURAÇÃO ====================
+
+/**
+ * Mostra o que mudaria sem gravar nada
+ */
+export async function previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+  const [orders, queue] = await Promise.all([
+    orderRepository.getAll(),
+    orderRepository.getSyncQueue()
+  ]);
+
+  const localOrders = new Map(orders.map(order => [order.id, order]));
+  const backupOrderIds = new Set(backup.payload.orders.map(order => order.id));
+  const localQueueIds = new Set(queue.map(entry => entry.id));
+  const backupQueueIds = new Set(backup.payload.syncQueue.map(entry => entry.id));
+  const localSettings = readSettings();
+
+  const preview: RestorePreview = {
+    mode,
+    createdAt: backup.createdAt,
+    orders: { added: 0, updated: 0, unchanged: 0, removed: 0 },
+    syncQueue: {
+      added: backup.payload.syncQueue.filter(entry => !localQueueIds.has(entry.id)).length,
+      removed: mode === 'replace' ? queue.filter(entry => !backupQueueIds.has(entry.id)).length : 0
+    },
+    settings: { changed: [], removed: [] }
+  };
+
+  backup.payload.orders.forEach(order => {
+    const incoming = reviveOrder(order);
+    const local = localOrders.get(order.id);
+
+    if (!local) {
+      preview.orders.added++;
+    } else if (mode === 'replace' ? !sameContent(local, incoming) : shouldMergeOrder(local, incoming)) {
+      preview.orders.updated++;
+    } else {
+      preview.orders.unchanged++;
+    }
+  });
+
+  if (mode === 'replace') {
+    preview.orders.removed = orders.filter(order => !backupOrderIds.has(order.id)).length;
+  }
+
+  Object.entries(backup.payload.settings).forEach(([key, value]) => {
+    const local = localSettings[key];
+    if (local === value) return;
+    if (mode === 'replace' || local === undefined) preview.settings.changed.push(key);
+  });
+
+  if (mode === 'replace') {
+    preview.settings.removed = Object.keys(localSettings).filter(key => !(key in backup.payload.settings));
+  }
+
+  return preview;
+}
+
+/**
+ * Grava o backup. Mesclar mantém o que só existe localmente e só troca
+ * pedidos mais antigos que os do backup; substituir deixa os dados iguais
+ * aos do arquivo. O app precisa ser recarregado depois (as edições locais
+ * e o overlay de status ficam em memória).
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+  const preview = await previewRestore(backup, mode);
+  const incomingOrders = backup.payload.orders.map(reviveOrder);
+
+  if (mode === 'replace') {
+    await orderRepository.saveAll(incomingOrders);
+
+    const backupQueueIds = new Set(backup.payload.syncQueue.map(entry => entry.id));
+    const queue = await orderRepository.getSyncQueue();
+    for (const entry of queue) {
+      if (!backupQueueIds.has(entry.id)) await orderRepository.removeSyncEntry(entry.id);
+    }
+    for (const entry of backup.payload.syncQueue) {
+      await orderRepository.updateSyncEntry(entry);
+    }
+
+    preview.settings.removed.forEach(key => localStorage.removeItem(key));
+    Object.entries(backup.payload.settings).forEach(([key, value]) => localStorage.setItem(key, value));
+  } else {
+    const localOrders = new Map((await orderRepository.getAll()).map(order => [order.id, order]));
+    for (const order of incomingOrders) {
+      if (shouldMergeOrder(localOrders.get(order.id), order)) await orderRepository.save(order);
+    }
+
+    const localQueueIds = new Set((await orderRepository.getSyncQueue()).map(entry => entry.id));
+    for (const entry of backup.payload.syncQueue) {
+      if (!localQueueIds.has(entry.id)) await orderRepository.updateSyncEntry(entry);
+    }
+
+    Object.entries(backup.payload.settings).forEach(([key, value]) => {
+      if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+    });
+  }
+
+  await orderRepository.logSyncEvent({
+    orderId: '*',
+    action: mode === 'replace' ? 'replace' : 'update',
+    outcome: 'success',
+    data: { source: 'backup', backupCreatedAt: backup.createdAt, mode, orders: preview.orders }
+  });
+
+  console.log('💾 Backup restaurado:', preview);
+  return preview;
+}
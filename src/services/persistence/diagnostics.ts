@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Pacote de diagnóstico para anexar a chamados de suporte
+ * @module services/persistence/diagnostics
+ *
+ * Junta num único JSON o que a tela de saúde dos dados mostra: log de
+ * sincronização, estatísticas do armazenamento, fila offline, histórico de
+ * conexão, latências das verificações de saúde, circuitos e partidas a frio.
+ * Os dados dos pedidos na fila (itens, campos) ficam de fora.
+ */
+
+import { orderRepository } from './orderRepository';
+import { localEdits } from './localEdits';
+import { CatalogMeta, OrdersStorageStats, SyncLogEntry } from '../cache/ordersStorage';
+import { SyncQueueEntry } from '../cache/indexedDBService';
+import { connectionManager } from '../api/client/connection';
+import { resilience, ResilienceSnapshot } from '../api/client/resilience';
+import { backendWakeUp, ColdStartRecord } from '../api/client/wakeUp';
+import { storageRetention, RetentionState } from './retention';
+import { CURRENT_SCHEMA_VERSION, getLastMigration, MigrationReport } from './migrations';
+import { quarantine } from './quarantine';
+import { variationCatalog } from './variationCatalog';
+import { ConnectionStatus, ConnectionStatusRecord, HealthCheckRecord } from '../api/types';
+
+export type QueueEntrySummary = Omit<SyncQueueEntry, 'data' | 'requests'>;
+
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  userAgent: string;
+  online: boolean;
+  storage: {
+    stats: OrdersStorageStats | null;
+    // navigator.storage.estimate(), quando disponível
+    usage: number | null;
+    quota: number | null;
+    archivedOrders: number;
+  };
+  retention: RetentionState;
+  migrations: {
+    schemaVersion: number;
+    last: MigrationReport | null;
+  };
+  // Pedidos recusados na validação (sem o payload, que fica no aparelho)
+  quarantine: {
+    entries: number;
+    counts: Record<string, number>;
+  };
+  catalog: {
+    meta: CatalogMeta | null;
+    manualNames: number;
+    unresolvedIds: string[];
+    lastError: string | null;
+  };
+  syncQueue: {
+    pending: number;
+    failed: number;
+    entries: QueueEntrySummary[];
+  };
+  conflicts: number;
+  syncLog: SyncLogEntry[];
+  connection: {
+    status: ConnectionStatus;
+    history: ConnectionStatusRecord[];
+    healthChecks: HealthCheckRecord[];
+  };
+  resilience: ResilienceSnapshot;
+  coldStarts: ColdStartRecord[];
+}
+
+const SYNC_LOG_LIMIT = 1000;
+
+/**
+ * Parte que falha (ex.: IndexedDB indisponível) não impede o resto do pacote
+ */
+async function safely<T>(load: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    console.warn('⚠️ Diagnóstico incompleto:', error);
+    return fallback;
+  }
+}
+
+export async function collectDiagnostics(): Promise<DiagnosticsBundle> {
+  const [stats, queue, syncLog, estimate, archived, lastMigration] = await Promise.all([
+    safely<OrdersStorageStats | null>(() => orderRepository.getStorageStats(), null),
+    safely<SyncQueueEntry[]>(() => orderRepository.getSyncQueue(), []),
+    safely<SyncLogEntry[]>(() => orderRepository.getSyncLog(SYNC_LOG_LIMIT), []),
+    safely<StorageEstimate | null>(
+      async () => (navigator.storage?.estimate ? navigator.storage.estimate() : null),
+      null
+    ),
+    safely(() => orderRepository.getArchived(), []),
+    safely<MigrationReport | null>(async () => (await getLastMigration()) || null, null)
+  ]);
+  const catalog = variationCatalog.getSnapshot();
+
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    online: navigator.onLine,
+    storage: {
+      stats,
+      usage: estimate?.usage ?? null,
+      quota: estimate?.quota ?? null,
+      archivedOrders: archived.length
+    },
+    retention: storageRetention.getState(),
+    migrations: {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      last: lastMigration
+    },
+    quarantine: {
+      entries: quarantine.count(),
+      counts: quarantine.getCounts()
+    },
+    catalog: {
+      meta: catalog.meta,
+      manualNames: Object.keys(catalog.manual).length,
+      unresolvedIds: catalog.unresolved.map(entry => entry.id),
+      lastError: catalog.lastError
+    },
+    syncQueue: {
+      pending: queue.filter(entry => entry.status !== 'failed').length,
+      failed: queue.filter(entry => entry.status === 'failed').length,
+      entries: queue.map(({ data, requests, ...entry }) => entry)
+    },
+    conflicts: localEdits.getConflicts().length,
+    syncLog,
+    connection: {
+      status: connectionManager.getStatus(),
+      history: connectionManager.getStatusHistory(),
+      healthChecks: connectionManager.getHealthHistory()
+    },
+    resilience: resilience.getSnapshot(),
+    coldStarts: backendWakeUp.getHistory()
+  };
+}
+
+/**
+ * Baixa o pacote como arquivo JSON
+ */
+export function downloadDiagnostics(bundle: DiagnosticsBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `diagnostico-painel-${bundle.generatedAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Edições locais ainda não confirmadas pelo servidor e conflitos detectados
+ * @module services/persistence/localEdits
+ *
+ * Cada edição guarda a versão do servidor (__v ou updatedAt do backend) sobre a
+ * qual foi feita. Se o servidor mudar o pedido antes de receber a edição, o
+ * pedido é marcado como em conflito e a fila não envia nada até o operador
+ * escolher entre a versão local, a do servidor ou uma mesclagem por campo.
+ * Nunca comparamos com o relógio deste aparelho.
+ */
+
+import { Order } from '../../types';
+import { ConflictField, diffConflictFields } from '../../utils/orderConflicts';
+
+export interface OrderBase {
+  version?: number;
+  updatedAt?: string;
+}
+
+export interface LocalEdit {
+  orderId: string;
+  base: OrderBase;
+  fields: ConflictField[];
+  local: Order;
+  editedAt: number;
+}
+
+export interface OrderConflict {
+  orderId: string;
+  local: Order;
+  server: Order;
+  fields: ConflictField[];
+  detectedAt: number;
+}
+
+interface LocalEditsData {
+  edits: Record<string, LocalEdit>;
+  conflicts: Record<string, OrderConflict>;
+}
+
+class LocalEditStore {
+  private readonly STORAGE_KEY = 'mercado_local_edits';
+
+  private data: LocalEditsData = this.load();
+  private listeners = new Set<() => void>();
+
+  /**
+   * Registra uma edição local. A base é a da primeira edição ainda não
+   * confirmada: edições seguidas continuam valendo sobre a mesma versão.
+   */
+  record(order: Order, fields: ConflictField[]): void {
+    const existing = this.data.edits[order.id];
+
+    this.data.edits[order.id] = {
+      orderId: order.id,
+      base: existing?.base || this.baseOf(order),
+      fields: Array.from(new Set([...(existing?.fields || []), ...fields])),
+      local: order,
+      editedAt: Date.now()
+    };
+    this.save();
+  }
+
+  get(orderId: string): LocalEdit | undefined {
+    return this.data.edits[orderId];
+  }
+
+  /**
+   * Volta a edição do pedido ao que era antes (ao desfazer uma alteração)
+   */
+  restore(orderId: string, previous: LocalEdit | undefined): void {
+    if (previous) {
+      this.data.edits[orderId] = previous;
+    } else {
+      delete this.data.edits[orderId];
+    }
+    this.save();
+  }
+
+  /**
+   * O servidor aceitou uma mutação. Se ainda há outras na fila para o pedido,
+   * elas passam a valer sobre a versão devolvida; senão a edição é encerrada.
+   */
+  acknowledge(orderId: string, serverOrder: Order | undefined, stillPending: boolean): void {
+    const edit = this.data.edits[orderId];
+    if (!edit) return;
+
+    if (stillPending && serverOrder) {
+      edit.base = this.baseOf(serverOrder);
+    } else if (!stillPending) {
+      delete this.data.edits[orderId];
+    }
+    this.save();
+  }
+
+  /**
+   * Compara a versão atual do servidor com a base da edição local.
+   * Retorna o conflito (novo ou já registrado) ou null se não houver.
+   */
+  detect(serverOrder: Order): OrderConflict | null {
+    const existingConflict = this.data.conflicts[serverOrder.id];
+    if (existingConflict) return existingConflict;
+
+    const edit = this.data.edits[serverOrder.id];
+    if (!edit || !this.hasDiverged(edit.base, serverOrder)) return null;
+
+    const fields = diffConflictFields(edit.local, serverOrder).filter(field => edit.fields.includes(field));
+
+    if (fields.length === 0) {
+      // Servidor mudou outra coisa (ou já tem os nossos valores): seguir sobre a nova versão
+      edit.base = this.baseOf(serverOrder);
+      this.save();
+      return null;
+    }
+
+    const conflict: OrderConflict = {
+      orderId: serverOrder.id,
+      local: edit.local,
+      server: serverOrder,
+      fields,
+      detectedAt: Date.now()
+    };
+
+    this.data.conflicts[serverOrder.id] = conflict;
+    this.save();
+    console.warn(`⚠️ Conflito no pedido ${serverOrder.id}: ${fields.join(', ')}`);
+
+    return conflict;
+  }
+
+  getEdits(): LocalEdit[] {
+    return Object.values(this.data.edits);
+  }
+
+  hasConflict(orderId: string): boolean {
+    return !!this.data.conflicts[orderId];
+  }
+
+  getConflict(orderId: string): OrderConflict | undefined {
+    return this.data.conflicts[orderId];
+  }
+
+  getConflicts(): OrderConflict[] {
+    return Object.values(this.data.conflicts);
+  }
+
+  /**
+   * Encerra o conflito e a edição que o originou
+   */
+  resolve(orderId: string): void {
+    delete this.data.conflicts[orderId];
+    delete this.data.edits[orderId];
+    this.save();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Versão conhecida quando há versão ou updatedAt vindos do backend
+   */
+  hasKnownBase(edit: LocalEdit): boolean {
+    return edit.base.version !== undefined || edit.base.updatedAt !== undefined;
+  }
+
+  private hasDiverged(base: OrderBase, serverOrder: Order): boolean {
+    if (base.version !== undefined && serverOrder.serverVersion !== undefined) {
+      return serverOrder.serverVersion !== base.version;
+    }
+
+    if (base.updatedAt && serverOrder.serverUpdatedAt) {
+      return new Date(serverOrder.serverUpdatedAt).getTime() !== new Date(base.updatedAt).getTime();
+    }
+
+    // Sem versão do servidor não há como saber
+    return false;
+  }
+
+  private baseOf(order: Order): OrderBase {
+    return {
+      version: order.serverVersion,
+      updatedAt: order.serverUpdatedAt ? new Date(order.serverUpdatedAt).toISOString() : undefined
+    };
+  }
+
+  private load(): LocalEditsData {
+    try {
+      const dataStr = localStorage.getItem(this.STORAGE_KEY);
+      const data = dataStr ? JSON.parse(dataStr) : null;
+      return {
+        edits: data?.edits || {},
+        conflicts: data?.conflicts || {}
+      };
+    } catch (error) {
+      console.error('❌ Erro ao carregar edições locais:', error);
+      return { edits: {}, conflicts: {} };
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.error('❌ Erro ao salvar edições locais:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const localEdits = new LocalEditStore();
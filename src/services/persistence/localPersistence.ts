@@ -1,53 +1,23 @@
 /**
  * @fileoverview Serviço de persistência local para pedidos
  * @module services/persistence/localPersistence
+ * @deprecated Use orderRepository. Mantido apenas para a migração única dos
+ * pedidos que a versão antiga gravava no localStorage.
  */
 
+import { CURRENT_SCHEMA_VERSION, parseSchemaVersion } from './migrations';
+
 export interface OrdersData {
   orders: any[];
   timestamp: number;
-  version: string;
+  // "1.0" na versão antiga; número do esquema depois das migrações
+  version: string | number;
 }
 
 class LocalOrdersPersistence {
   private readonly STORAGE_KEY = 'mercado_orders';
   private readonly BACKUP_KEY = 'mercado_orders_backup';
   private readonly LAST_UPDATE_KEY = 'mercado_last_update';
-  private readonly VERSION = '1.0';
-
-  /**
-   * Salvar pedidos localmente de forma segura
-   */
-  saveOrders(orders: any[]): void {
-    try {
-      // Verificar se orders é realmente um array
-      if (!Array.isArray(orders)) {
-        console.error('❌ Tentativa de salvar orders não-array:', orders);
-        orders = []; // Garantir que é um array vazio em vez de undefined
-      }
-      
-      const data: OrdersData = {
-        orders,
-        timestamp: Date.now(),
-        version: this.VERSION
-      };
-      
-      const dataStr = JSON.stringify(data);
-      
-      // Salvar principal
-      localStorage.setItem(this.STORAGE_KEY, dataStr);
-      
-      // Backup de segurança
-      localStorage.setItem(this.BACKUP_KEY, dataStr);
-      localStorage.setItem(this.LAST_UPDATE_KEY, Date.now().toString());
-      
-      console.log(`✅ ${orders.length} pedidos salvos localmente`);
-    } catch (error) {
-      console.error('❌ Erro ao salvar pedidos:', error);
-      // Tentar limpar dados corrompidos
-      this.clearCorruptedData();
-    }
-  }
 
   /**
    * Carregar pedidos (sempre disponível, como mock)
@@ -68,13 +38,15 @@ class LocalOrdersPersistence {
       if (dataStr) {
         const data: OrdersData = JSON.parse(dataStr);
         
-        // Verificar versão dos dados
-        if (data.version === this.VERSION && Array.isArray(data.orders)) {
+        // As migrações (runMigrations) já rodaram; outra versão aqui é de um
+        // app mais novo ou de uma migração que falhou: não apagar nada
+        if (!Array.isArray(data.orders)) {
+          this.clearCorruptedData();
+        } else if (parseSchemaVersion(data.version) === CURRENT_SCHEMA_VERSION) {
           console.log(`📂 ${data.orders.length} pedidos carregados do cache local`);
           return data.orders;
         } else {
-          console.log('⚠️ Dados em formato antigo, limpando cache');
-          this.clearAllData();
+          console.warn(`⚠️ Pedidos locais na versão ${data.version}, esperado ${CURRENT_SCHEMA_VERSION}; mantidos sem carregar`);
         }
       }
       
@@ -86,6 +58,45 @@ class LocalOrdersPersistence {
     }
   }
 
+  /**
+   * Pedidos da chave principal e do backup juntos, por id (fica o de
+   * updatedAt mais recente): o backup pode ter pedidos que a principal não
+   * tem. unreadable indica uma chave em outra versão do esquema, que não
+   * deve ser apagada.
+   */
+  loadAllOrders(): { orders: any[]; unreadable: boolean } {
+    const byId = new Map<string, any>();
+    let unreadable = false;
+
+    [this.STORAGE_KEY, this.BACKUP_KEY].forEach(key => {
+      let data: OrdersData;
+      try {
+        const dataStr = localStorage.getItem(key);
+        if (!dataStr) return;
+        data = JSON.parse(dataStr);
+      } catch (error) {
+        console.error(`❌ Dados corrompidos em ${key}:`, error);
+        return;
+      }
+
+      if (!Array.isArray(data.orders)) return;
+      if (parseSchemaVersion(data.version) !== CURRENT_SCHEMA_VERSION) {
+        console.warn(`⚠️ Pedidos em ${key} na versão ${data.version}, esperado ${CURRENT_SCHEMA_VERSION}; mantidos sem carregar`);
+        unreadable = true;
+        return;
+      }
+
+      data.orders.forEach(order => {
+        const existing = byId.get(order.id);
+        if (!existing || new Date(order.updatedAt).getTime() > new Date(existing.updatedAt).getTime()) {
+          byId.set(order.id, order);
+        }
+      });
+    });
+
+    return { orders: Array.from(byId.values()), unreadable };
+  }
+
   /**
    * Verificar se tem dados locais válidos
    */
@@ -95,7 +106,7 @@ class LocalOrdersPersistence {
       if (!dataStr) return false;
       
       const data = JSON.parse(dataStr);
-      return data.version === this.VERSION && Array.isArray(data.orders) && data.orders.length > 0;
+      return parseSchemaVersion(data.version) === CURRENT_SCHEMA_VERSION && Array.isArray(data.orders) && data.orders.length > 0;
     } catch {
       return false;
     }
@@ -113,154 +124,6 @@ class LocalOrdersPersistence {
     }
   }
 
-  /**
-   * Atualizar um pedido específico
-   */
-  updateOrder(orderId: string, updates: any): boolean {
-    try {
-      const orders = this.loadOrders();
-      const orderIndex = orders.findIndex(order => order.id === orderId);
-      
-      if (orderIndex !== -1) {
-        orders[orderIndex] = { 
-          ...orders[orderIndex], 
-          ...updates,
-          updatedAt: new Date()
-        };
-        this.saveOrders(orders);
-        console.log(`🔄 Pedido ${orderId} atualizado localmente`);
-        return true;
-      }
-      
-      console.warn(`⚠️ Pedido ${orderId} não encontrado para atualização`);
-      return false;
-    } catch (error) {
-      console.error('❌ Erro ao atualizar pedido:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Adicionar novos pedidos sem duplicar
-   */
-  addNewOrders(newOrders: any[]): number {
-    try {
-      if (!Array.isArray(newOrders) || newOrders.length === 0) {
-        return 0;
-      }
-
-      const existingOrders = this.loadOrders();
-      const existingIds = new Set(existingOrders.map(order => order.id));
-      
-      const trulyNewOrders = newOrders.filter(order => 
-        order && order.id && !existingIds.has(order.id)
-      );
-      
-      if (trulyNewOrders.length > 0) {
-        const allOrders = [...trulyNewOrders, ...existingOrders].sort((a, b) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-        
-        this.saveOrders(allOrders);
-        console.log(`➕ ${trulyNewOrders.length} novos pedidos adicionados`);
-        return trulyNewOrders.length;
-      }
-      
-      return 0;
-    } catch (error) {
-      console.error('❌ Erro ao adicionar novos pedidos:', error);
-      return 0;
-    }
-  }
-
-  /**
-   * Remover um pedido
-   */
-  removeOrder(orderId: string): boolean {
-    try {
-      const orders = this.loadOrders();
-      const filteredOrders = orders.filter(order => order.id !== orderId);
-      
-      if (filteredOrders.length !== orders.length) {
-        this.saveOrders(filteredOrders);
-        console.log(`🗑️ Pedido ${orderId} removido localmente`);
-        return true;
-      }
-      
-      return false;
-    } catch (error) {
-      console.error('❌ Erro ao remover pedido:', error);
-      return false;
-    }
-  }
-  /**
-   * Mesclar pedidos da API com dados locais
-   */
-  mergeWithApiData(apiOrders: any[]): any[] {
-    try {
-      const localOrders = this.loadOrders();
-      const localMap = new Map(localOrders.map(order => [order.id, order]));
-      
-      let hasChanges = false;
-      const mergedOrders = [...apiOrders];
-      
-      // Adicionar pedidos locais que não estão na API (modificações offline)
-      for (const localOrder of localOrders) {
-        const apiOrder = apiOrders.find(order => order.id === localOrder.id);
-        
-        if (!apiOrder) {
-          // Pedido existe apenas localmente (pode ser modificação offline)
-          mergedOrders.push(localOrder);
-          hasChanges = true;
-        } else {
-          // Verificar se houve mudanças
-          const localTime = new Date(localOrder.updatedAt || localOrder.createdAt).getTime();
-          const apiTime = new Date(apiOrder.updatedAt || apiOrder.createdAt).getTime();
-          
-          if (localTime > apiTime) {
-            // Versão local é mais recente (modificação offline)
-            const index = mergedOrders.findIndex(order => order.id === localOrder.id);
-            if (index !== -1) {
-              mergedOrders[index] = localOrder;
-              hasChanges = true;
-            }
-          }
-        }
-      }
-      
-      // Verificar se há pedidos novos da API
-      const localIds = new Set(localOrders.map(order => order.id));
-      const newFromApi = apiOrders.filter(order => !localIds.has(order.id));
-      
-      if (newFromApi.length > 0) {
-        hasChanges = true;
-      }
-      
-      if (hasChanges || apiOrders.length !== localOrders.length) {
-        this.saveOrders(mergedOrders);
-      }
-      
-      return mergedOrders;
-    } catch (error) {
-      console.error('❌ Erro ao mesclar dados:', error);
-      return apiOrders || [];
-    }
-  }
-
-  /**
-   * Obter estatísticas do cache
-   */
-  getStats(): { total: number; lastUpdate: Date | null; hasData: boolean } {
-    const orders = this.loadOrders();
-    const lastUpdate = this.getLastUpdate();
-    
-    return {
-      total: orders.length,
-      lastUpdate: lastUpdate > 0 ? new Date(lastUpdate) : null,
-      hasData: orders.length > 0
-    };
-  }
-
   /**
    * Limpar dados corrompidos
    */
@@ -0,0 +1,297 @@
+import v1Orders from './__fixtures__/orders.v1.json';
+import v3Expected from './__fixtures__/orders.v3.expected.json';
+import {
+  CURRENT_SCHEMA_VERSION,
+  MigrationStep,
+  migrateIndexedDB,
+  migrateLocalStorage,
+  migrateRecords,
+  migrateToV2,
+  migrateToV3
+} from './migrations';
+
+// Stores "orders", "metadata" e "backup" do IndexedDB de pedidos, em memória
+const mockDB = {
+  orders: [] as any[],
+  metadata: new Map<string, any>(),
+  backup: new Map<string, any>()
+};
+
+// Funções comuns, não jest.fn: o Jest do CRA reseta os mocks a cada teste
+jest.mock('../cache/ordersStorage', () => ({
+  ordersStorage: {
+    init: async () => undefined,
+    getAllOrders: async () => mockDB.orders,
+    getMetadata: async (key: string) => mockDB.metadata.get(key),
+    setMetadata: async (key: string, value: any) => {
+      mockDB.metadata.set(key, value);
+    },
+    saveRollbackCopy: async (copy: any) => {
+      mockDB.backup.set(copy.id, copy);
+    },
+    getRollbackCopy: async (id: string) => mockDB.backup.get(id) || null,
+    deleteRollbackCopy: async (id: string) => {
+      mockDB.backup.delete(id);
+    },
+    rewriteOrders: async (orders: any[], schemaVersion: number) => {
+      mockDB.orders = orders;
+      mockDB.metadata.set('schemaVersion', schemaVersion);
+    }
+  }
+}));
+
+// Como o pedido fica depois de salvo (Date vira texto, undefined some)
+const serialize = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+beforeEach(() => {
+  mockDB.orders = [];
+  mockDB.metadata.clear();
+  mockDB.backup.clear();
+  localStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+// ==================== PASSOS ====================
+describe('migrateToV2', () => {
+  it('converte datas (inclusive nos históricos) e valores em texto', () => {
+    const order = migrateToV2(clone(v1Orders[0]));
+
+    expect(order.createdAt).toEqual(new Date('2024-06-04T14:30:00.000Z'));
+    expect(order.estimatedDeliveryTime).toBeInstanceOf(Date);
+    expect(order.statusHistory[0].timestamp).toEqual(new Date('2024-06-04T14:35:00.000Z'));
+    expect(order.items[0]).toMatchObject({ quantity: 1.2, unitPrice: 89.9, totalPrice: 107.88 });
+    expect(order.total).toBe(132.88);
+  });
+
+  it('preenche as listas e usa a criação como atualização quando falta', () => {
+    const order = migrateToV2(clone(v1Orders[1]));
+
+    expect(order.items).toEqual([]);
+    expect(order.priceHistory).toEqual([]);
+    expect(order.statusHistory).toEqual([]);
+    expect(order.statusMessages).toEqual([]);
+    expect(order.updatedAt).toEqual(order.createdAt);
+  });
+});
+
+describe('migrateToV3', () => {
+  const withItems = (...items: any[]) => ({ id: 'pedido', items });
+
+  it('a nota "Tipo: kg" vira a unidade e a quantidade vira o peso pedido', () => {
+    const [item] = migrateToV3(withItems({ id: 'i', quantity: 1.5, notes: 'Tipo: kg, bem passada' })).items;
+    expect(item).toEqual({ id: 'i', quantity: 1.5, notes: 'bem passada', unit: 'kg', requestedWeight: 1.5 });
+  });
+
+  it('reconhece as grafias de gramas', () => {
+    const [item] = migrateToV3(withItems({ id: 'i', quantity: 250, notes: 'tipo: Gramas' })).items;
+    expect(item).toMatchObject({ unit: 'g', requestedWeight: 250, notes: undefined });
+  });
+
+  it('"Tipo: un" só sai das notas', () => {
+    const [item] = migrateToV3(withItems({ id: 'i', quantity: 2, notes: 'Tipo: un' })).items;
+    expect(item).toEqual({ id: 'i', quantity: 2, notes: undefined });
+  });
+
+  it('não mexe em itens com unidade, sem notas ou com outro "Tipo"', () => {
+    const items = [
+      { id: 'a', quantity: 1, unit: 'kg', notes: 'Tipo: g' },
+      { id: 'b', quantity: 1 },
+      { id: 'c', quantity: 1, notes: 'Tipo: Calabresa' }
+    ];
+    const migrated = migrateToV3(withItems(...items)).items;
+    migrated.forEach((item: any, index: number) => expect(item).toBe(items[index]));
+  });
+});
+
+// ==================== EXECUÇÃO ====================
+describe('migrateRecords', () => {
+  it('leva os pedidos da v1 à versão atual (arquivo esperado)', () => {
+    const result = migrateRecords(clone(v1Orders), 1);
+
+    expect(CURRENT_SCHEMA_VERSION).toBe(3);
+    expect(result.errors).toEqual([]);
+    expect(result.steps.map(step => [step.version, step.changed])).toEqual([[2, 2], [3, 1]]);
+    expect(serialize(result.records)).toEqual(v3Expected);
+  });
+
+  it('da v2 roda só o passo da v3', () => {
+    const v2 = clone(v1Orders).map(migrateToV2);
+    const result = migrateRecords(v2, 2);
+
+    expect(result.steps.map(step => step.version)).toEqual([3]);
+    expect(serialize(result.records)).toEqual(v3Expected);
+  });
+
+  it('aplica os passos em ordem de versão, só os posteriores à de origem', () => {
+    const calls: number[] = [];
+    const step = (version: number): MigrationStep => ({
+      version,
+      description: `v${version}`,
+      migrate: record => {
+        calls.push(version);
+        return { ...record, version };
+      }
+    });
+
+    const result = migrateRecords([{ id: 'a' }], 2, [step(4), step(2), step(3)]);
+
+    expect(calls).toEqual([3, 4]);
+    expect(result.records).toEqual([{ id: 'a', version: 4 }]);
+    expect(result.steps).toEqual([
+      { version: 3, description: 'v3', changed: 1 },
+      { version: 4, description: 'v4', changed: 1 }
+    ]);
+  });
+
+  it('pedido que falha fica como estava e entra nos erros', () => {
+    const failing: MigrationStep = {
+      version: 2,
+      description: 'falha no b',
+      migrate: record => {
+        if (record.id === 'b') throw new Error('quebrou');
+        return { ...record, ok: true };
+      }
+    };
+    const records = [{ id: 'a' }, { id: 'b' }];
+
+    const result = migrateRecords(records, 1, [failing]);
+
+    expect(result.records).toEqual([{ id: 'a', ok: true }, { id: 'b' }]);
+    expect(result.records[1]).toBe(records[1]);
+    expect(result.errors).toEqual([{ orderId: 'b', version: 2, error: 'quebrou' }]);
+  });
+});
+
+// ==================== INDEXEDDB ====================
+describe('migrateIndexedDB', () => {
+  it('simulação não grava nada', async () => {
+    mockDB.orders = clone(v1Orders);
+    mockDB.metadata.set('schemaVersion', 1);
+    const before = clone(mockDB.orders);
+
+    const report = await migrateIndexedDB({ dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, applied: false, fromVersion: 1, total: 2, errors: [] });
+    expect(report!.steps.map(step => step.changed)).toEqual([2, 1]);
+    expect(mockDB.orders).toEqual(before);
+    expect(mockDB.metadata.get('schemaVersion')).toBe(1);
+    expect(mockDB.metadata.has('lastMigration')).toBe(false);
+    expect(mockDB.backup.size).toBe(0);
+  });
+
+  it('migra, grava a versão e apaga a cópia de segurança', async () => {
+    mockDB.orders = clone(v1Orders);
+
+    const report = await migrateIndexedDB();
+
+    expect(report).toMatchObject({ applied: true, rolledBack: false, fromVersion: 1, toVersion: 3 });
+    expect(serialize(mockDB.orders)).toEqual(v3Expected);
+    expect(mockDB.metadata.get('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION);
+    expect(mockDB.metadata.get('lastMigration')).toBe(report);
+    expect(mockDB.backup.size).toBe(0);
+  });
+
+  it('migração interrompida é desfeita pela cópia de segurança e roda de novo', async () => {
+    // Parou no meio: metade dos pedidos regravada e a versão já trocada
+    mockDB.orders = [serialize(v3Expected[0])];
+    mockDB.metadata.set('schemaVersion', CURRENT_SCHEMA_VERSION);
+    mockDB.backup.set('migration_rollback', {
+      id: 'migration_rollback',
+      orders: clone(v1Orders),
+      fromVersion: 1,
+      backupDate: new Date(),
+      count: 2
+    });
+
+    const report = await migrateIndexedDB();
+
+    expect(report).toMatchObject({ applied: true, rolledBack: true, fromVersion: 1, total: 2 });
+    expect(serialize(mockDB.orders)).toEqual(v3Expected);
+    expect(mockDB.backup.size).toBe(0);
+  });
+
+  it('simulação não restaura a cópia de segurança', async () => {
+    const partial = [serialize(v3Expected[0])];
+    mockDB.orders = partial;
+    mockDB.metadata.set('schemaVersion', CURRENT_SCHEMA_VERSION);
+    mockDB.backup.set('migration_rollback', { id: 'migration_rollback', orders: clone(v1Orders), fromVersion: 1, count: 2 });
+
+    const report = await migrateIndexedDB({ dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, rolledBack: true, applied: false });
+    expect(mockDB.orders).toBe(partial);
+    expect(mockDB.backup.has('migration_rollback')).toBe(true);
+  });
+
+  it('banco vazio e sem versão nasce na versão atual', async () => {
+    expect(await migrateIndexedDB()).toBeNull();
+    expect(mockDB.metadata.get('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('não mexe em dados de uma versão mais nova do app', async () => {
+    mockDB.orders = clone(v3Expected);
+    mockDB.metadata.set('schemaVersion', CURRENT_SCHEMA_VERSION + 1);
+    const before = mockDB.orders;
+
+    const report = await migrateIndexedDB();
+
+    expect(report!.applied).toBe(false);
+    expect(report!.errors).toHaveLength(1);
+    expect(mockDB.orders).toBe(before);
+  });
+});
+
+// ==================== LOCALSTORAGE ====================
+describe('migrateLocalStorage', () => {
+  const legacyData = (orders: any[] = v1Orders, version: string | number = '1.0') =>
+    JSON.stringify({ orders, timestamp: 1717500000000, version });
+
+  it('simulação não grava nada', () => {
+    localStorage.setItem('mercado_orders', legacyData());
+
+    const [report] = migrateLocalStorage({ dryRun: true });
+
+    expect(report).toMatchObject({ target: 'localStorage', dryRun: true, applied: false, fromVersion: 1, total: 2 });
+    expect(localStorage.getItem('mercado_orders')).toBe(legacyData());
+    expect(localStorage.getItem('mercado_orders_migration_rollback')).toBeNull();
+  });
+
+  it('migra o principal e o backup para a versão atual', () => {
+    localStorage.setItem('mercado_orders', legacyData());
+    localStorage.setItem('mercado_orders_backup', legacyData());
+
+    const reports = migrateLocalStorage();
+
+    expect(reports.map(report => report.applied)).toEqual([true, true]);
+    ['mercado_orders', 'mercado_orders_backup'].forEach(key => {
+      const data = JSON.parse(localStorage.getItem(key)!);
+      expect(data.version).toBe(CURRENT_SCHEMA_VERSION);
+      expect(data.orders).toEqual(v3Expected);
+      expect(localStorage.getItem(`${key}_migration_rollback`)).toBeNull();
+    });
+  });
+
+  it('migração interrompida é desfeita pela cópia de segurança e roda de novo', () => {
+    localStorage.setItem('mercado_orders', '{"orders": [{"id": "pedido-1"'); // gravação cortada
+    localStorage.setItem('mercado_orders_migration_rollback', legacyData());
+
+    const [report] = migrateLocalStorage();
+
+    expect(report).toMatchObject({ applied: true, rolledBack: true, total: 2 });
+    expect(JSON.parse(localStorage.getItem('mercado_orders')!).orders).toEqual(v3Expected);
+    expect(localStorage.getItem('mercado_orders_migration_rollback')).toBeNull();
+  });
+
+  it('nada a fazer na versão atual', () => {
+    localStorage.setItem('mercado_orders', legacyData(v3Expected, CURRENT_SCHEMA_VERSION));
+    expect(migrateLocalStorage()).toEqual([]);
+  });
+});
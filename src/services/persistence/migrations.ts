@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Migrações versionadas dos pedidos salvos no aparelho
+ * @module services/persistence/migrations
+ *
+ * Cada passo recebe um pedido no formato da versão anterior e devolve o
+ * pedido na sua versão (v1 → v2, v2 → v3...). Os passos são funções puras:
+ * quem roda os passos para cada armazenamento (IndexedDB e o localStorage
+ * da versão antiga) guarda uma cópia de segurança antes de gravar e só a
+ * apaga depois que a migração termina. Uma migração interrompida é desfeita
+ * na próxima carga, a partir dessa cópia, e roda de novo.
+ *
+ * Mudou o formato de Order? Adicione um passo em MIGRATION_STEPS; nunca
+ * altere um passo já publicado.
+ */
+
+import { ordersStorage, StoredOrder } from '../cache/ordersStorage';
+
+// ==================== TIPOS ====================
+export interface MigrationStep {
+  // Versão produzida pelo passo
+  version: number;
+  description: string;
+  migrate: (order: any) => any;
+}
+
+export type MigrationTarget = 'indexeddb' | 'localStorage';
+
+export interface MigrationReport {
+  target: MigrationTarget;
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  total: number;
+  steps: Array<{ version: number; description: string; changed: number }>;
+  errors: Array<{ orderId: string; version: number; error: string }>;
+  // Migração anterior interrompida e desfeita a partir da cópia de segurança
+  rolledBack: boolean;
+  applied: boolean;
+  ranAt: string;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+}
+
+// ==================== PASSOS ====================
+const toDate = (value: any) => (value && !(value instanceof Date) ? new Date(value) : value);
+
+const toNumber = (value: any) => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(String(value ?? '').replace(',', '.'));
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+/**
+ * v2: datas como Date (inclusive nos históricos), listas sempre presentes
+ * e valores numéricos. Pedidos da versão antiga vinham do JSON do
+ * localStorage com datas em texto e, de alguns backends, totais em texto.
+ */
+export function migrateToV2(order: any): any {
+  return {
+    ...order,
+    items: Array.isArray(order.items)
+      ? order.items.map((item: any) => ({
+          ...item,
+          quantity: toNumber(item.quantity),
+          unitPrice: toNumber(item.unitPrice),
+          totalPrice: toNumber(item.totalPrice)
+        }))
+      : [],
+    subtotal: toNumber(order.subtotal),
+    deliveryFee: toNumber(order.deliveryFee),
+    total: toNumber(order.total),
+    createdAt: toDate(order.createdAt),
+    updatedAt: toDate(order.updatedAt || order.createdAt),
+    estimatedDeliveryTime: toDate(order.estimatedDeliveryTime),
+    actualDeliveryTime: toDate(order.actualDeliveryTime),
+    serverUpdatedAt: toDate(order.serverUpdatedAt),
+    priceHistory: (order.priceHistory || []).map((entry: any) => ({ ...entry, timestamp: toDate(entry.timestamp) })),
+    statusHistory: (order.statusHistory || []).map((entry: any) => ({ ...entry, timestamp: toDate(entry.timestamp) })),
+    statusMessages: (order.statusMessages || []).map((entry: any) => ({ ...entry, timestamp: toDate(entry.timestamp) }))
+  };
+}
+
+// Unidades que o adaptador antigo gravava como nota "Tipo: <unit_type>"
+const LEGACY_UNIT_NOTE = /^Tipo:\s*(un|unit|unidade|kg|kilo|quilo|weight|peso|g|gr|gram|grama|gramas)$/i;
+const LEGACY_UNITS: Record<string, 'un' | 'kg' | 'g'> = {
+  kg: 'kg', kilo: 'kg', quilo: 'kg', weight: 'kg', peso: 'kg',
+  g: 'g', gr: 'g', gram: 'g', grama: 'g', gramas: 'g'
+};
+
+/**
+ * v3: unidade do item como campo. A nota "Tipo: kg" vira unit e a
+ * quantidade gravada passa a ser o peso pedido (o peso real não era guardado).
+ */
+export function migrateToV3(order: any): any {
+  return {
+    ...order,
+    items: order.items.map((item: any) => {
+      if (item.unit || typeof item.notes !== 'string') return item;
+
+      const notes = item.notes.split(',').map((note: string) => note.trim());
+      const unitNote = notes.find((note: string) => LEGACY_UNIT_NOTE.test(note));
+      if (!unitNote) return item;
+
+      const rest = notes.filter((note: string) => note !== unitNote).join(', ') || undefined;
+      const unit = LEGACY_UNITS[unitNote.replace(/^Tipo:\s*/i, '').toLowerCase()];
+      return unit
+        ? { ...item, notes: rest, unit, requestedWeight: item.quantity }
+        : { ...item, notes: rest };
+    })
+  };
+}
+
+export const MIGRATION_STEPS: MigrationStep[] = [
+  { version: 2, description: 'Datas como Date, listas presentes e valores numéricos', migrate: migrateToV2 },
+  { version: 3, description: 'Unidade dos itens (un/kg/g) em vez da nota "Tipo:"', migrate: migrateToV3 }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATION_STEPS.reduce((latest, step) => Math.max(latest, step.version), 1);
+
+// ==================== EXECUÇÃO (PURA) ====================
+
+/**
+ * Aplica em ordem os passos posteriores a fromVersion. Um pedido que falha
+ * em algum passo entra em errors e a migração não deve ser gravada.
+ */
+export function migrateRecords<T extends { id: string }>(
+  records: T[],
+  fromVersion: number,
+  steps: MigrationStep[] = MIGRATION_STEPS
+): { records: T[]; steps: MigrationReport['steps']; errors: MigrationReport['errors'] } {
+  const pending = steps
+    .filter(step => step.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const stepReports = pending.map(step => ({ version: step.version, description: step.description, changed: 0 }));
+  const errors: MigrationReport['errors'] = [];
+
+  const migrated = records.map(record => {
+    let current: any = record;
+
+    for (let i = 0; i < pending.length; i++) {
+      try {
+        const next = pending[i].migrate(current);
+        if (JSON.stringify(next) !== JSON.stringify(current)) stepReports[i].changed++;
+        current = next;
+      } catch (error) {
+        errors.push({
+          orderId: record.id,
+          version: pending[i].version,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return record;
+      }
+    }
+    return current as T;
+  });
+
+  return { records: migrated, steps: stepReports, errors };
+}
+
+/**
+ * Versão gravada pela versão antiga do localStorage ("1.0") ou pelas novas (número)
+ */
+export function parseSchemaVersion(version: unknown): number {
+  if (typeof version === 'number') return version;
+  const parsed = parseInt(String(version ?? '1'), 10);
+  return isNaN(parsed) ? 1 : parsed;
+}
+
+const newReport = (target: MigrationTarget, fromVersion: number, dryRun: boolean): MigrationReport => ({
+  target,
+  fromVersion,
+  toVersion: CURRENT_SCHEMA_VERSION,
+  dryRun,
+  total: 0,
+  steps: [],
+  errors: [],
+  rolledBack: false,
+  applied: false,
+  ranAt: new Date().toISOString()
+});
+
+// ==================== INDEXEDDB ====================
+const ROLLBACK_ID = 'migration_rollback';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const LAST_MIGRATION_KEY = 'lastMigration';
+
+/**
+ * Migra o store de pedidos do IndexedDB. Retorna null se já está na versão atual.
+ */
+export async function migrateIndexedDB({ dryRun = false }: MigrationOptions = {}): Promise<MigrationReport | null> {
+  await ordersStorage.init();
+
+  // Migração anterior interrompida: voltar ao estado de antes dela
+  const rollback = await ordersStorage.getRollbackCopy(ROLLBACK_ID);
+  if (rollback && !dryRun) {
+    console.warn(`↩️ Migração interrompida encontrada; restaurando ${rollback.count} pedidos da v${rollback.fromVersion}`);
+    await ordersStorage.rewriteOrders(rollback.orders, rollback.fromVersion);
+    await ordersStorage.deleteRollbackCopy(ROLLBACK_ID);
+  }
+
+  const orders: StoredOrder[] = rollback ? rollback.orders : await ordersStorage.getAllOrders();
+  const savedVersion = rollback ? rollback.fromVersion : await ordersStorage.getMetadata<number>(SCHEMA_VERSION_KEY);
+
+  // Banco sem versão: vazio nasce na atual; com pedidos, veio antes das migrações
+  if (savedVersion === undefined && orders.length === 0) {
+    if (!dryRun) await ordersStorage.setMetadata(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+    return null;
+  }
+
+  const fromVersion = savedVersion ?? 1;
+  if (fromVersion === CURRENT_SCHEMA_VERSION && !rollback) return null;
+
+  const report = newReport('indexeddb', fromVersion, dryRun);
+  report.rolledBack = !!rollback;
+  report.total = orders.length;
+
+  // Dados gravados por uma versão mais nova do app: não mexer
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    report.errors.push({ orderId: '*', version: fromVersion, error: 'Dados de uma versão mais nova do aplicativo' });
+    return report;
+  }
+
+  const result = migrateRecords(orders, fromVersion);
+  report.steps = result.steps;
+  report.errors = result.errors;
+
+  if (dryRun || result.errors.length > 0) {
+    if (result.errors.length > 0) console.error('❌ Migração dos pedidos cancelada:', result.errors);
+    return report;
+  }
+
+  await ordersStorage.saveRollbackCopy({
+    id: ROLLBACK_ID,
+    orders,
+    fromVersion,
+    backupDate: new Date(),
+    count: orders.length
+  });
+  await ordersStorage.rewriteOrders(result.records, CURRENT_SCHEMA_VERSION);
+  await ordersStorage.deleteRollbackCopy(ROLLBACK_ID);
+
+  report.applied = true;
+  await ordersStorage.setMetadata(LAST_MIGRATION_KEY, report);
+  console.log(`🔁 ${orders.length} pedidos migrados da v${fromVersion} para a v${CURRENT_SCHEMA_VERSION}`);
+  return report;
+}
+
+export async function getLastMigration(): Promise<MigrationReport | undefined> {
+  return ordersStorage.getMetadata<MigrationReport>(LAST_MIGRATION_KEY);
+}
+
+// ==================== LOCALSTORAGE (VERSÃO ANTIGA) ====================
+const LEGACY_KEYS = ['mercado_orders', 'mercado_orders_backup'];
+const LEGACY_ROLLBACK_SUFFIX = '_migration_rollback';
+
+/**
+ * Migra os pedidos que a versão antiga gravava no localStorage (principal e
+ * backup), para que a importação única no IndexedDB não perca nada
+ */
+export function migrateLocalStorage({ dryRun = false }: MigrationOptions = {}): MigrationReport[] {
+  const reports: MigrationReport[] = [];
+
+  LEGACY_KEYS.forEach(key => {
+    const rollbackKey = key + LEGACY_ROLLBACK_SUFFIX;
+    const rollback = localStorage.getItem(rollbackKey);
+
+    if (rollback !== null && !dryRun) {
+      console.warn(`↩️ Migração interrompida de ${key}; restaurando a cópia de segurança`);
+      localStorage.setItem(key, rollback);
+      localStorage.removeItem(rollbackKey);
+    }
+
+    const raw = localStorage.getItem(key);
+    if (!raw) return;
+
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return; // Ilegível: localPersistence trata como corrompido
+    }
+    if (!data || !Array.isArray(data.orders)) return;
+
+    const fromVersion = parseSchemaVersion(data.version);
+    if (fromVersion === CURRENT_SCHEMA_VERSION) return;
+
+    const report = newReport('localStorage', fromVersion, dryRun);
+    report.rolledBack = rollback !== null;
+    report.total = data.orders.length;
+    reports.push(report);
+
+    if (fromVersion > CURRENT_SCHEMA_VERSION) {
+      report.errors.push({ orderId: '*', version: fromVersion, error: 'Dados de uma versão mais nova do aplicativo' });
+      return;
+    }
+
+    const result = migrateRecords(data.orders.filter((order: any) => order && order.id), fromVersion);
+    report.steps = result.steps;
+    report.errors = result.errors;
+    if (dryRun || result.errors.length > 0) return;
+
+    try {
+      localStorage.setItem(rollbackKey, raw);
+      localStorage.setItem(key, JSON.stringify({ ...data, orders: result.records, version: CURRENT_SCHEMA_VERSION }));
+      localStorage.removeItem(rollbackKey);
+      report.applied = true;
+    } catch (error) {
+      // Sem espaço para a cópia ou para o resultado: fica como estava
+      localStorage.removeItem(rollbackKey);
+      report.errors.push({ orderId: '*', version: CURRENT_SCHEMA_VERSION, error: String(error) });
+    }
+  });
+
+  return reports;
+}
+
+// ==================== ENTRADA ====================
+
+/**
+ * Roda (ou simula, com dryRun) as migrações dos dois armazenamentos
+ */
+export async function runMigrations(options: MigrationOptions = {}): Promise<MigrationReport[]> {
+  const reports = migrateLocalStorage(options);
+  const indexedDBReport = await migrateIndexedDB(options);
+  if (indexedDBReport) reports.push(indexedDBReport);
+
+  if (options.dryRun) {
+    console.log('🧪 Simulação de migração:', reports);
+  }
+  return reports;
+}
@@ -0,0 +1,303 @@
+import { Order, OrderPriority, OrderStatus } from '../../types';
+import { ArchivedOrder } from '../cache/ordersStorage';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from './migrations';
+import { IndexedDBOrderRepository, InMemoryOrderRepository } from './orderRepository';
+
+// IndexedDB de pedidos em memória: só o que a migração do localStorage usa
+const mockStored = {
+  orders: new Map<string, any>(),
+  metadata: new Map<string, any>(),
+  archived: [] as ArchivedOrder[]
+};
+
+// Funções comuns, não jest.fn: o Jest do CRA reseta os mocks a cada teste
+jest.mock('../cache/ordersStorage', () => ({
+  ordersStorage: {
+    init: async () => undefined,
+    getMetadata: async (key: string) => mockStored.metadata.get(key),
+    setMetadata: async (key: string, value: any) => {
+      mockStored.metadata.set(key, value);
+    },
+    getAllOrders: async () => Array.from(mockStored.orders.values()),
+    getArchivedOrders: async () => mockStored.archived,
+    saveOrdersBatch: async (orders: any[]) => {
+      orders.forEach(order => mockStored.orders.set(order.id, order));
+      return orders.length;
+    }
+  }
+}));
+
+jest.mock('../cache/indexedDBService', () => ({
+  indexedDBService: { init: async () => undefined }
+}));
+
+jest.mock('./migrations', () => ({
+  ...jest.requireActual('./migrations'),
+  runMigrations: jest.fn()
+}));
+
+// ==================== HELPERS ====================
+const makeOrder = (id: string, createdAt: string, overrides: Partial<Order> = {}): Order => ({
+  id,
+  customer: { name: `Cliente ${id}`, phone: '11999999999' },
+  items: [{ id: `${id}-item`, name: 'Pão', quantity: 2, unitPrice: 1, totalPrice: 2 }],
+  subtotal: 2,
+  deliveryFee: 0,
+  total: 2,
+  status: OrderStatus.PENDING,
+  priority: OrderPriority.NORMAL,
+  paymentMethod: 'Dinheiro',
+  createdAt: new Date(createdAt),
+  updatedAt: new Date(createdAt),
+  ...overrides
+});
+
+const archivedFrom = (order: Order): ArchivedOrder => ({
+  id: order.id,
+  customerName: order.customer.name,
+  itemCount: order.items.length,
+  total: order.total,
+  status: order.status,
+  paymentMethod: String(order.paymentMethod),
+  createdAt: order.createdAt,
+  updatedAt: order.updatedAt,
+  archivedAt: new Date('2024-07-01T00:00:00.000Z'),
+  reason: 'age'
+});
+
+const ids = (orders: Order[]) => orders.map(order => order.id);
+
+// ==================== MEMÓRIA ====================
+describe('InMemoryOrderRepository', () => {
+  const older = makeOrder('a', '2024-06-01T10:00:00.000Z');
+  const newer = makeOrder('b', '2024-06-02T10:00:00.000Z');
+
+  it('lista os pedidos do mais novo para o mais antigo', async () => {
+    const repository = new InMemoryOrderRepository([older, newer]);
+    expect(ids(await repository.getAll())).toEqual(['b', 'a']);
+  });
+
+  it('busca, grava e remove um pedido', async () => {
+    const repository = new InMemoryOrderRepository([older]);
+
+    expect(await repository.get('b')).toBeNull();
+    await repository.save(newer);
+    expect(await repository.get('b')).toEqual(newer);
+
+    await repository.remove('a');
+    expect(ids(await repository.getAll())).toEqual(['b']);
+  });
+
+  it('saveAll substitui o conjunto inteiro', async () => {
+    const repository = new InMemoryOrderRepository([older]);
+    await repository.saveAll([newer]);
+    expect(ids(await repository.getAll())).toEqual(['b']);
+  });
+
+  it('guarda metadados', async () => {
+    const repository = new InMemoryOrderRepository();
+    expect(await repository.getMetadata('lastSync')).toBeUndefined();
+    await repository.setMetadata('lastSync', '2024-06-02T10:00:00.000Z');
+    expect(await repository.getMetadata('lastSync')).toBe('2024-06-02T10:00:00.000Z');
+  });
+
+  describe('arquivo', () => {
+    it('arquivar tira o pedido e ele não volta sem ter mudado', async () => {
+      const repository = new InMemoryOrderRepository([older, newer]);
+      await repository.archive([archivedFrom(older)]);
+
+      expect(ids(await repository.getAll())).toEqual(['b']);
+      expect((await repository.getArchived()).map(entry => entry.id)).toEqual(['a']);
+
+      await repository.save(older);
+      await repository.saveAll([older, newer]);
+      expect(ids(await repository.getAll())).toEqual(['b']);
+    });
+
+    it('pedido arquivado que mudou volta', async () => {
+      const repository = new InMemoryOrderRepository([older]);
+      await repository.archive([archivedFrom(older)]);
+
+      const changed = { ...older, status: OrderStatus.CANCELLED, updatedAt: new Date('2024-06-05T10:00:00.000Z') };
+      await repository.save(changed);
+      expect(await repository.get('a')).toEqual(changed);
+    });
+  });
+
+  describe('fila de sincronização', () => {
+    it('entrada nova fica pendente, com chave de idempotência e os dados da mutação', async () => {
+      const repository = new InMemoryOrderRepository();
+      const id = await repository.addToSyncQueue('POST', 'orders/a/updateStatus', { status: 'ready' }, 5, {
+        orderId: 'a',
+        operation: 'updateStatus'
+      });
+
+      const [entry] = await repository.getSyncQueue();
+      expect(entry).toMatchObject({
+        id,
+        method: 'POST',
+        url: 'orders/a/updateStatus',
+        data: { status: 'ready' },
+        retryCount: 0,
+        maxRetries: 5,
+        status: 'pending',
+        orderId: 'a',
+        operation: 'updateStatus'
+      });
+      expect(entry.idempotencyKey).toEqual(expect.any(String));
+    });
+
+    it('só muda a fila por updateSyncEntry e removeSyncEntry', async () => {
+      const repository = new InMemoryOrderRepository();
+      const id = await repository.addToSyncQueue('POST', 'orders/a/updateStatus');
+
+      const [entry] = await repository.getSyncQueue();
+      entry.retryCount = 2;
+      expect((await repository.getSyncQueue())[0].retryCount).toBe(0);
+
+      await repository.updateSyncEntry({ ...entry, status: 'failed' });
+      expect((await repository.getSyncQueue())[0]).toMatchObject({ retryCount: 2, status: 'failed' });
+
+      await repository.removeSyncEntry(id);
+      expect(await repository.getSyncQueue()).toEqual([]);
+    });
+  });
+
+  it('devolve o log de sincronização do mais novo para o mais antigo, com limite', async () => {
+    const repository = new InMemoryOrderRepository();
+    await repository.logSyncEvent({ orderId: 'a', action: 'replay', outcome: 'success' });
+    await repository.logSyncEvent({ orderId: 'b', action: 'replay', outcome: 'failure' });
+
+    expect((await repository.getSyncLog()).map(entry => entry.orderId)).toEqual(['b', 'a']);
+    expect((await repository.getSyncLog(1)).map(entry => entry.orderId)).toEqual(['b']);
+  });
+
+  it('conta os pedidos por status nas estatísticas', async () => {
+    const repository = new InMemoryOrderRepository([older, { ...newer, status: OrderStatus.READY }]);
+    const stats = await repository.getStorageStats();
+
+    expect(stats.totalOrders).toBe(2);
+    expect(stats.byStatus[OrderStatus.PENDING]).toBe(1);
+    expect(stats.byStatus[OrderStatus.READY]).toBe(1);
+    expect(stats.byStatus[OrderStatus.CANCELLED]).toBe(0);
+    expect(stats.oldestOrder).toEqual(older.createdAt);
+    expect(stats.newestOrder).toEqual(newer.createdAt);
+  });
+});
+
+// ==================== MIGRAÇÃO DO LOCALSTORAGE ====================
+describe('IndexedDBOrderRepository: pedidos da versão antiga no localStorage', () => {
+  const legacyA = makeOrder('a', '2024-06-01T10:00:00.000Z');
+  const legacyB = makeOrder('b', '2024-06-02T10:00:00.000Z');
+
+  const legacyKey = (orders: Order[], version: string | number = CURRENT_SCHEMA_VERSION) =>
+    JSON.stringify({ orders, timestamp: Date.now(), version });
+
+  const saveLegacy = (orders: Order[], version: string | number = CURRENT_SCHEMA_VERSION) => {
+    localStorage.setItem('mercado_orders', legacyKey(orders, version));
+    localStorage.setItem('mercado_orders_backup', legacyKey(orders, version));
+  };
+
+  const storedIds = () => Array.from(mockStored.orders.keys()).sort();
+
+  beforeEach(() => {
+    mockStored.orders.clear();
+    mockStored.metadata.clear();
+    mockStored.archived = [];
+    localStorage.clear();
+    (runMigrations as jest.Mock).mockResolvedValue([]);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('copia para o IndexedDB vazio e remove as chaves antigas', async () => {
+    saveLegacy([legacyA, legacyB]);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual(['a', 'b']);
+    expect(mockStored.orders.get('a').createdAt).toBeInstanceOf(Date);
+    expect(localStorage.getItem('mercado_orders')).toBeNull();
+    expect(localStorage.getItem('mercado_orders_backup')).toBeNull();
+    expect(mockStored.metadata.get('legacyLocalStorageMigrated')).toEqual(expect.any(String));
+  });
+
+  it('com o IndexedDB já preenchido, copia só os que faltam sem sobrescrever', async () => {
+    const current = { ...legacyA, status: OrderStatus.READY };
+    mockStored.orders.set('a', current);
+    saveLegacy([legacyA, legacyB]);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual(['a', 'b']);
+    expect(mockStored.orders.get('a')).toBe(current);
+    expect(localStorage.getItem('mercado_orders')).toBeNull();
+  });
+
+  it('junta a chave principal e o backup', async () => {
+    localStorage.setItem('mercado_orders', legacyKey([legacyA]));
+    localStorage.setItem('mercado_orders_backup', legacyKey([legacyA, legacyB]));
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual(['a', 'b']);
+    expect(localStorage.getItem('mercado_orders')).toBeNull();
+    expect(localStorage.getItem('mercado_orders_backup')).toBeNull();
+  });
+
+  it('no mesmo pedido nas duas chaves, fica o mais recente', async () => {
+    const newerA = { ...legacyA, status: OrderStatus.READY, updatedAt: new Date('2024-06-03T10:00:00.000Z') };
+    localStorage.setItem('mercado_orders', legacyKey([legacyA]));
+    localStorage.setItem('mercado_orders_backup', legacyKey([newerA]));
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(mockStored.orders.get('a').status).toBe(OrderStatus.READY);
+  });
+
+  it('não traz de volta pedidos arquivados', async () => {
+    mockStored.orders.set('b', legacyB);
+    mockStored.archived = [archivedFrom(legacyA)];
+    saveLegacy([legacyA]);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual(['b']);
+  });
+
+  it('mantém no localStorage os pedidos de outra versão do esquema', async () => {
+    saveLegacy([legacyA], CURRENT_SCHEMA_VERSION + 1);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual([]);
+    expect(localStorage.getItem('mercado_orders')).not.toBeNull();
+  });
+
+  it('roda uma vez só', async () => {
+    mockStored.metadata.set('legacyLocalStorageMigrated', '2024-06-01T00:00:00.000Z');
+    saveLegacy([legacyA]);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual([]);
+    expect(localStorage.getItem('mercado_orders')).not.toBeNull();
+  });
+
+  it('espera a migração de esquema do localStorage dar certo', async () => {
+    (runMigrations as jest.Mock).mockResolvedValue([
+      { target: 'localStorage', errors: [{ orderId: 'a', version: 2, error: 'falhou' }] }
+    ]);
+    saveLegacy([legacyA]);
+
+    await new IndexedDBOrderRepository().init();
+
+    expect(storedIds()).toEqual([]);
+    expect(localStorage.getItem('mercado_orders')).not.toBeNull();
+    expect(mockStored.metadata.has('legacyLocalStorageMigrated')).toBe(false);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * @fileoverview Repositório único de pedidos
+ * @module services/persistence/orderRepository
+ *
+ * Concentra o que antes estava espalhado em localPersistence (localStorage),
+ * ordersStorage (IndexedDB "MercadoExpressPedidos") e indexedDBService (fila
+ * de sincronização). O app lê e grava pedidos apenas por aqui.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Order, OrderStatus } from '../../types';
+import { ordersStorage, ArchivedOrder, OrdersStorageStats, SyncLogEntry } from '../cache/ordersStorage';
+import { indexedDBService, SyncQueueEntry, SyncMutationInfo } from '../cache/indexedDBService';
+import { localPersistence } from './localPersistence';
+import { runMigrations } from './migrations';
+
+// ==================== INTERFACE ====================
+export interface OrderRepository {
+  init(): Promise<void>;
+
+  // Pedidos
+  getAll(): Promise<Order[]>;
+  get(orderId: string): Promise<Order | null>;
+  saveAll(orders: Order[]): Promise<void>;
+  save(order: Order): Promise<void>;
+  remove(orderId: string): Promise<void>;
+
+  // Metadados (última sincronização, migrações etc.)
+  getMetadata<T = any>(key: string): Promise<T | undefined>;
+  setMetadata(key: string, value: any): Promise<void>;
+
+  // Fila de sincronização
+  addToSyncQueue(
+    method: string,
+    url: string,
+    data?: any,
+    maxRetries?: number,
+    mutation?: SyncMutationInfo
+  ): Promise<string>;
+  getSyncQueue(): Promise<SyncQueueEntry[]>;
+  updateSyncEntry(entry: SyncQueueEntry): Promise<void>;
+  removeSyncEntry(id: string): Promise<void>;
+
+  // Diagnóstico
+  logSyncEvent(entry: Omit<SyncLogEntry, 'id' | 'timestamp'>): Promise<void>;
+  getSyncLog(limit?: number): Promise<SyncLogEntry[]>;
+  getStorageStats(): Promise<OrdersStorageStats>;
+
+  // Retenção: pedidos arquivados não voltam ao armazenamento, a não ser que mudem
+  archive(entries: ArchivedOrder[]): Promise<void>;
+  getArchived(): Promise<ArchivedOrder[]>;
+}
+
+const LEGACY_MIGRATION_KEY = 'legacyLocalStorageMigrated';
+
+const byCreatedAtDesc = (a: Order, b: Order) =>
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+/**
+ * Pedido arquivado que chega de novo (sincronização completa, estado da UI)
+ * sem ter mudado desde o arquivamento
+ */
+const isStillArchived = (archived: Map<string, number>, order: Order) => {
+  const archivedUpdatedAt = archived.get(order.id);
+  return archivedUpdatedAt !== undefined && new Date(order.updatedAt).getTime() <= archivedUpdatedAt;
+};
+
+const toArchivedIndex = (entries: ArchivedOrder[]) =>
+  new Map(entries.map(entry => [entry.id, new Date(entry.updatedAt).getTime()]));
+
+// ==================== INDEXEDDB ====================
+/**
+ * Implementação principal: pedidos e metadados no IndexedDB de pedidos,
+ * fila de sincronização no IndexedDB de cache (onde já estão as entradas
+ * de sessões anteriores).
+ */
+export class IndexedDBOrderRepository implements OrderRepository {
+  private ready: Promise<void> | null = null;
+  private archivedIndex: Map<string, number> | null = null;
+
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await Promise.all([ordersStorage.init(), indexedDBService.init()]);
+        const reports = await runMigrations();
+        // Pedidos antigos que não migraram ficam no localStorage para uma próxima versão
+        if (!reports.some(report => report.target === 'localStorage' && report.errors.length > 0)) {
+          await this.migrateLegacyLocalStorage();
+        }
+      })().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  async getAll(): Promise<Order[]> {
+    await this.init();
+    const orders = await ordersStorage.getAllOrders();
+    return orders.map(this.toOrder).sort(byCreatedAtDesc);
+  }
+
+  async get(orderId: string): Promise<Order | null> {
+    await this.init();
+    const order = await ordersStorage.getOrder(orderId);
+    return order ? this.toOrder(order) : null;
+  }
+
+  async saveAll(orders: Order[]): Promise<void> {
+    await this.init();
+    const archived = await this.getArchivedIndex();
+    await ordersStorage.replaceAllOrders(orders.filter(order => !isStillArchived(archived, order)));
+  }
+
+  async save(order: Order): Promise<void> {
+    await this.init();
+    if (isStillArchived(await this.getArchivedIndex(), order)) return;
+    await ordersStorage.saveOrder(order);
+  }
+
+  async remove(orderId: string): Promise<void> {
+    await this.init();
+    await ordersStorage.deleteOrder(orderId);
+  }
+
+  async getMetadata<T = any>(key: string): Promise<T | undefined> {
+    return ordersStorage.getMetadata<T>(key);
+  }
+
+  async setMetadata(key: string, value: any): Promise<void> {
+    await ordersStorage.setMetadata(key, value);
+  }
+
+  addToSyncQueue(
+    method: string,
+    url: string,
+    data?: any,
+    maxRetries?: number,
+    mutation?: SyncMutationInfo
+  ): Promise<string> {
+    return indexedDBService.addToSyncQueue(method, url, data, maxRetries, mutation);
+  }
+
+  getSyncQueue(): Promise<SyncQueueEntry[]> {
+    return indexedDBService.getSyncQueue();
+  }
+
+  updateSyncEntry(entry: SyncQueueEntry): Promise<void> {
+    return indexedDBService.updateSyncEntry(entry);
+  }
+
+  removeSyncEntry(id: string): Promise<void> {
+    return indexedDBService.removeSyncEntry(id);
+  }
+
+  async logSyncEvent(entry: Omit<SyncLogEntry, 'id' | 'timestamp'>): Promise<void> {
+    await this.init();
+    await ordersStorage.addSyncLog({ ...entry, timestamp: new Date() });
+  }
+
+  async getSyncLog(limit?: number): Promise<SyncLogEntry[]> {
+    await this.init();
+    return ordersStorage.getSyncLog(limit);
+  }
+
+  async getStorageStats(): Promise<OrdersStorageStats> {
+    await this.init();
+    return ordersStorage.getStorageStats();
+  }
+
+  async archive(entries: ArchivedOrder[]): Promise<void> {
+    await this.init();
+    await ordersStorage.archiveOrders(entries);
+
+    const archived = await this.getArchivedIndex();
+    entries.forEach(entry => archived.set(entry.id, new Date(entry.updatedAt).getTime()));
+  }
+
+  async getArchived(): Promise<ArchivedOrder[]> {
+    await this.init();
+    return ordersStorage.getArchivedOrders();
+  }
+
+  private async getArchivedIndex(): Promise<Map<string, number>> {
+    if (!this.archivedIndex) {
+      this.archivedIndex = toArchivedIndex(await ordersStorage.getArchivedOrders());
+    }
+    return this.archivedIndex;
+  }
+
+  /**
+   * Migração única dos pedidos salvos pela versão antiga no localStorage
+   * ("mercado_orders" e "mercado_orders_backup", lidas juntas). Copia os
+   * pedidos que o IndexedDB ainda não tem (os que ele tem são mais recentes)
+   * e só depois remove as chaves antigas. Uma chave que o localPersistence
+   * não lê (outra versão do esquema) mantém as duas onde estão.
+   */
+  private async migrateLegacyLocalStorage(): Promise<void> {
+    if (await ordersStorage.getMetadata(LEGACY_MIGRATION_KEY)) return;
+
+    const { orders, unreadable } = localPersistence.loadAllOrders();
+    const legacyOrders = orders as Order[];
+
+    if (legacyOrders.length > 0) {
+      const existingIds = new Set((await ordersStorage.getAllOrders()).map(order => order.id));
+      const archived = await this.getArchivedIndex();
+      const missing = legacyOrders
+        .map(order => ({ ...order, createdAt: new Date(order.createdAt), updatedAt: new Date(order.updatedAt) }))
+        .filter(order => !existingIds.has(order.id) && !isStillArchived(archived, order));
+
+      if (missing.length > 0) {
+        await ordersStorage.saveOrdersBatch(missing);
+        console.log(`📦 ${missing.length} pedidos migrados do localStorage para o IndexedDB`);
+      }
+      if (!unreadable) localPersistence.clearAllData();
+    }
+
+    await ordersStorage.setMetadata(LEGACY_MIGRATION_KEY, new Date().toISOString());
+  }
+
+  // Remove os campos de controle do armazenamento
+  private toOrder({ storedAt, lastSyncAt, syncStatus, version, ...order }: any): Order {
+    return order as Order;
+  }
+}
+
+// ==================== MEMÓRIA ====================
+/**
+ * Implementação em memória, para testes e para navegadores sem IndexedDB
+ * (ex.: modo privado de alguns navegadores). Nada sobrevive a um reload.
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+  private orders = new Map<string, Order>();
+  private metadata = new Map<string, any>();
+  private queue = new Map<string, SyncQueueEntry>();
+  private syncLog: SyncLogEntry[] = [];
+  private archived = new Map<string, ArchivedOrder>();
+
+  constructor(initialOrders: Order[] = []) {
+    initialOrders.forEach(order => this.orders.set(order.id, order));
+  }
+
+  async init(): Promise<void> {}
+
+  async getAll(): Promise<Order[]> {
+    return Array.from(this.orders.values()).sort(byCreatedAtDesc);
+  }
+
+  async get(orderId: string): Promise<Order | null> {
+    return this.orders.get(orderId) || null;
+  }
+
+  async saveAll(orders: Order[]): Promise<void> {
+    const archived = toArchivedIndex(Array.from(this.archived.values()));
+    this.orders = new Map(
+      orders.filter(order => !isStillArchived(archived, order)).map(order => [order.id, order])
+    );
+  }
+
+  async save(order: Order): Promise<void> {
+    if (isStillArchived(toArchivedIndex(Array.from(this.archived.values())), order)) return;
+    this.orders.set(order.id, order);
+  }
+
+  async remove(orderId: string): Promise<void> {
+    this.orders.delete(orderId);
+  }
+
+  async getMetadata<T = any>(key: string): Promise<T | undefined> {
+    return this.metadata.get(key);
+  }
+
+  async setMetadata(key: string, value: any): Promise<void> {
+    this.metadata.set(key, value);
+  }
+
+  async addToSyncQueue(
+    method: string,
+    url: string,
+    data?: any,
+    maxRetries: number = 3,
+    mutation: SyncMutationInfo = {}
+  ): Promise<string> {
+    const id = `sync_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    this.queue.set(id, {
+      id,
+      method,
+      url,
+      data,
+      timestamp: Date.now(),
+      retryCount: 0,
+      maxRetries,
+      status: 'pending',
+      idempotencyKey: uuidv4(),
+      ...mutation
+    });
+    return id;
+  }
+
+  async getSyncQueue(): Promise<SyncQueueEntry[]> {
+    return Array.from(this.queue.values()).map(entry => ({ ...entry }));
+  }
+
+  async updateSyncEntry(entry: SyncQueueEntry): Promise<void> {
+    this.queue.set(entry.id, { ...entry });
+  }
+
+  async removeSyncEntry(id: string): Promise<void> {
+    this.queue.delete(id);
+  }
+
+  async logSyncEvent(entry: Omit<SyncLogEntry, 'id' | 'timestamp'>): Promise<void> {
+    this.syncLog = [{ ...entry, id: this.syncLog.length + 1, timestamp: new Date() }, ...this.syncLog].slice(0, 500);
+  }
+
+  async getSyncLog(limit: number = 500): Promise<SyncLogEntry[]> {
+    return this.syncLog.slice(0, limit);
+  }
+
+  async getStorageStats(): Promise<OrdersStorageStats> {
+    const orders = await this.getAll();
+    const times = orders.map(order => new Date(order.createdAt).getTime());
+    const byStatus = {} as Record<OrderStatus, number>;
+
+    Object.values(OrderStatus).forEach(status => {
+      byStatus[status] = 0;
+    });
+    orders.forEach(order => {
+      byStatus[order.status]++;
+    });
+
+    return {
+      totalOrders: orders.length,
+      pendingSync: 0,
+      byStatus,
+      storageSize: orders.length,
+      oldestOrder: new Date(times.length > 0 ? Math.min(...times) : Date.now()),
+      newestOrder: new Date(times.length > 0 ? Math.max(...times) : Date.now())
+    };
+  }
+
+  async archive(entries: ArchivedOrder[]): Promise<void> {
+    entries.forEach(entry => {
+      this.archived.set(entry.id, entry);
+      this.orders.delete(entry.id);
+    });
+  }
+
+  async getArchived(): Promise<ArchivedOrder[]> {
+    return Array.from(this.archived.values());
+  }
+}
+
+// ==================== INSTÂNCIA ====================
+export const orderRepository: OrderRepository = typeof indexedDB !== 'undefined'
+  ? new IndexedDBOrderRepository()
+  : new InMemoryOrderRepository();
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Quarentena de pedidos recebidos do backend que falharam na validação
+ * @module services/persistence/quarantine
+ *
+ * Guarda o payload bruto e os erros de cada pedido recusado (o mesmo pedido
+ * recebido de novo só atualiza a entrada) e conta quantos pedidos tiveram
+ * cada tipo de falha. Um pedido que volta válido do backend sai da quarentena.
+ */
+
+export interface QuarantineIssue {
+  // Palavra-chave e caminho sem índices, usado na contagem por tipo
+  type: string;
+  path: string;
+  message: string;
+}
+
+export interface QuarantineEntry {
+  key: string;
+  orderId: string | null;
+  source: string;
+  variant: string | null;
+  payload: unknown;
+  issues: QuarantineIssue[];
+  firstSeenAt: number;
+  lastSeenAt: number;
+  occurrences: number;
+}
+
+interface QuarantineData {
+  entries: Record<string, QuarantineEntry>;
+  // Pedidos que já tiveram cada tipo de falha (acumulado, sobrevive à liberação)
+  counts: Record<string, number>;
+}
+
+class QuarantineStore {
+  private readonly STORAGE_KEY = 'mercado_quarantine';
+  private readonly MAX_ENTRIES = 200;
+  // Payloads enormes não cabem no localStorage; o início já mostra o problema
+  private readonly MAX_PAYLOAD_CHARS = 20000;
+
+  private data: QuarantineData = this.load();
+  private listeners = new Set<() => void>();
+
+  add(payload: unknown, issues: QuarantineIssue[], context: { source: string; variant: string | null }): void {
+    const orderId = this.idOf(payload);
+    const key = orderId || `sem-id-${this.hash(JSON.stringify(payload) ?? String(payload))}`;
+    const existing = this.data.entries[key];
+    const now = Date.now();
+
+    this.data.entries[key] = {
+      key,
+      orderId,
+      source: context.source,
+      variant: context.variant,
+      payload: this.trimPayload(payload),
+      issues,
+      firstSeenAt: existing?.firstSeenAt || now,
+      lastSeenAt: now,
+      occurrences: (existing?.occurrences || 0) + 1
+    };
+
+    // Cada sincronização traz o mesmo pedido de novo: só conta os tipos de
+    // falha que ainda não estavam registrados para ele
+    const knownTypes = new Set((existing?.issues || []).map(issue => issue.type));
+    Array.from(new Set(issues.map(issue => issue.type)))
+      .filter(type => !knownTypes.has(type))
+      .forEach(type => {
+        this.data.counts[type] = (this.data.counts[type] || 0) + 1;
+      });
+
+    this.prune();
+    this.save();
+  }
+
+  /**
+   * Tira da quarentena (o pedido chegou válido ou o operador descartou)
+   */
+  release(key: string): void {
+    if (!this.data.entries[key]) return;
+    delete this.data.entries[key];
+    this.save();
+  }
+
+  getEntries(): QuarantineEntry[] {
+    return Object.values(this.data.entries).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+  }
+
+  getCounts(): Record<string, number> {
+    return { ...this.data.counts };
+  }
+
+  count(): number {
+    return Object.keys(this.data.entries).length;
+  }
+
+  clear(): void {
+    this.data = { entries: {}, counts: {} };
+    this.save();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private idOf(payload: unknown): string | null {
+    if (!payload || typeof payload !== 'object') return null;
+    const id = (payload as any)._id || (payload as any).id;
+    return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+  }
+
+  private trimPayload(payload: unknown): unknown {
+    const text = JSON.stringify(payload) ?? String(payload);
+    return text.length > this.MAX_PAYLOAD_CHARS
+      ? { truncated: true, preview: text.substring(0, this.MAX_PAYLOAD_CHARS) }
+      : payload;
+  }
+
+  private hash(text: string): string {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash).toString(36);
+  }
+
+  // Mantém as entradas vistas mais recentemente
+  private prune(): void {
+    const entries = this.getEntries();
+    if (entries.length <= this.MAX_ENTRIES) return;
+    entries.slice(this.MAX_ENTRIES).forEach(entry => {
+      delete this.data.entries[entry.key];
+    });
+  }
+
+  private load(): QuarantineData {
+    try {
+      const data = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+      return { entries: data?.entries || {}, counts: data?.counts || {} };
+    } catch (error) {
+      console.error('❌ Erro ao carregar quarentena:', error);
+      return { entries: {}, counts: {} };
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+    } catch (error) {
+      console.error('❌ Erro ao salvar quarentena:', error);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const quarantine = new QuarantineStore();
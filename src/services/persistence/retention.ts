@@ -0,0 +1,298 @@
+/**
+ * @fileoverview Monitoramento da cota de armazenamento e política de retenção
+ * @module services/persistence/retention
+ *
+ * Pedidos finalizados (entregues ou cancelados) que passam das regras —
+ * mais antigos que N dias ou além dos N finalizados mais recentes — viram um
+ * resumo compacto no arquivo e saem do armazenamento principal. Pedidos com
+ * edição local, conflito ou mutação na fila nunca são arquivados.
+ */
+
+import { Order, OrderStatus } from '../../types';
+import { ArchivedOrder } from '../cache/ordersStorage';
+import { tabCoordinator } from '../api/client/tabCoordinator';
+import { orderRepository } from './orderRepository';
+import { localEdits } from './localEdits';
+
+// ==================== TIPOS ====================
+export interface RetentionPolicy {
+  enabled: boolean;
+  // null desativa a regra
+  maxAgeDays: number | null;
+  keepCompleted: number | null;
+  // Percentual da cota a partir do qual o operador é avisado
+  warnAtPercent: number;
+}
+
+export type EvictionReason = ArchivedOrder['reason'];
+
+export interface QuotaStatus {
+  usage: number | null;
+  quota: number | null;
+  percent: number | null;
+  warning: boolean;
+  checkedAt: string;
+}
+
+export interface RetentionReport {
+  ranAt: string;
+  evaluated: number;
+  archived: number;
+  byReason: Record<EvictionReason, number>;
+  // Pedidos que passariam das regras mas têm edição local ou estão na fila
+  protectedCount: number;
+}
+
+export interface RetentionState {
+  policy: RetentionPolicy;
+  quota: QuotaStatus | null;
+  lastReport: RetentionReport | null;
+}
+
+interface Eviction {
+  order: Order;
+  reason: EvictionReason;
+}
+
+// ==================== CONSTANTES ====================
+const DEFAULT_POLICY: RetentionPolicy = {
+  enabled: true,
+  maxAgeDays: 90,
+  keepCompleted: 500,
+  warnAtPercent: 80
+};
+
+const FINAL_STATUSES = [OrderStatus.DELIVERED, OrderStatus.CANCELLED];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const timeOf = (order: Order) => new Date(order.updatedAt || order.createdAt).getTime();
+
+// ==================== HELPERS ====================
+
+export function compactOrder(order: Order, reason: EvictionReason): ArchivedOrder {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    customerName: order.customer?.name || '',
+    customerPhone: order.customer?.phone,
+    itemCount: Array.isArray(order.items) ? order.items.length : 0,
+    total: order.total,
+    status: order.status,
+    paymentMethod: String(order.paymentMethod || ''),
+    createdAt: new Date(order.createdAt),
+    updatedAt: new Date(order.updatedAt || order.createdAt),
+    archivedAt: new Date(),
+    reason
+  };
+}
+
+/**
+ * Aplica as regras da política. Pedidos protegidos não entram na conta
+ * do limite: o limite vale para os que podem sair.
+ */
+export function planEvictions(
+  orders: Order[],
+  policy: RetentionPolicy,
+  protectedIds: Set<string>,
+  now: number = Date.now()
+): { evictions: Eviction[]; protectedCount: number } {
+  const finished = orders
+    .filter(order => FINAL_STATUSES.includes(order.status))
+    .sort((a, b) => timeOf(b) - timeOf(a));
+
+  const evictions: Eviction[] = [];
+  let protectedCount = 0;
+
+  finished.forEach((order, index) => {
+    let reason: EvictionReason | null = null;
+
+    if (policy.maxAgeDays !== null && now - timeOf(order) > policy.maxAgeDays * DAY) {
+      reason = 'age';
+    } else if (policy.keepCompleted !== null && index >= policy.keepCompleted) {
+      reason = 'count';
+    }
+
+    if (!reason) return;
+    if (protectedIds.has(order.id)) {
+      protectedCount++;
+      return;
+    }
+    evictions.push({ order, reason });
+  });
+
+  return { evictions, protectedCount };
+}
+
+// ==================== GERENCIADOR ====================
+
+class StorageRetention {
+  private readonly STORAGE_KEY = 'mercado_retention';
+  private readonly RUN_INTERVAL = 6 * 60 * 60 * 1000;
+  private readonly QUOTA_INTERVAL = 15 * 60 * 1000;
+  private readonly STARTUP_DELAY = 30 * 1000;
+
+  private state: RetentionState = this.load();
+  private running: Promise<RetentionReport> | null = null;
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  private listeners = new Set<() => void>();
+
+  getState(): RetentionState {
+    return { ...this.state, policy: { ...this.state.policy } };
+  }
+
+  updatePolicy(changes: Partial<RetentionPolicy>): void {
+    this.state = { ...this.state, policy: { ...this.state.policy, ...changes } };
+    this.save();
+    this.notify();
+    this.checkQuota().catch(() => undefined);
+  }
+
+  /**
+   * Consulta navigator.storage.estimate(); sem a API, não há aviso
+   */
+  async checkQuota(): Promise<QuotaStatus> {
+    let usage: number | null = null;
+    let quota: number | null = null;
+
+    try {
+      if (navigator.storage?.estimate) {
+        const estimate = await navigator.storage.estimate();
+        usage = estimate.usage ?? null;
+        quota = estimate.quota ?? null;
+      }
+    } catch (error) {
+      console.warn('⚠️ Não foi possível consultar a cota de armazenamento:', error);
+    }
+
+    const percent = usage !== null && quota ? Math.round((usage / quota) * 1000) / 10 : null;
+    const status: QuotaStatus = {
+      usage,
+      quota,
+      percent,
+      warning: percent !== null && percent >= this.state.policy.warnAtPercent,
+      checkedAt: new Date().toISOString()
+    };
+
+    if (status.warning && !this.state.quota?.warning) {
+      console.warn(`💽 Armazenamento local em ${percent}% da cota`);
+    }
+
+    this.state = { ...this.state, quota: status };
+    this.notify();
+    return status;
+  }
+
+  /**
+   * Arquiva o que passou das regras. Chamadas simultâneas compartilham a execução.
+   */
+  run(): Promise<RetentionReport> {
+    if (!this.running) {
+      this.running = this.execute().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Primeira execução pouco depois de abrir o app, depois a cada 6 horas.
+   * Só a aba líder arquiva; todas acompanham a cota.
+   */
+  start(): () => void {
+    if (this.timers.length > 0) return () => this.stop();
+
+    const tick = () => {
+      if (this.state.policy.enabled && tabCoordinator.isLeader()) {
+        this.run().catch(error => console.error('❌ Erro na retenção de pedidos:', error));
+      } else {
+        this.checkQuota().catch(() => undefined);
+      }
+    };
+
+    this.timers.push(
+      setTimeout(tick, this.STARTUP_DELAY),
+      setInterval(tick, this.RUN_INTERVAL),
+      setInterval(() => this.checkQuota().catch(() => undefined), this.QUOTA_INTERVAL)
+    );
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async execute(): Promise<RetentionReport> {
+    const [orders, queue] = await Promise.all([
+      orderRepository.getAll(),
+      orderRepository.getSyncQueue()
+    ]);
+
+    const protectedIds = new Set<string>();
+    queue.forEach(entry => entry.orderId && protectedIds.add(entry.orderId));
+    orders.forEach(order => {
+      // Criados localmente não existem no backend: o arquivo seria a única cópia
+      if (order.id.startsWith('local-') || localEdits.get(order.id) || localEdits.getConflict(order.id)) {
+        protectedIds.add(order.id);
+      }
+    });
+
+    const { evictions, protectedCount } = planEvictions(orders, this.state.policy, protectedIds);
+    await orderRepository.archive(evictions.map(({ order, reason }) => compactOrder(order, reason)));
+
+    const report: RetentionReport = {
+      ranAt: new Date().toISOString(),
+      evaluated: orders.length,
+      archived: evictions.length,
+      byReason: {
+        age: evictions.filter(eviction => eviction.reason === 'age').length,
+        count: evictions.filter(eviction => eviction.reason === 'count').length
+      },
+      protectedCount
+    };
+
+    this.state = { ...this.state, lastReport: report };
+    this.save();
+    await this.checkQuota();
+    return report;
+  }
+
+  private load(): RetentionState {
+    try {
+      const saved = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+      return {
+        policy: { ...DEFAULT_POLICY, ...saved.policy },
+        quota: null,
+        lastReport: saved.lastReport || null
+      };
+    } catch {
+      return { policy: { ...DEFAULT_POLICY }, quota: null, lastReport: null };
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify({
+        policy: this.state.policy,
+        lastReport: this.state.lastReport
+      }));
+    } catch (error) {
+      console.error('❌ Erro ao salvar política de retenção:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const storageRetention = new StorageRetention();
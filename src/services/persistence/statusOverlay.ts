@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Sobreposição local de status para preservar CONFIRMED/READY entre sincronizações
+ * @module services/persistence/statusOverlay
+ *
+ * O backend só conhece pending/preparing/delivering/completed/cancelled, então
+ * CONFIRMED volta como PENDING e READY volta como PREPARING após cada sync.
+ * Guardamos aqui o status escolhido pelo operador e reaplicamos sobre os dados
+ * da API enquanto o backend não avançar além dele.
+ */
+
+import { Order, OrderStatus } from '../../types';
+import { mapFrontendToBackendStatus } from '../api/normalizer';
+
+export interface StatusOverlayEntry {
+  status: OrderStatus;
+  setAt: number;
+}
+
+// Posição de cada status no fluxo; CANCELLED é terminal como DELIVERED
+const STATUS_RANK: Record<OrderStatus, number> = {
+  [OrderStatus.PENDING]: 0,
+  [OrderStatus.CONFIRMED]: 1,
+  [OrderStatus.PREPARING]: 2,
+  [OrderStatus.READY]: 3,
+  [OrderStatus.OUT_FOR_DELIVERY]: 4,
+  [OrderStatus.DELIVERED]: 5,
+  [OrderStatus.CANCELLED]: 5
+};
+
+class StatusOverlayStore {
+  private readonly STORAGE_KEY = 'mercado_status_overlay';
+  private readonly MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
+  private entries: Record<string, StatusOverlayEntry> = this.load();
+
+  /**
+   * Registra o status definido pelo operador para um pedido
+   */
+  record(orderId: string, status: OrderStatus): void {
+    this.entries[orderId] = { status, setAt: Date.now() };
+    this.save();
+  }
+
+  /**
+   * Remove a sobreposição de um pedido
+   */
+  clear(orderId: string): void {
+    if (this.entries[orderId]) {
+      delete this.entries[orderId];
+      this.save();
+    }
+  }
+
+  /**
+   * Obtém a sobreposição de um pedido, se houver
+   */
+  get(orderId: string): StatusOverlayEntry | undefined {
+    return this.entries[orderId];
+  }
+
+  /**
+   * Reaplica os status locais sobre pedidos vindos da API.
+   * O status local vence enquanto o backend estiver no mesmo status "grosso"
+   * ou atrás dele; se o backend avançou (ou cancelou), o backend vence e a
+   * sobreposição é descartada.
+   */
+  apply(orders: Order[]): Order[] {
+    let changed = false;
+
+    const result = orders.map(order => {
+      const entry = this.entries[order.id];
+      if (!entry) return order;
+
+      const resolved = this.resolve(order.status, entry.status);
+      if (resolved === order.status) {
+        // Backend já tem o mesmo status (ou foi além): sobreposição não é mais necessária
+        delete this.entries[order.id];
+        changed = true;
+        return order;
+      }
+
+      return { ...order, status: resolved };
+    });
+
+    if (this.prune()) changed = true;
+    if (changed) this.save();
+
+    return result;
+  }
+
+  /**
+   * Decide qual status exibir entre o do backend e o do operador
+   */
+  private resolve(backendStatus: OrderStatus, localStatus: OrderStatus): OrderStatus {
+    if (backendStatus === localStatus) return localStatus;
+
+    // Backend cancelou ou finalizou: respeitar sempre
+    if (backendStatus === OrderStatus.CANCELLED || backendStatus === OrderStatus.DELIVERED) {
+      return backendStatus;
+    }
+
+    // Mesmo status no backend (ex.: READY enviado como preparing): manter o detalhado
+    if (this.sameBackendStatus(backendStatus, localStatus)) {
+      return localStatus;
+    }
+
+    // Nunca regredir o que o operador definiu; aceitar o backend se ele avançou
+    return STATUS_RANK[backendStatus] > STATUS_RANK[localStatus] ? backendStatus : localStatus;
+  }
+
+  private sameBackendStatus(a: OrderStatus, b: OrderStatus): boolean {
+    return mapFrontendToBackendStatus(a) === mapFrontendToBackendStatus(b);
+  }
+
+  /**
+   * Remove entradas antigas para não crescer indefinidamente
+   */
+  private prune(): boolean {
+    const cutoff = Date.now() - this.MAX_AGE;
+    let removed = false;
+
+    for (const orderId of Object.keys(this.entries)) {
+      if (this.entries[orderId].setAt < cutoff) {
+        delete this.entries[orderId];
+        removed = true;
+      }
+    }
+
+    return removed;
+  }
+
+  private load(): Record<string, StatusOverlayEntry> {
+    try {
+      const dataStr = localStorage.getItem(this.STORAGE_KEY);
+      return dataStr ? JSON.parse(dataStr) : {};
+    } catch (error) {
+      console.error('❌ Erro ao carregar status locais:', error);
+      return {};
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('❌ Erro ao salvar status locais:', error);
+    }
+  }
+}
+
+export const statusOverlay = new StatusOverlayStore();
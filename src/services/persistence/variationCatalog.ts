@@ -0,0 +1,365 @@
+/**
+ * @fileoverview Catálogo de produtos e variações para resolver os ids dos itens
+ * @module services/persistence/variationCatalog
+ *
+ * O catálogo é baixado inteiro do backend e guardado no IndexedDB com a sua
+ * versão (ETag), e fica em memória para o normalizador resolver os ids de
+ * forma síncrona. Ids que nem o catálogo nem o operador conhecem entram na
+ * lista de não resolvidos, onde o operador pode dar um nome à mão.
+ */
+
+import { ordersStorage, CatalogEntry, CatalogMeta } from '../cache/ordersStorage';
+import { CatalogService } from '../api/services/catalog';
+import { tabCoordinator } from '../api/client/tabCoordinator';
+
+// ==================== TIPOS ====================
+export interface ResolvedCatalogName {
+  name: string;
+  kind: CatalogEntry['kind'];
+  price?: number;
+  source: 'manual' | 'catalog';
+}
+
+export interface UnresolvedVariation {
+  id: string;
+  // Nome do item onde o id apareceu por último, para o operador reconhecer
+  itemName: string | null;
+  occurrences: number;
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+export interface CatalogSnapshot {
+  meta: CatalogMeta | null;
+  products: number;
+  variations: number;
+  manual: Record<string, string>;
+  unresolved: UnresolvedVariation[];
+  refreshing: boolean;
+  lastError: string | null;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Verifica se um valor parece ser um ID (e não um nome)
+ */
+export function isLikelyID(value: string): boolean {
+  return (
+    /^[0-9a-f]{24}$/i.test(value) || // MongoDB ObjectId
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value) || // UUID
+    /^\d{1,10}$/.test(value) // ID numérico simples
+  );
+}
+
+// ==================== GERENCIADOR ====================
+
+class VariationCatalog {
+  private readonly MANUAL_KEY = 'mercado_catalog_manual';
+  private readonly UNRESOLVED_KEY = 'mercado_catalog_unresolved';
+  // Cache da versão antiga (um nome por requisição, sem versão)
+  private readonly LEGACY_CACHE_KEY = 'variationCache';
+  private readonly REFRESH_INTERVAL = 6 * 60 * 60 * 1000;
+  // Id novo pode ser um produto recém-cadastrado: vale baixar de novo, mas não a cada pedido
+  private readonly UNRESOLVED_REFRESH_DELAY = 15 * 60 * 1000;
+  private readonly SAVE_DELAY = 2000;
+  private readonly MAX_UNRESOLVED = 300;
+
+  private entries = new Map<string, CatalogEntry>();
+  private meta: CatalogMeta | null = null;
+  private manual: Record<string, string> = this.loadManual();
+  private unresolved: Record<string, UnresolvedVariation> = this.loadUnresolved();
+
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+  private refreshing: Promise<boolean> | null = null;
+  private lastError: string | null = null;
+  private lastUnresolvedRefresh = 0;
+
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  // ==================== RESOLUÇÃO (SÍNCRONA) ====================
+
+  /**
+   * Nome dado pelo operador primeiro, depois o do catálogo
+   */
+  resolve(id: string): ResolvedCatalogName | undefined {
+    if (this.manual[id]) {
+      return { name: this.manual[id], kind: 'unknown', source: 'manual' };
+    }
+    const entry = this.entries.get(id);
+    return entry ? { name: entry.name, kind: entry.kind, price: entry.price, source: 'catalog' } : undefined;
+  }
+
+  resolveName(id: string): string | undefined {
+    return this.resolve(id)?.name;
+  }
+
+  /**
+   * Registra um id que ninguém conhece. Antes de o catálogo salvo carregar,
+   * todo id pareceria desconhecido: nada é registrado.
+   */
+  noteUnresolved(id: string, itemName?: string): void {
+    if (!this.loaded || this.resolve(id)) return;
+
+    const now = Date.now();
+    const existing = this.unresolved[id];
+    this.unresolved[id] = {
+      id,
+      itemName: itemName || existing?.itemName || null,
+      occurrences: (existing?.occurrences || 0) + 1,
+      firstSeenAt: existing?.firstSeenAt || now,
+      lastSeenAt: now
+    };
+
+    if (!existing) {
+      this.pruneUnresolved();
+      this.refreshForUnresolved();
+    }
+    this.scheduleSave();
+  }
+
+  // ==================== EDIÇÃO MANUAL ====================
+
+  assignName(id: string, name: string): void {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    this.manual = { ...this.manual, [id]: trimmed };
+    delete this.unresolved[id];
+    this.saveManual();
+    this.saveUnresolved();
+    this.notify();
+  }
+
+  removeManual(id: string): void {
+    if (!this.manual[id]) return;
+    const { [id]: _removed, ...rest } = this.manual;
+    this.manual = rest;
+    this.saveManual();
+    this.notify();
+  }
+
+  dismissUnresolved(id: string): void {
+    if (!this.unresolved[id]) return;
+    delete this.unresolved[id];
+    this.saveUnresolved();
+    this.notify();
+  }
+
+  // ==================== CARGA E ATUALIZAÇÃO ====================
+
+  /**
+   * Carrega o catálogo salvo no IndexedDB (uma vez; chamadas simultâneas
+   * compartilham a carga)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readStored().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Baixa o catálogo de novo (condicional pela ETag). Retorna true se mudou.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.notify();
+      this.refreshing = this.download().finally(() => {
+        this.refreshing = null;
+        this.notify();
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Carrega o catálogo salvo e o mantém atualizado. Só a aba líder baixa;
+   * as outras releem o IndexedDB.
+   */
+  start(): () => void {
+    if (this.timers.length > 0) return () => this.stop();
+
+    const tick = () => {
+      if (tabCoordinator.isLeader()) {
+        if (this.isStale()) this.refresh().catch(() => undefined);
+      } else {
+        this.load().catch(() => undefined);
+      }
+    };
+
+    this.load()
+      .catch(error => console.error('❌ Erro ao carregar catálogo salvo:', error))
+      .then(tick);
+    this.timers.push(setInterval(tick, this.REFRESH_INTERVAL));
+
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+
+  getSnapshot(): CatalogSnapshot {
+    const all = Array.from(this.entries.values());
+    return {
+      meta: this.meta,
+      products: all.filter(entry => entry.type === 'product').length,
+      variations: all.filter(entry => entry.type === 'variation').length,
+      manual: { ...this.manual },
+      unresolved: Object.values(this.unresolved).sort((a, b) => b.lastSeenAt - a.lastSeenAt),
+      refreshing: !!this.refreshing,
+      lastError: this.lastError
+    };
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async readStored(): Promise<void> {
+    const { entries, meta } = await ordersStorage.getCatalog();
+    this.entries = new Map(entries.map(entry => [entry.id, entry]));
+    this.meta = meta || null;
+    this.loaded = true;
+    this.importLegacyCache();
+    this.dropResolved();
+    this.notify();
+  }
+
+  private async download(): Promise<boolean> {
+    try {
+      const result = await CatalogService.fetchCatalog(this.meta?.etag || null);
+      const syncedAt = new Date().toISOString();
+
+      if (result.notModified) {
+        this.meta = this.meta ? { ...this.meta, syncedAt } : null;
+        if (this.meta) await ordersStorage.setMetadata('catalog', this.meta);
+        this.lastError = null;
+        return false;
+      }
+
+      const meta: CatalogMeta = { version: result.version, etag: result.etag, syncedAt, count: result.entries.length };
+      await ordersStorage.replaceCatalog(result.entries, meta);
+
+      this.entries = new Map(result.entries.map(entry => [entry.id, entry]));
+      this.meta = meta;
+      this.loaded = true;
+      this.lastError = null;
+      this.dropResolved();
+      console.log(`🏷️ Catálogo atualizado: ${result.entries.length} produtos e variações`);
+      return true;
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.warn('⚠️ Não foi possível atualizar o catálogo:', error);
+      return false;
+    }
+  }
+
+  private isStale(): boolean {
+    return !this.meta || Date.now() - new Date(this.meta.syncedAt).getTime() > this.REFRESH_INTERVAL;
+  }
+
+  private refreshForUnresolved(): void {
+    if (!tabCoordinator.isLeader() || Date.now() - this.lastUnresolvedRefresh < this.UNRESOLVED_REFRESH_DELAY) return;
+    this.lastUnresolvedRefresh = Date.now();
+    this.refresh().catch(() => undefined);
+  }
+
+  // Ids que o catálogo novo (ou um nome manual) passou a conhecer
+  private dropResolved(): void {
+    const before = Object.keys(this.unresolved).length;
+    Object.keys(this.unresolved).forEach(id => {
+      if (this.resolve(id)) delete this.unresolved[id];
+    });
+    if (Object.keys(this.unresolved).length !== before) this.saveUnresolved();
+  }
+
+  // Mantém os vistos mais recentemente
+  private pruneUnresolved(): void {
+    const sorted = Object.values(this.unresolved).sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+    sorted.slice(this.MAX_UNRESOLVED).forEach(entry => {
+      delete this.unresolved[entry.id];
+    });
+  }
+
+  /**
+   * Os nomes que a versão antiga buscou um a um viram nomes manuais, para
+   * não sumirem antes do primeiro download do catálogo
+   */
+  private importLegacyCache(): void {
+    try {
+      const legacy = JSON.parse(localStorage.getItem(this.LEGACY_CACHE_KEY) || 'null');
+      if (!legacy || typeof legacy !== 'object') return;
+
+      Object.keys(legacy).forEach(id => {
+        const name = legacy[id];
+        // "Variação <id>" era o nome de quando a busca falhava
+        if (typeof name === 'string' && name !== `Variação ${id}` && !this.entries.has(id) && !this.manual[id]) {
+          this.manual[id] = name;
+        }
+      });
+      this.saveManual();
+      localStorage.removeItem(this.LEGACY_CACHE_KEY);
+    } catch (error) {
+      console.warn('⚠️ Cache antigo de variações ignorado:', error);
+    }
+  }
+
+  // Cada pedido sincronizado pode registrar ids: gravar e avisar com atraso
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveUnresolved();
+      this.notify();
+    }, this.SAVE_DELAY);
+  }
+
+  private loadManual(): Record<string, string> {
+    try {
+      return JSON.parse(localStorage.getItem(this.MANUAL_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveManual(): void {
+    try {
+      localStorage.setItem(this.MANUAL_KEY, JSON.stringify(this.manual));
+    } catch (error) {
+      console.error('❌ Erro ao salvar nomes do catálogo:', error);
+    }
+  }
+
+  private loadUnresolved(): Record<string, UnresolvedVariation> {
+    try {
+      return JSON.parse(localStorage.getItem(this.UNRESOLVED_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private saveUnresolved(): void {
+    try {
+      localStorage.setItem(this.UNRESOLVED_KEY, JSON.stringify(this.unresolved));
+    } catch (error) {
+      console.error('❌ Erro ao salvar ids não resolvidos:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const variationCatalog = new VariationCatalog();
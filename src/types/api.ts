@@ -26,7 +26,9 @@ export interface BackendOrder {
     price: number;
     option?: string;
     unit_type?: string;
+    // Peso pedido; actual_weight é o conferido na balança (devolvido pelo painel)
     weight?: number;
+    actual_weight?: number;
     price_per_kg?: number;
     _id: string;
   }>;
@@ -58,6 +58,11 @@ export interface Customer {
   orderCount?: number;
 }
 
+/**
+ * Unidade de venda do item: por unidade ou por peso
+ */
+export type ItemUnit = 'un' | 'kg' | 'g';
+
 /**
  * Interface para itens do pedido
  */
@@ -65,9 +70,16 @@ export interface OrderItem {
   id: string;
   productId?: string;
   name: string;
+  // Quantidade cobrada na unidade do item (peso, nos itens pesados)
   quantity: number;
+  // Preço por unidade do item (por kg ou por grama, nos itens pesados)
   unitPrice: number;
   totalPrice: number;
+  // Ausente nos itens vendidos por unidade
+  unit?: ItemUnit;
+  // Peso pedido pelo cliente e peso conferido na balança
+  requestedWeight?: number;
+  actualWeight?: number;
   category?: string;
   imageUrl?: string;
   notes?: string;
@@ -91,6 +103,28 @@ export interface PriceHistory {
   reason: string;
 }
 
+/**
+ * Interface para uma mudança de status no histórico do pedido
+ */
+export interface OrderStatusChange {
+  id: string;
+  from: OrderStatus | null;
+  to: OrderStatus;
+  by?: string;
+  timestamp: Date;
+  source: 'backend' | 'local';
+}
+
+/**
+ * Interface para mensagem de status enviada ao cliente
+ */
+export interface OrderStatusMessage {
+  id: string;
+  status: OrderStatus;
+  message: string;
+  timestamp: Date;
+}
+
 /**
  * Interface para o pedido
  */
@@ -118,6 +152,11 @@ export interface Order {
   priceHistory?: PriceHistory[];
   tags?: string[];
   source?: 'app' | 'website' | 'whatsapp' | 'phone';
+  statusHistory?: OrderStatusChange[];
+  statusMessages?: OrderStatusMessage[];
+  // Versão do pedido no servidor (__v) e updatedAt informado pelo backend
+  serverVersion?: number;
+  serverUpdatedAt?: Date;
 }
 
 /**
@@ -131,7 +170,7 @@ export interface Stats {
   ordersInProgress: number;
   ordersByStatus: Record<OrderStatus, number>;
   revenueByPaymentMethod: Record<string, number>;
-  topProducts?: Array<{ name: string; quantity: number }>;
+  topProducts?: Array<{ name: string; quantity: number; unit?: ItemUnit }>;
   period?: 'today' | 'week' | 'month';
 }
 
@@ -198,6 +237,16 @@ export interface ConfirmModalState {
   onCancel?: () => void;
 }
 
+/**
+ * Interface para resultado de uma ação em lote (um resultado por pedido)
+ */
+export interface BatchOperationResult {
+  succeeded: string[];
+  failed: Array<{ orderId: string; error: string }>;
+  // Alterados localmente e ainda na fila de sincronização (sem conexão ou sem resposta no prazo)
+  queued: string[];
+}
+
 /**
  * Interface para item de drag and drop
  */
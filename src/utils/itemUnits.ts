@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Itens vendidos por unidade ou por peso
+ * @module utils/itemUnits
+ *
+ * Nos itens pesados, quantity é o peso cobrado: o conferido na balança
+ * (actualWeight) ou, até a pesagem, o pedido pelo cliente (requestedWeight).
+ * Assim o total da linha continua sendo quantity × unitPrice em todo o painel.
+ */
+
+import { ItemUnit, Order, OrderItem } from '../types';
+import { formatCurrency } from './formatters';
+
+export const UNIT_LABELS: Record<ItemUnit, string> = {
+  un: 'un.',
+  kg: 'kg',
+  g: 'g'
+};
+
+export function isWeighed(item: Pick<OrderItem, 'unit'>): boolean {
+  return item.unit === 'kg' || item.unit === 'g';
+}
+
+/**
+ * Total da linha em centavos exatos (1,235 kg × R$ 39,90 não pode virar
+ * R$ 49,27650000000001)
+ */
+export function lineTotal(quantity: number, unitPrice: number): number {
+  return Math.round(quantity * unitPrice * 100) / 100;
+}
+
+/**
+ * Subtotal e total do pedido a partir das linhas (depois de pesar ou editar preços)
+ */
+export function orderTotals(
+  order: Pick<Order, 'deliveryFee' | 'discount'>,
+  items: OrderItem[]
+): Pick<Order, 'subtotal' | 'total'> {
+  const subtotal = lineTotal(items.reduce((sum, item) => sum + item.totalPrice, 0), 1);
+  return { subtotal, total: lineTotal(subtotal + (order.deliveryFee || 0) - (order.discount || 0), 1) };
+}
+
+/**
+ * Registra o peso da balança; sem peso, volta a cobrar o peso pedido
+ */
+export function withActualWeight(item: OrderItem, weight: number | undefined): OrderItem {
+  const quantity = weight ?? item.requestedWeight ?? item.quantity;
+  return { ...item, actualWeight: weight, quantity, totalPrice: lineTotal(quantity, item.unitPrice) };
+}
+
+/**
+ * Peso em kg, para somar itens em gramas com itens em quilos
+ */
+export function toKilograms(quantity: number, unit: ItemUnit | undefined): number {
+  return unit === 'g' ? quantity / 1000 : quantity;
+}
+
+/**
+ * "2 un.", "1,25 kg", "500 g"
+ */
+export function formatQuantity(quantity: number, unit: ItemUnit = 'un'): string {
+  const formatted = new Intl.NumberFormat('pt-BR', {
+    maximumFractionDigits: unit === 'kg' ? 3 : 0
+  }).format(quantity);
+  return `${formatted} ${UNIT_LABELS[unit]}`;
+}
+
+/**
+ * Fator entre o preço guardado e o exibido: itens em gramas guardam o preço
+ * por grama, mas o operador e o cliente conhecem o preço por kg
+ */
+export function priceFactor(unit: ItemUnit | undefined): number {
+  return unit === 'g' ? 1000 : 1;
+}
+
+/**
+ * Preço unitário como o cliente conhece: por kg nos itens pesados
+ */
+export function formatUnitPrice(item: Pick<OrderItem, 'unit' | 'unitPrice'>): string {
+  if (!isWeighed(item)) return formatCurrency(item.unitPrice);
+  return `${formatCurrency(item.unitPrice * priceFactor(item.unit))}/kg`;
+}
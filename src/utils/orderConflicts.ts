@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Comparação e mesclagem de versões conflitantes de um pedido
+ * @module utils/orderConflicts
+ */
+
+import { Order, OrderItem } from '../types';
+import { mapFrontendToBackendStatus } from '../services/api/normalizer';
+import { lineTotal, orderTotals } from './itemUnits';
+
+// Campos que o operador pode escolher ao resolver um conflito
+export type ConflictField = 'items' | 'status' | 'prices';
+
+export type ConflictChoice = Record<ConflictField, 'local' | 'server'>;
+
+export const CONFLICT_FIELDS: ConflictField[] = ['status', 'items', 'prices'];
+
+export const CONFLICT_FIELD_LABELS: Record<ConflictField, string> = {
+  status: 'Status',
+  items: 'Itens',
+  prices: 'Preços'
+};
+
+const itemKey = (item: OrderItem) => item.id || item.name;
+
+const itemsSignature = (items: OrderItem[] = []) =>
+  items.map(item => `${itemKey(item)}:${item.name}:${item.quantity}`).sort().join('|');
+
+const pricesSignature = (items: OrderItem[] = []) =>
+  items.map(item => `${itemKey(item)}:${Number(item.unitPrice).toFixed(2)}`).sort().join('|');
+
+/**
+ * Lista os campos em que duas versões do pedido diferem.
+ * O status é comparado como o backend o guarda (READY e PREPARING são iguais lá).
+ */
+export function diffConflictFields(a: Order, b: Order): ConflictField[] {
+  const fields: ConflictField[] = [];
+
+  if (mapFrontendToBackendStatus(a.status) !== mapFrontendToBackendStatus(b.status)) {
+    fields.push('status');
+  }
+  if (itemsSignature(a.items) !== itemsSignature(b.items)) {
+    fields.push('items');
+  }
+  if (pricesSignature(a.items) !== pricesSignature(b.items)) {
+    fields.push('prices');
+  }
+
+  return fields;
+}
+
+/**
+ * Monta o pedido resolvido a partir da escolha do operador para cada campo.
+ * Os preços são aplicados por item sobre a lista de itens escolhida.
+ */
+export function mergeConflictingOrders(local: Order, server: Order, choice: ConflictChoice): Order {
+  const statusSource = choice.status === 'local' ? local : server;
+  const itemsSource = choice.items === 'local' ? local : server;
+  const pricesSource = choice.prices === 'local' ? local : server;
+
+  const priceByItem = new Map(pricesSource.items.map(item => [itemKey(item), item.unitPrice]));
+
+  const items = itemsSource.items.map(item => {
+    const unitPrice = priceByItem.get(itemKey(item)) ?? item.unitPrice;
+    return { ...item, unitPrice, totalPrice: lineTotal(item.quantity, unitPrice) };
+  });
+
+  return {
+    ...server,
+    status: statusSource.status,
+    statusHistory: local.statusHistory,
+    items,
+    ...orderTotals(server, items),
+    priceHistory: local.priceHistory || server.priceHistory,
+    updatedAt: new Date()
+  };
+}
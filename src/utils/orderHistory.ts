@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Funções para o histórico de status dos pedidos
+ * @module utils/orderHistory
+ */
+
+import { Order, OrderStatus, OrderStatusChange, OrderStatusMessage } from '../types';
+import { mapFrontendToBackendStatus } from '../services/api/normalizer';
+
+// Janela para considerar que uma mudança local já foi registrada pelo backend
+const MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Entrada da linha do tempo exibida no detalhe do pedido
+ */
+export type TimelineEntry =
+  | { kind: 'status'; change: OrderStatusChange; durationMs: number; isCurrent: boolean }
+  | { kind: 'message'; message: OrderStatusMessage };
+
+/**
+ * Cria o registro de uma mudança de status feita neste painel
+ */
+export function createLocalStatusChange(
+  from: OrderStatus | null,
+  to: OrderStatus,
+  by: string = 'Painel'
+): OrderStatusChange {
+  return {
+    id: `local-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+    from,
+    to,
+    by,
+    timestamp: new Date(),
+    source: 'local'
+  };
+}
+
+/**
+ * Mescla o histórico vindo do backend com as mudanças locais que ele ainda não
+ * registrou. Como o backend guarda READY como preparing (e CONFIRMED como
+ * pending), quando há uma entrada do backend equivalente a uma local, a local
+ * (mais detalhada) é mantida no lugar dela.
+ */
+export function mergeStatusHistory(
+  backendHistory: OrderStatusChange[] = [],
+  localHistory: OrderStatusChange[] = []
+): OrderStatusChange[] {
+  const merged = [...backendHistory];
+  const local: OrderStatusChange[] = [];
+
+  for (const change of localHistory) {
+    if (change.source !== 'local') continue;
+
+    const localTime = new Date(change.timestamp).getTime();
+    const localBackendStatus = mapFrontendToBackendStatus(change.to);
+
+    const matchIndex = merged.findIndex(remote =>
+      mapFrontendToBackendStatus(remote.to) === localBackendStatus &&
+      Math.abs(new Date(remote.timestamp).getTime() - localTime) < MATCH_WINDOW_MS
+    );
+
+    if (matchIndex !== -1) {
+      merged.splice(matchIndex, 1);
+    }
+    local.push(change);
+  }
+
+  return [...merged, ...local].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Monta a linha do tempo do pedido: mudanças de status (com o tempo que o
+ * pedido ficou em cada status) e mensagens enviadas ao cliente, em ordem.
+ */
+export function buildTimeline(order: Order, now: Date = new Date()): TimelineEntry[] {
+  const history = [...(order.statusHistory || [])].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  // Pedido sem histórico: considerar a criação como entrada no status inicial
+  if (history.length === 0 || history[0].from !== null) {
+    history.unshift({
+      id: `created-${order.id}`,
+      from: null,
+      to: history.length > 0 && history[0].from ? history[0].from : order.status,
+      timestamp: new Date(order.createdAt),
+      source: 'backend'
+    });
+  }
+
+  const statusEntries: TimelineEntry[] = history.map((change, index) => {
+    const start = new Date(change.timestamp).getTime();
+    const next = history[index + 1];
+    const end = next ? new Date(next.timestamp).getTime() : now.getTime();
+
+    return {
+      kind: 'status',
+      change,
+      durationMs: Math.max(0, end - start),
+      isCurrent: !next
+    };
+  });
+
+  const messageEntries: TimelineEntry[] = (order.statusMessages || []).map(message => ({
+    kind: 'message',
+    message
+  }));
+
+  const timestampOf = (entry: TimelineEntry) => new Date(
+    entry.kind === 'status' ? entry.change.timestamp : entry.message.timestamp
+  ).getTime();
+
+  return [...statusEntries, ...messageEntries].sort((a, b) => timestampOf(a) - timestampOf(b));
+}
+
+/**
+ * Formata uma duração em texto curto (ex.: "1h 05min")
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+
+  if (minutes < 1) return 'menos de 1min';
+  if (minutes < 60) return `${minutes}min`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}min`;
+
+  const days = Math.floor(hours / 24);
+  return `${days}d ${hours % 24}h`;
+}
@@ -1,8 +1,84 @@
-import { OrderStatus } from '../types';
+import { OrderStatus, ORDER_STATUS_CONFIG } from '../types';
 
 /**
- * Simplifies an order status to either PENDING or READY.
+ * Coluna do quadro de pedidos derivada de ORDER_STATUS_CONFIG
  */
-export function simplifyStatus(status: OrderStatus): OrderStatus {
-  return status === OrderStatus.READY ? OrderStatus.READY : OrderStatus.PENDING;
+export interface StatusColumn {
+  id: OrderStatus;
+  title: string;
+  color: string;
+}
+
+/**
+ * Ordem padrão das colunas do quadro (segue o fluxo do pedido)
+ */
+export const DEFAULT_COLUMN_ORDER: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PREPARING,
+  OrderStatus.READY,
+  OrderStatus.OUT_FOR_DELIVERY,
+  OrderStatus.DELIVERED,
+  OrderStatus.CANCELLED
+];
+
+/**
+ * Atalhos numéricos de filtro (listados no HelpModal)
+ */
+export const FILTER_SHORTCUTS: Record<string, OrderStatus | 'all'> = {
+  '0': 'all',
+  '1': OrderStatus.PENDING,
+  '2': OrderStatus.PREPARING,
+  '3': OrderStatus.READY,
+  '4': OrderStatus.OUT_FOR_DELIVERY
+};
+
+/**
+ * Monta a coluna do quadro para um status
+ */
+export function getStatusColumn(status: OrderStatus): StatusColumn {
+  const config = ORDER_STATUS_CONFIG[status];
+  return { id: status, title: config.label, color: config.color };
+}
+
+/**
+ * Resultado da validação de uma mudança de status
+ */
+export interface TransitionValidation {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Verifica se a mudança de status é permitida por ORDER_STATUS_CONFIG.allowedTransitions
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_CONFIG[from]?.allowedTransitions.includes(to) ?? false;
+}
+
+/**
+ * Valida uma mudança de status e explica o motivo quando ela é recusada.
+ * Todo caminho que altera status (botões, arrastar, hooks) deve passar por aqui.
+ */
+export function validateTransition(from: OrderStatus, to: OrderStatus): TransitionValidation {
+  if (!ORDER_STATUS_CONFIG[from] || !ORDER_STATUS_CONFIG[to]) {
+    return { valid: false, reason: 'Status de pedido desconhecido' };
+  }
+
+  const fromLabel = ORDER_STATUS_CONFIG[from].label;
+  const toLabel = ORDER_STATUS_CONFIG[to].label;
+
+  if (from === to) {
+    return { valid: false, reason: `O pedido já está como "${fromLabel}"` };
+  }
+
+  if (!canTransition(from, to)) {
+    const allowed = ORDER_STATUS_CONFIG[from].allowedTransitions;
+    const hint = allowed.length > 0
+      ? ` (permitido: ${allowed.map(status => ORDER_STATUS_CONFIG[status].label).join(', ')})`
+      : ' (status final)';
+    return { valid: false, reason: `Não é possível mudar de "${fromLabel}" para "${toLabel}"${hint}` };
+  }
+
+  return { valid: true };
 }
@@ -1,63 +1,36 @@
 /**
  * Teste de conexão com a API do Painel de Pedidos
+ * Execute com: node test-api-connection.js
+ *
+ * Os pedidos passam pela mesma validação e pelo mesmo normalizador do painel.
  */
 
-// Importar o adaptador de API
-const { CompleteApiAdapter } = require('./src/services/api-adapter-complete');
-
-// Criar uma instância do adaptador
-const api = new CompleteApiAdapter({
-  baseUrl: 'https://mercado-api-9sw5.onrender.com/api',
-  debug: true
-});
-
-// Verificar a saúde da API
-async function checkHealth() {
-  try {
-    console.log('Verificando saúde da API...');
-    const health = await api.checkHealth();
-    console.log('Resultado:', health);
-    
-    return health.success;
-  } catch (error) {
-    console.error('Erro ao verificar saúde da API:', error);
-    return false;
-  }
-}
+const { API_BASE_URL, checkHealth, fetchNormalizedOrders, describeOrder } = require('./api-test-normalizer');
 
 // Obter pedidos
 async function getOrders() {
   try {
     console.log('\nObtendo pedidos...');
-    const orders = await api.getOrders();
-    
-    if (orders.success && orders.data) {
-      const count = Array.isArray(orders.data) ? orders.data.length : 
-                    orders.data.orders ? orders.data.orders.length : 0;
-      
-      console.log(`✅ Sucesso! ${count} pedidos encontrados.`);
-      
-      // Mostrar parte dos dados
-      if (count > 0) {
-        const sample = Array.isArray(orders.data) ? orders.data[0] : 
-                      orders.data.orders ? orders.data.orders[0] : null;
-        
-        if (sample) {
-          console.log('\n📦 Exemplo de pedido:');
-          console.log('- ID:', sample.id);
-          console.log('- Cliente:', sample.customer.name);
-          console.log('- Status:', sample.status);
-          console.log('- Total:', sample.total);
-          console.log('- Itens:', sample.items.length);
-        }
-      }
-    } else {
-      console.log('❌ Falha ao obter pedidos:', orders.message || 'Erro desconhecido');
+    const { endpoint, orders, invalid } = await fetchNormalizedOrders();
+    console.log(`✅ Sucesso! ${orders.length} pedidos normalizados via ${endpoint}.`);
+
+    // Contagem por perfil de backend
+    const byProfile = orders.reduce((acc, { profile }) => ({ ...acc, [profile]: (acc[profile] || 0) + 1 }), {});
+    Object.keys(byProfile).forEach(profile => console.log(`- Perfil ${profile}: ${byProfile[profile]}`));
+
+    if (invalid.length > 0) {
+      console.log(`\n🚫 ${invalid.length} pedido(s) inválido(s):`);
+      invalid.forEach(({ id, issues }) => console.log(`- ${id || 'sem id'}: ${issues.join('; ')}`));
     }
-    
-    return orders.success;
+
+    if (orders.length > 0) {
+      console.log('\n📦 Exemplo de pedido:');
+      console.log(describeOrder(orders[0]));
+    }
+
+    return invalid.length === 0;
   } catch (error) {
-    console.error('❌ Erro ao obter pedidos:', error);
+    console.error('❌ Erro ao obter pedidos:', error.message);
     return false;
   }
 }
@@ -66,32 +39,33 @@ async function getOrders() {
 async function runTests() {
   console.log('🔍 INICIANDO TESTES DE CONEXÃO COM API');
   console.log('======================================');
-  
+  console.log(`API: ${API_BASE_URL}`);
+
   // Verificar saúde
+  console.log('\nVerificando saúde da API...');
   const healthOk = await checkHealth();
-  
+
   if (!healthOk) {
     console.log('\n❌ API não está respondendo. Abortando testes.');
     return;
   }
-  
+
   // Buscar pedidos
   const ordersOk = await getOrders();
-  
+
   // Relatório final
   console.log('\n📋 RELATÓRIO FINAL');
   console.log('==================');
   console.log('Saúde da API:', healthOk ? '✅ OK' : '❌ Falha');
-  console.log('Obtenção de pedidos:', ordersOk ? '✅ OK' : '❌ Falha');
-  
+  console.log('Pedidos válidos e normalizados:', ordersOk ? '✅ OK' : '❌ Falha');
+
   if (healthOk && ordersOk) {
     console.log('\n🎉 TODOS OS TESTES PASSARAM!');
-    console.log('O adaptador de API está funcionando corretamente.');
   } else {
     console.log('\n⚠️ ALGUNS TESTES FALHARAM.');
-    console.log('Verifique a conexão com a API ou o adaptador.');
+    console.log('Verifique a conexão com a API ou os pedidos em quarentena.');
   }
 }
 
 // Executar os testes
-runTests().catch(console.error);
\ No newline at end of file
+runTests().catch(console.error);